@@ -17,6 +17,9 @@ try {
   execSync('esbuild server/index.ts --platform=node --packages=external --bundle --format=esm --outdir=dist', { stdio: 'inherit' });
   console.log('✅ Server build complete!\n');
 
+  // Workflow templates are read at runtime from next to the server bundle
+  fs.cpSync(path.join(process.cwd(), 'server', 'workflow-templates'), path.join(process.cwd(), 'dist', 'workflow-templates'), { recursive: true });
+
   // Step 3: Copy frontend files to correct location
   console.log('📁 Copying frontend files to server directory...');
   
@@ -6,6 +6,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import Home from "@/pages/home";
 import Deployments from "@/pages/deployments";
 import DeploymentDetails from "@/pages/deployment-details";
+import Instances from "@/pages/instances";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -14,6 +15,7 @@ function Router() {
       <Route path="/" component={Home} />
       <Route path="/deployments" component={Deployments} />
       <Route path="/deployments/:id" component={DeploymentDetails} />
+      <Route path="/instances" component={Instances} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,195 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { API_BASE_URL } from '@/lib/config';
+import { Settings, Save, RefreshCw } from 'lucide-react';
+import type { BotConfig, BotConfigEntry, BotConfigUpdate } from '@shared/schema';
+
+type ConfigValue = BotConfigEntry['value'];
+
+interface BotConfigEditorProps {
+  deploymentId: string;
+}
+
+// Edits the settings in the bot's config.js and .env; saving commits them to the deployment branch
+export function BotConfigEditor({ deploymentId }: BotConfigEditorProps) {
+  const [values, setValues] = useState<Record<string, ConfigValue>>({});
+  const [restart, setRestart] = useState(true);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: config, isLoading, error, refetch } = useQuery<BotConfig>({
+    queryKey: ['/api/deployments', deploymentId, 'config'],
+  });
+
+  useEffect(() => {
+    if (config) {
+      setValues(Object.fromEntries(config.entries.map((entry) => [entry.key, entry.value])));
+    }
+  }, [config]);
+
+  const changes = Object.fromEntries(
+    (config?.entries ?? [])
+      .filter((entry) => values[entry.key] !== undefined && values[entry.key] !== entry.value)
+      .map((entry) => [entry.key, values[entry.key]])
+  );
+  const hasChanges = Object.keys(changes).length > 0;
+
+  const saveMutation = useMutation({
+    mutationFn: async (update: BotConfigUpdate) => {
+      const response = await apiRequest('PUT', `${API_BASE_URL}/deployments/${deploymentId}/config`, update);
+      return response.json() as Promise<{ success: boolean; message: string; updated: string[] }>;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: data.message,
+        description: data.updated.length > 0 ? `Committed ${data.updated.join(', ')} to your branch.` : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Save Settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/deployments', deploymentId] });
+    },
+  });
+
+  const setValue = (key: string, value: ConfigValue) => {
+    setValues((current) => ({ ...current, [key]: value }));
+  };
+
+  const renderInput = (entry: BotConfigEntry) => {
+    const value = values[entry.key] ?? entry.value;
+    const id = `config-${entry.key}`;
+
+    if (entry.type === 'boolean') {
+      return (
+        <Switch
+          id={id}
+          checked={value === true}
+          onCheckedChange={(checked) => setValue(entry.key, checked)}
+          data-testid={`switch-${id}`}
+        />
+      );
+    }
+    if (entry.options) {
+      return (
+        <Select value={String(value)} onValueChange={(option) => setValue(entry.key, option)}>
+          <SelectTrigger id={id} className="w-full sm:w-48" data-testid={`select-${id}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {entry.options.map((option) => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+    return (
+      <Input
+        id={id}
+        type={entry.type === 'number' ? 'number' : 'text'}
+        value={String(value)}
+        onChange={(e) => setValue(entry.key, entry.type === 'number' ? Number(e.target.value) : e.target.value)}
+        className="w-full sm:w-64"
+        data-testid={`input-${id}`}
+      />
+    );
+  };
+
+  return (
+    <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border border-slate-200/50 dark:border-slate-700/50 shadow-xl w-full">
+      <CardHeader className="p-4 sm:p-6">
+        <CardTitle className="flex items-center space-x-2">
+          <Settings className="w-4 h-4 sm:w-5 sm:h-5" />
+          <span className="text-sm sm:text-base">Bot Settings</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 pt-0 sm:pt-0 space-y-4">
+        {isLoading && [...Array(4)].map((_, i) => <Skeleton key={i} className="h-10 w-full" />)}
+
+        {error && (
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-xs sm:text-sm text-red-600 dark:text-red-400">
+              Could not read config.js or .env: {(error as Error).message}
+            </p>
+            <Button variant="outline" size="sm" onClick={() => refetch()} data-testid="button-retry-config">
+              <RefreshCw className="w-3 h-3 mr-1" />
+              Retry
+            </Button>
+          </div>
+        )}
+
+        {config && config.entries.length === 0 && (
+          <p className="text-xs sm:text-sm text-muted-foreground">
+            No editable settings were found in config.js or .env on {config.branchName}.
+          </p>
+        )}
+
+        {config && config.entries.length > 0 && (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate({ values: changes, restart });
+            }}
+          >
+            <div className="divide-y divide-slate-200/70 dark:divide-slate-700/70">
+              {config.entries.map((entry) => (
+                <div key={entry.key} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 py-3">
+                  <div className="min-w-0">
+                    <Label htmlFor={`config-${entry.key}`} className="text-xs sm:text-sm font-medium">
+                      {entry.label}
+                    </Label>
+                    <p className="text-xs text-muted-foreground break-words">
+                      {entry.description ? `${entry.description} · ` : ''}
+                      <code>{entry.key}</code> in {entry.source}
+                    </p>
+                  </div>
+                  {renderInput(entry)}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="config-restart"
+                  checked={restart}
+                  onCheckedChange={(checked) => setRestart(checked === true)}
+                  data-testid="checkbox-config-restart"
+                />
+                <Label htmlFor="config-restart" className="text-xs sm:text-sm">
+                  Restart the bot to apply changes
+                </Label>
+              </div>
+              <Button
+                type="submit"
+                disabled={!hasChanges || saveMutation.isPending}
+                className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white text-xs sm:text-sm"
+                data-testid="button-save-config"
+              >
+                <Save className={`w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2 ${saveMutation.isPending ? 'animate-pulse' : ''}`} />
+                Save Settings
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
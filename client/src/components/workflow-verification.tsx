@@ -3,8 +3,9 @@ import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { CheckCircle, XCircle, AlertCircle, ExternalLink, RefreshCw, Server, Settings, Github } from 'lucide-react';
+import { CheckCircle, XCircle, AlertCircle, ExternalLink, RefreshCw, Server, Settings, Github, GitBranch } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { API_BASE_URL } from '@/lib/config';
 
 interface WorkflowStatus {
   hasFork: boolean;
@@ -14,20 +15,56 @@ interface WorkflowStatus {
   message: string;
   githubUsername?: string;
   isFirstDeployment?: boolean;
+  // Upstream repository and how many commits the fork's default branch lacks;
+  // null when the comparison was not possible
+  upstream?: string;
+  behindBy?: number | null;
 }
 
 interface WorkflowVerificationProps {
+  // Bot template whose fork is checked
+  templateId: string;
   onVerificationComplete: (verified: boolean) => void;
   onSetupRequired: (setupNeeded: boolean) => void;
 }
 
-export function WorkflowVerification({ onVerificationComplete, onSetupRequired }: WorkflowVerificationProps) {
+// Tells how far the fork is behind upstream. Deploys sync it first.
+function ForkFreshness({ upstream, behindBy }: Pick<WorkflowStatus, 'upstream' | 'behindBy'>) {
+  if (behindBy === null || behindBy === undefined) return null;
+
+  if (behindBy === 0) {
+    return (
+      <p className="flex items-center gap-1.5 text-xs sm:text-sm text-slate-500 dark:text-slate-400" data-testid="text-fork-current">
+        <GitBranch className="w-3.5 h-3.5 flex-shrink-0" />
+        Fork is up to date with {upstream}
+      </p>
+    );
+  }
+
+  return (
+    <p className="flex items-start gap-1.5 text-xs sm:text-sm text-amber-600 dark:text-amber-400" data-testid="text-fork-behind">
+      <GitBranch className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+      Fork is {behindBy} commit{behindBy === 1 ? '' : 's'} behind {upstream}. Your next deployment syncs it first.
+    </p>
+  );
+}
+
+export function WorkflowVerification({ templateId, onVerificationComplete, onSetupRequired }: WorkflowVerificationProps) {
   const [isManuallyVerified, setIsManuallyVerified] = useState(false);
   const [hasVerifiedManually, setHasVerifiedManually] = useState(false);
   const { toast } = useToast();
 
   const { data: workflowStatus, isLoading, refetch } = useQuery<WorkflowStatus>({
-    queryKey: ['/api/workflows/verify'],
+    queryKey: ['/api/workflows/verify', templateId],
+    queryFn: async () => {
+      const response = await fetch(`${API_BASE_URL}/workflows/verify?template=${encodeURIComponent(templateId)}`, {
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+      }
+      return response.json();
+    },
     refetchInterval: 5000,
     refetchIntervalInBackground: false,
   });
@@ -111,6 +148,8 @@ export function WorkflowVerification({ onVerificationComplete, onSetupRequired }
                 Online
               </Badge>
             </div>
+
+            <ForkFreshness upstream={workflowStatus.upstream} behindBy={workflowStatus.behindBy} />
             
             {showVerificationButton && workflowStatus.githubUsername && (
               <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
@@ -185,6 +224,8 @@ export function WorkflowVerification({ onVerificationComplete, onSetupRequired }
                 </p>
               </div>
             </div>
+
+            <ForkFreshness upstream={workflowStatus.upstream} behindBy={workflowStatus.behindBy} />
             
             <div className="bg-slate-50 dark:bg-slate-700/50 rounded-lg p-4 space-y-3">
               <h4 className="font-medium text-slate-900 dark:text-white text-sm">Activation Steps:</h4>
@@ -4,9 +4,4 @@ export const API_BASE_URL = '/api';
 // GitHub OAuth scopes
 export const GITHUB_SCOPES = 'repo,workflow';
 
-// Repository configuration
-export const REPO_CONFIG = {
-  owner: 'XYLO-MD',
-  name: 'XYLO-MD',
-  mainBranch: 'main'
-};
+// Upstream repositories come from the server's bot templates, see GET /api/templates
@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Link, useParams, useLocation } from 'wouter';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -7,6 +7,10 @@ import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { API_BASE_URL } from '@/lib/config';
+import { BotConfigEditor } from '@/components/bot-config-editor';
 import { 
   ArrowLeft, 
   ExternalLink, 
@@ -16,16 +20,29 @@ import {
   RefreshCw, 
   Terminal,
   GitBranch,
+  GitCommitHorizontal,
+  Undo2,
   Calendar,
   User,
   Activity,
   Wifi,
   WifiOff,
   Github,
-  Zap
+  Zap,
+  RotateCcw,
+  AlertTriangle,
+  Square,
+  Play,
+  Server
 } from 'lucide-react';
 import { formatDistanceToNow, format } from 'date-fns';
-import type { Deployment, DeploymentLog } from '@shared/schema';
+import type { PublicDeployment, DeploymentLog, AnsiSegment, WorkflowStepLog } from '@shared/schema';
+
+const TARGET_LABELS: Record<string, string> = {
+  'github-actions': 'GitHub Actions',
+  local: 'This server',
+  docker: 'Docker',
+};
 
 const getStatusIcon = (status: string) => {
   switch (status) {
@@ -35,6 +52,10 @@ const getStatusIcon = (status: string) => {
       return <XCircle className="w-4 h-4 text-red-500" />;
     case 'running':
       return <RefreshCw className="w-4 h-4 text-blue-500 animate-spin" />;
+    case 'stopped':
+      return <Square className="w-4 h-4 text-slate-500" />;
+    case 'stale':
+      return <AlertTriangle className="w-4 h-4 text-slate-500" />;
     default:
       return <Clock className="w-4 h-4 text-yellow-500" />;
   }
@@ -48,11 +69,56 @@ const getStatusColor = (status: string) => {
       return 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300 border-red-200 dark:border-red-700';
     case 'running':
       return 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300 border-blue-200 dark:border-blue-700';
+    case 'stopped':
+    case 'stale':
+      return 'bg-slate-100 dark:bg-slate-800/60 text-slate-700 dark:text-slate-300 border-slate-200 dark:border-slate-600';
     default:
       return 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300 border-yellow-200 dark:border-yellow-700';
   }
 };
 
+const ANSI_COLOR_CLASSES: Record<string, string> = {
+  black: 'text-slate-500',
+  red: 'text-red-400',
+  green: 'text-green-400',
+  yellow: 'text-yellow-400',
+  blue: 'text-blue-400',
+  magenta: 'text-fuchsia-400',
+  cyan: 'text-cyan-400',
+  white: 'text-slate-200',
+  'bright-black': 'text-slate-400',
+  'bright-red': 'text-red-300',
+  'bright-green': 'text-green-300',
+  'bright-yellow': 'text-yellow-300',
+  'bright-blue': 'text-blue-300',
+  'bright-magenta': 'text-fuchsia-300',
+  'bright-cyan': 'text-cyan-300',
+  'bright-white': 'text-white',
+};
+
+const getLineLevelColor = (level?: string) => {
+  switch (level) {
+    case 'error':
+      return 'text-red-400';
+    case 'warning':
+      return 'text-yellow-400';
+    case 'group':
+      return 'text-blue-300 font-semibold';
+    default:
+      return 'text-slate-300';
+  }
+};
+
+const renderSegments = (segments: AnsiSegment[]) =>
+  segments.map((segment, index) => (
+    <span
+      key={index}
+      className={`${segment.color ? ANSI_COLOR_CLASSES[segment.color] ?? '' : ''} ${segment.bold ? 'font-bold' : ''}`}
+    >
+      {segment.text}
+    </span>
+  ));
+
 const getLogStatusColor = (status: string) => {
   switch (status) {
     case 'success':
@@ -73,80 +139,212 @@ export default function DeploymentDetails() {
   
   // WebSocket state
   const [liveLogs, setLiveLogs] = useState<DeploymentLog[]>([]);
+  const [stepLogs, setStepLogs] = useState<DeploymentLog[]>([]);
+  const [workflowOutput, setWorkflowOutput] = useState<WorkflowStepLog[]>([]);
   const [isWebSocketConnected, setIsWebSocketConnected] = useState(false);
   const wsRef = useRef<WebSocket | null>(null);
+  // Highest log sequence received, sent on (re)subscribe so the server replays only what we missed
+  const logCursorRef = useRef(0);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   // Fetch deployment details
-  const { data: deployment, isLoading: deploymentLoading } = useQuery<Deployment>({
+  const { data: deployment, isLoading: deploymentLoading } = useQuery<PublicDeployment>({
     queryKey: ['/api/deployments', deploymentId],
     enabled: !!deploymentId,
     refetchInterval: 5000, // Refetch every 5 seconds
   });
 
-  // Fetch initial deployment logs (fallback for basic logs)
+  // Fetch initial deployment logs, polling only while the WebSocket is down
   const { data: logs, isLoading: logsLoading } = useQuery<DeploymentLog[]>({
     queryKey: ['/api/deployments', deploymentId, 'logs'],
     enabled: !!deploymentId,
-    refetchInterval: deployment?.status === 'running' ? 10000 : false, // Slower polling as fallback
+    refetchInterval: !isWebSocketConnected && (deployment?.status === 'running' || deployment?.status === 'pending') ? 10000 : false,
+  });
+
+  // Merge logs from REST and the WebSocket, keyed by sequence
+  const mergeStepLogs = (incoming: DeploymentLog[]) => {
+    if (incoming.length === 0) return;
+    logCursorRef.current = Math.max(logCursorRef.current, ...incoming.map((log) => log.sequence));
+    setStepLogs((current) => {
+      const bySequence = new Map(current.map((log) => [log.sequence, log]));
+      incoming.forEach((log) => bySequence.set(log.sequence, log));
+      return Array.from(bySequence.values()).sort((a, b) => a.sequence - b.sequence);
+    });
+  };
+
+  useEffect(() => {
+    if (logs) mergeStepLogs(logs);
+  }, [logs]);
+
+  // Place streamed job output lines at their offset within the step
+  const mergeWorkflowLines = (update: WorkflowStepLog & { offset: number }) => {
+    setWorkflowOutput((current) => {
+      const existing = current.find((step) => step.jobId === update.jobId && step.stepNumber === update.stepNumber);
+      const lines = [...(existing?.lines.slice(0, update.offset) ?? []), ...update.lines];
+      const merged = { jobId: update.jobId, stepNumber: update.stepNumber, stepName: update.stepName, lines };
+      return [...current.filter((step) => step !== existing), merged]
+        .sort((a, b) => a.jobId - b.jobId || a.stepNumber - b.stepNumber);
+    });
+  };
+
+  // Stop, restart or redeploy the bot
+  const controlMutation = useMutation({
+    mutationFn: async (action: 'stop' | 'restart' | 'redeploy') => {
+      const response = await apiRequest('POST', `${API_BASE_URL}/deployments/${deploymentId}/${action}`, {});
+      return response.json() as Promise<{ success: boolean; message: string }>;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: data.message,
+        description: "The deployment status will update shortly.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Action Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/deployments', deploymentId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/deployments', deploymentId, 'logs'] });
+    },
   });
 
-  // WebSocket connection for live logs
+  // Deploy the bot again at its previous deployment's commit, then follow
+  // the new deployment
+  const rollbackMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `${API_BASE_URL}/deployments/${deploymentId}/rollback`, {});
+      return response.json() as Promise<{ success: boolean; message: string; deploymentId: string }>;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: data.message,
+        description: "Following the new deployment.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/instances'] });
+      setLocation(`/deployments/${data.deploymentId}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Rollback Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/deployments', deploymentId] });
+    },
+  });
+
+  // Resume a failed deployment from the step that failed
+  const resumeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `${API_BASE_URL}/deployments/${deploymentId}/resume`, {});
+      return response.json() as Promise<{ success: boolean; message: string }>;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Deployment Resumed",
+        description: "Continuing from the step that failed.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Resume Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/deployments', deploymentId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/deployments', deploymentId, 'logs'] });
+    },
+  });
+
+  // WebSocket connection for live logs, reconnecting with the last cursor if dropped
+  const hasDeployment = !!deployment;
   useEffect(() => {
-    if (!deploymentId || !deployment) return;
+    if (!deploymentId || !hasDeployment) return;
 
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
     const wsUrl = `${protocol}//${window.location.host}/api/logs-ws`; // Use specific path to avoid Vite HMR conflicts
-    
-    try {
-      const ws = new WebSocket(wsUrl);
-      wsRef.current = ws;
-
-      ws.onopen = () => {
-        console.log('WebSocket connected for deployment:', deploymentId);
-        setIsWebSocketConnected(true);
-        
-        // Subscribe to deployment logs
-        ws.send(JSON.stringify({
-          type: 'subscribe',
-          deploymentId: deploymentId
-        }));
-      };
-
-      ws.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          if (data.type === 'logs' && data.deploymentId === deploymentId) {
-            console.log('Received live logs:', data.logs);
-            setLiveLogs(data.logs || []);
+    let closed = false;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      try {
+        const ws = new WebSocket(wsUrl);
+        wsRef.current = ws;
+
+        ws.onopen = () => {
+          console.log('WebSocket connected for deployment:', deploymentId);
+          setIsWebSocketConnected(true);
+          
+          // Subscribe to deployment logs
+          ws.send(JSON.stringify({
+            type: 'subscribe',
+            deploymentId: deploymentId,
+            cursor: logCursorRef.current
+          }));
+        };
+
+        ws.onmessage = (event) => {
+          try {
+            const data = JSON.parse(event.data);
+            if (data.deploymentId !== deploymentId) return;
+            if (data.type === 'log') {
+              mergeStepLogs([data.log]);
+            } else if (data.type === 'logs') {
+              setLiveLogs(data.logs || []);
+            } else if (data.type === 'workflow-lines') {
+              mergeWorkflowLines(data);
+            } else if (data.type === 'status') {
+              queryClient.setQueryData<PublicDeployment>(['/api/deployments', deploymentId], (current) =>
+                current ? { ...current, status: data.status, message: data.message, updatedAt: data.updatedAt } : current
+              );
+            } else if (data.type === 'error') {
+              console.error('Live logs unavailable:', data.error);
+            }
+          } catch (error) {
+            console.error('Error parsing WebSocket message:', error);
           }
-        } catch (error) {
-          console.error('Error parsing WebSocket message:', error);
-        }
-      };
+        };
 
-      ws.onclose = () => {
-        console.log('WebSocket disconnected');
-        setIsWebSocketConnected(false);
-      };
+        ws.onclose = () => {
+          console.log('WebSocket disconnected');
+          setIsWebSocketConnected(false);
+          if (!closed) {
+            reconnectTimer = setTimeout(connect, 3000);
+          }
+        };
 
-      ws.onerror = (error) => {
-        console.error('WebSocket error:', error);
+        ws.onerror = (error) => {
+          console.error('WebSocket error:', error);
+          setIsWebSocketConnected(false);
+        };
+      } catch (error) {
+        console.error('Failed to create WebSocket connection:', error);
         setIsWebSocketConnected(false);
-      };
-    } catch (error) {
-      console.error('Failed to create WebSocket connection:', error);
-      setIsWebSocketConnected(false);
-    }
+      }
+    };
+
+    connect();
 
     return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
       if (wsRef.current) {
         wsRef.current.close();
       }
     };
-  }, [deploymentId, deployment]);
+  }, [deploymentId, hasDeployment]);
 
   // Combine basic logs with live logs, prioritizing live logs for running deployments
-  const displayLogs = deployment?.status === 'running' && liveLogs.length > 0 ? liveLogs : logs;
+  const displayLogs = deployment?.status === 'running' && liveLogs.length > 0 ? liveLogs : stepLogs;
 
   if (deploymentLoading) {
     return (
@@ -372,6 +570,42 @@ export default function DeploymentDetails() {
                 )}
               </CardContent>
             </Card>
+
+            {workflowOutput.length > 0 && (
+              <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border border-slate-200/50 dark:border-slate-700/50 shadow-xl w-full">
+                <CardHeader className="p-4 sm:p-6">
+                  <CardTitle className="flex items-center space-x-2">
+                    <Github className="w-4 h-4 sm:w-5 sm:h-5" />
+                    <span className="text-sm sm:text-base">Workflow Output</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="p-4 sm:p-6">
+                  <ScrollArea className="h-64 sm:h-80 lg:h-96 rounded-lg bg-slate-950">
+                    <div className="p-3 sm:p-4 font-mono text-xs space-y-4" data-testid="workflow-output">
+                      {workflowOutput.map((stepLog) => (
+                        <div key={`${stepLog.jobId}-${stepLog.stepNumber}`}>
+                          <p className="text-slate-400 font-semibold mb-1">{stepLog.stepName}</p>
+                          {stepLog.lines.map((line, index) => (
+                            <div key={index} className="flex space-x-3">
+                              <span className="text-slate-600 flex-shrink-0">
+                                {line.timestamp ? format(new Date(line.timestamp), 'HH:mm:ss') : ''}
+                              </span>
+                              <span className={`whitespace-pre-wrap break-all ${getLineLevelColor(line.level)}`}>
+                                {renderSegments(line.segments)}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                </CardContent>
+              </Card>
+            )}
+
+            {deployment.branchName && deploymentId && (
+              <BotConfigEditor deploymentId={deploymentId} />
+            )}
           </div>
 
           {/* Sidebar - Deployment Info */}
@@ -392,6 +626,38 @@ export default function DeploymentDetails() {
                     </div>
                   </div>
 
+                  <div className="flex items-start space-x-3">
+                    <GitCommitHorizontal className="w-4 h-4 text-muted-foreground mt-0.5 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs sm:text-sm font-medium">Commit</p>
+                      <p className="text-xs sm:text-sm text-muted-foreground break-words" data-testid="text-deployment-commit">
+                        {deployment.commitSha ? (
+                          <a
+                            href={`https://github.com/${deployment.githubUsername}/${deployment.repositoryName}/commit/${deployment.commitSha}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="font-mono hover:underline"
+                          >
+                            {deployment.commitSha.slice(0, 7)}
+                          </a>
+                        ) : deployment.sourceRef || 'N/A'}
+                        {deployment.commitSha && deployment.sourceRef && deployment.sourceRef !== deployment.commitSha && (
+                          <span> ({deployment.sourceRef})</span>
+                        )}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="flex items-start space-x-3">
+                    <Server className="w-4 h-4 text-muted-foreground mt-0.5 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs sm:text-sm font-medium">Runs On</p>
+                      <p className="text-xs sm:text-sm text-muted-foreground break-words" data-testid="text-deployment-target">
+                        {TARGET_LABELS[deployment.target] ?? deployment.target}
+                      </p>
+                    </div>
+                  </div>
+
                   <div className="flex items-start space-x-3">
                     <User className="w-4 h-4 text-muted-foreground mt-0.5 flex-shrink-0" />
                     <div className="flex-1 min-w-0">
@@ -469,6 +735,68 @@ export default function DeploymentDetails() {
                 <CardTitle className="text-sm sm:text-base">Quick Actions</CardTitle>
               </CardHeader>
               <CardContent className="p-4 sm:p-6 space-y-2 sm:space-y-3">
+                {deployment.status === 'failed' && (
+                  <Button
+                    className="w-full justify-start text-xs sm:text-sm py-2 sm:py-3 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white"
+                    onClick={() => resumeMutation.mutate()}
+                    disabled={resumeMutation.isPending}
+                    data-testid="button-resume-deployment"
+                  >
+                    <RotateCcw className={`w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2 ${resumeMutation.isPending ? 'animate-spin' : ''}`} />
+                    <span className="hidden sm:inline">Resume From Failed Step</span>
+                    <span className="sm:hidden">Resume</span>
+                  </Button>
+                )}
+                {deployment.branchName && deployment.status !== 'pending' && (
+                  <>
+                    {deployment.status === 'running' && (
+                      <Button
+                        variant="outline"
+                        className="w-full justify-start text-xs sm:text-sm py-2 sm:py-3 text-red-600 dark:text-red-400"
+                        onClick={() => controlMutation.mutate('stop')}
+                        disabled={controlMutation.isPending}
+                        data-testid="button-stop-deployment"
+                      >
+                        <Square className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                        Stop Bot
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      className="w-full justify-start text-xs sm:text-sm py-2 sm:py-3"
+                      onClick={() => controlMutation.mutate('restart')}
+                      disabled={controlMutation.isPending}
+                      data-testid="button-restart-deployment"
+                    >
+                      <Play className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                      Restart Bot
+                    </Button>
+                    <Button
+                      variant="outline"
+                      className="w-full justify-start text-xs sm:text-sm py-2 sm:py-3"
+                      onClick={() => controlMutation.mutate('redeploy')}
+                      disabled={controlMutation.isPending}
+                      data-testid="button-redeploy-deployment"
+                    >
+                      <RefreshCw className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                      <span className="hidden sm:inline">Redeploy With Latest Config</span>
+                      <span className="sm:hidden">Redeploy</span>
+                    </Button>
+                    {deployment.instanceId && deployment.commitSha && (
+                      <Button
+                        variant="outline"
+                        className="w-full justify-start text-xs sm:text-sm py-2 sm:py-3"
+                        onClick={() => rollbackMutation.mutate()}
+                        disabled={rollbackMutation.isPending}
+                        data-testid="button-rollback-deployment"
+                      >
+                        <Undo2 className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                        <span className="hidden sm:inline">Roll Back To Previous Commit</span>
+                        <span className="sm:hidden">Roll Back</span>
+                      </Button>
+                    )}
+                  </>
+                )}
                 <Button
                   variant="outline"
                   className="w-full justify-start text-xs sm:text-sm py-2 sm:py-3"
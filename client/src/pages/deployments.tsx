@@ -1,16 +1,36 @@
 import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { Link, useLocation } from 'wouter';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link, useLocation, useSearch } from 'wouter';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { ArrowLeft, ExternalLink, Clock, CheckCircle, XCircle, Play, RefreshCw, Zap, BarChart3 } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { API_BASE_URL } from '@/lib/config';
+import { ArrowLeft, ExternalLink, Clock, CheckCircle, XCircle, Play, RefreshCw, Zap, BarChart3, AlertTriangle, Square, Trash2, Bot } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
-import type { Deployment } from '@shared/schema';
+import type { PublicDeployment, CleanupStepResult, BotInstanceSummary } from '@shared/schema';
 
 interface DeploymentsResponse {
-  deployments: Deployment[];
+  deployments: PublicDeployment[];
+}
+
+interface DeleteDeploymentResponse {
+  success: boolean;
+  message: string;
+  steps?: CleanupStepResult[];
+  error?: string;
 }
 
 const getStatusIcon = (status: string) => {
@@ -21,6 +41,10 @@ const getStatusIcon = (status: string) => {
       return <XCircle className="w-4 h-4 text-red-500" />;
     case 'running':
       return <RefreshCw className="w-4 h-4 text-blue-500 animate-spin" />;
+    case 'stopped':
+      return <Square className="w-4 h-4 text-slate-500" />;
+    case 'stale':
+      return <AlertTriangle className="w-4 h-4 text-slate-500" />;
     default:
       return <Clock className="w-4 h-4 text-yellow-500" />;
   }
@@ -34,6 +58,9 @@ const getStatusColor = (status: string) => {
       return 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300 border-red-200 dark:border-red-700';
     case 'running':
       return 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300 border-blue-200 dark:border-blue-700';
+    case 'stopped':
+    case 'stale':
+      return 'bg-slate-100 dark:bg-slate-800/60 text-slate-700 dark:text-slate-300 border-slate-200 dark:border-slate-600';
     default:
       return 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300 border-yellow-200 dark:border-yellow-700';
   }
@@ -41,13 +68,85 @@ const getStatusColor = (status: string) => {
 
 export default function Deployments() {
   const [, setLocation] = useLocation();
+  // ?instance=<id> shows a single bot instance's history
+  const instanceId = new URLSearchParams(useSearch()).get('instance');
+  const [pendingDelete, setPendingDelete] = useState<PublicDeployment | null>(null);
+  const [forceDelete, setForceDelete] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Delete a deployment. The response lists every cleanup step, including on
+  // a partial cleanup, so it is read even when the request fails.
+  const deleteMutation = useMutation({
+    mutationFn: async ({ id, force }: { id: string; force: boolean }) => {
+      const response = await fetch(`${API_BASE_URL}/deployments/${id}${force ? '?force=true' : ''}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      const data = await response.json() as DeleteDeploymentResponse;
+      if (!data.steps) {
+        throw new Error(data.error || data.message || response.statusText);
+      }
+      return data;
+    },
+    onSuccess: (data) => {
+      const steps = data.steps ?? [];
+      toast({
+        title: data.success ? "Deployment Deleted" : "Cleanup Incomplete",
+        description: (
+          <div className="space-y-1">
+            {steps.map((step) => (
+              <p key={step.step}>
+                {step.status === 'failed' ? '✗' : step.status === 'skipped' ? '–' : '✓'} {step.message}
+              </p>
+            ))}
+          </div>
+        ),
+        variant: data.success ? undefined : "destructive",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Delete Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/deployments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/instances'] });
+    },
+  });
+
+  const confirmDelete = () => {
+    if (pendingDelete) {
+      deleteMutation.mutate({ id: pendingDelete.id, force: forceDelete });
+    }
+    setPendingDelete(null);
+    setForceDelete(false);
+  };
 
   // Fetch deployments
-  const { data: deployments, isLoading } = useQuery<Deployment[]>({
-    queryKey: ['/api/deployments'],
+  const { data: deployments, isLoading } = useQuery<PublicDeployment[]>({
+    queryKey: instanceId ? ['/api/deployments', `?instance=${instanceId}`] : ['/api/deployments'],
+    queryFn: async () => {
+      const response = await fetch(`${API_BASE_URL}/deployments${instanceId ? `?instance=${encodeURIComponent(instanceId)}` : ''}`, {
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+      }
+      return response.json();
+    },
     refetchInterval: 5000, // Refetch every 5 seconds for live updates
   });
 
+  const { data: instances } = useQuery<BotInstanceSummary[]>({
+    queryKey: ['/api/instances'],
+  });
+  const instanceNames = new Map(instances?.map((instance) => [instance.id, instance.name]));
+  const instanceName = instanceId ? instanceNames.get(instanceId) : undefined;
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-50 to-white dark:from-slate-900 dark:to-slate-800">
@@ -121,14 +220,24 @@ export default function Deployments() {
             </div>
             <h1 className="text-2xl sm:text-3xl md:text-4xl lg:text-5xl font-bold tracking-tight mb-3 sm:mb-4">
               <span className="bg-gradient-to-r from-slate-900 via-blue-900 to-purple-900 dark:from-white dark:via-blue-100 dark:to-purple-100 bg-clip-text text-transparent">
-                Deployment History
+                {instanceName ? `${instanceName} History` : 'Deployment History'}
               </span>
             </h1>
             <p className="text-sm sm:text-base lg:text-lg text-slate-600 dark:text-slate-400 max-w-xs sm:max-w-xl lg:max-w-2xl mx-auto leading-relaxed px-2">
               Monitor and manage your XYLO-MD WhatsApp bot deployments with real-time status updates and detailed logs.
             </p>
           </div>
-          <div className="flex justify-center">
+          <div className="flex justify-center gap-2 sm:gap-3">
+            <Button
+              variant="outline"
+              size="lg"
+              onClick={() => setLocation(instanceId ? '/deployments' : '/instances')}
+              className="text-sm sm:text-base py-2 sm:py-3 px-4 sm:px-6"
+              data-testid="button-instances"
+            >
+              <Bot className="w-4 h-4 sm:w-5 sm:h-5 mr-1 sm:mr-2" />
+              {instanceId ? 'All Deployments' : 'Your Bots'}
+            </Button>
             <Button
               onClick={() => setLocation('/')}
               size="lg"
@@ -188,6 +297,11 @@ export default function Deployments() {
                       </div>
                       
                       <div className="space-y-1 text-xs sm:text-sm text-muted-foreground">
+                        {deployment.instanceId && instanceNames.has(deployment.instanceId) && (
+                          <p className="break-words">
+                            <span className="font-medium">Bot:</span> {instanceNames.get(deployment.instanceId)}
+                          </p>
+                        )}
                         <p className="break-words">
                           <span className="font-medium">Repository:</span> {deployment.repositoryName}
                         </p>
@@ -234,6 +348,17 @@ export default function Deployments() {
                         <span className="hidden sm:inline">View Details</span>
                         <span className="sm:hidden">Details</span>
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setPendingDelete(deployment)}
+                        disabled={deleteMutation.isPending && deleteMutation.variables?.id === deployment.id}
+                        data-testid={`button-delete-${deployment.id}`}
+                        className="text-xs sm:text-sm py-2 sm:py-3 text-red-600 dark:text-red-400"
+                      >
+                        <Trash2 className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                        Delete
+                      </Button>
                     </div>
                   </div>
                 </CardContent>
@@ -242,6 +367,38 @@ export default function Deployments() {
           </div>
         )}
       </div>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => { if (!open) { setPendingDelete(null); setForceDelete(false); } }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete?.branchName || 'this deployment'}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This stops the bot, deletes its branch from your fork and removes the deployment and its logs. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="force-delete"
+              checked={forceDelete}
+              onCheckedChange={(checked) => setForceDelete(checked === true)}
+              data-testid="checkbox-force-delete"
+            />
+            <label htmlFor="force-delete" className="text-sm text-slate-600 dark:text-slate-400">
+              Remove it here even if the GitHub cleanup fails
+            </label>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-red-600 hover:bg-red-700 text-white"
+              data-testid="button-confirm-delete"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
\ No newline at end of file
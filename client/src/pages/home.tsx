@@ -4,11 +4,14 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
 import { API_BASE_URL } from '@/lib/config';
-import { Github, Zap, Shield, Heart, BarChart3, CheckCircle, XCircle, Info, Settings } from 'lucide-react';
+import { Github, Zap, Shield, Heart, BarChart3, CheckCircle, XCircle, Info, Settings, AlertTriangle, Bot } from 'lucide-react';
 import { WorkflowVerification } from '@/components/workflow-verification';
+import type { BotTemplate, DeploymentTargetId, DeploymentTargetInfo, SessionMode, SessionValidation, TemplateRefs } from '@shared/schema';
 
 interface AuthStatus {
   authenticated: boolean;
@@ -19,15 +22,21 @@ interface DeploymentResponse {
   success: boolean;
   message: string;
   deploymentId?: string;
-  branch?: string;
-  repository?: string;
-  workflowUrl?: string;
+  instanceId?: string;
   error?: string;
 }
 
 export default function Home() {
+  const [name, setName] = useState('');
   const [sessionId, setSessionId] = useState('');
   const [branchName, setBranchName] = useState('');
+  const [target, setTarget] = useState<DeploymentTargetId>('github-actions');
+  const [templateId, setTemplateId] = useState('default');
+  // 'latest', 'commit' for a SHA typed into commitSha, or 'tag:<name>'
+  const [version, setVersion] = useState('latest');
+  const [commitSha, setCommitSha] = useState('');
+  const [sessionMode, setSessionMode] = useState<SessionMode>('secret');
+  const [sessionToValidate, setSessionToValidate] = useState('');
   const [showDeployment, setShowDeployment] = useState(false);
   const [workflowVerified, setWorkflowVerified] = useState(false);
   const [setupRequired, setSetupRequired] = useState(false);
@@ -40,6 +49,56 @@ export default function Home() {
     queryKey: ['/api/auth/status'],
   });
 
+  // Targets the server lets new deployments use
+  const { data: targets = [] } = useQuery<DeploymentTargetInfo[]>({
+    queryKey: ['/api/targets'],
+  });
+
+  // Bot templates the deploy can start from
+  const { data: allTemplates = [] } = useQuery<BotTemplate[]>({
+    queryKey: ['/api/templates'],
+  });
+  const templates = allTemplates.filter((template) => template.enabled);
+  const selectedTemplate = templates.find((template) => template.id === templateId);
+
+  // Releases and tags of the selected template's upstream repository
+  const { data: templateRefs } = useQuery<TemplateRefs>({
+    queryKey: ['/api/templates', templateId, 'refs'],
+    enabled: !!authStatus?.authenticated && !!selectedTemplate,
+  });
+  const releaseTags = new Set(templateRefs?.releases.map((release) => release.tag));
+  const otherTags = templateRefs?.tags.filter((tag) => !releaseTags.has(tag.name)) ?? [];
+
+  // A version picked for one template means nothing for another
+  useEffect(() => {
+    setVersion('latest');
+    setCommitSha('');
+  }, [templateId]);
+
+  // Fall back to the first template when the default one is disabled
+  useEffect(() => {
+    if (templates.length > 0 && !selectedTemplate) {
+      setTemplateId(templates[0].id);
+    }
+  }, [allTemplates, selectedTemplate]);
+
+  // Validate the session ID once the user stops typing
+  useEffect(() => {
+    const timer = setTimeout(() => setSessionToValidate(sessionId.trim()), 400);
+    return () => clearTimeout(timer);
+  }, [sessionId]);
+
+  const { data: sessionCheck, isFetching: sessionChecking } = useQuery<SessionValidation>({
+    queryKey: ['/api/session/validate', sessionToValidate],
+    enabled: !!sessionToValidate && !!authStatus?.authenticated,
+    queryFn: async () => {
+      const response = await apiRequest('POST', `${API_BASE_URL}/session/validate`, { sessionId: sessionToValidate });
+      return response.json();
+    },
+  });
+  // Only trust a result for what is in the field right now
+  const sessionValidation = sessionToValidate === sessionId.trim() ? sessionCheck : undefined;
+
   // Handle URL parameters for authentication feedback
   useEffect(() => {
     const urlParams = new URLSearchParams(window.location.search);
@@ -75,7 +134,7 @@ export default function Home() {
   // Setup mutation
   const setupMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest('POST', `${API_BASE_URL}/setup`, {});
+      const response = await apiRequest('POST', `${API_BASE_URL}/setup`, { templateId });
       return response.json() as Promise<{ success: boolean; message: string; alreadyExists: boolean }>;
     },
     onSuccess: (data) => {
@@ -101,18 +160,21 @@ export default function Home() {
 
   // Deploy mutation
   const deployMutation = useMutation({
-    mutationFn: async (data: { sessionId: string; branchName?: string }) => {
+    mutationFn: async (data: { name?: string; templateId: string; sessionId: string; sessionMode: SessionMode; branchName?: string; ref?: string; target: DeploymentTargetId }) => {
       const response = await apiRequest('POST', `${API_BASE_URL}/deploy`, data);
       return response.json() as Promise<DeploymentResponse>;
     },
     onSuccess: (data) => {
       if (data.success) {
         toast({
-          title: "Deployment Successful!",
-          description: `Your bot has been deployed to branch: ${data.branch}`,
+          title: "Deployment Started",
+          description: "Your bot is being deployed. Follow the progress on the deployment page.",
         });
+        setName('');
         setSessionId('');
         setBranchName('');
+        setVersion('latest');
+        setCommitSha('');
         // Navigate to deployment details
         if (data.deploymentId) {
           window.location.href = `/deployments/${data.deploymentId}`;
@@ -144,9 +206,30 @@ export default function Home() {
       });
       return;
     }
+    if (sessionValidation && !sessionValidation.valid) {
+      toast({
+        title: "Invalid Session ID",
+        description: sessionValidation.error,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (version === 'commit' && !/^[0-9a-f]{7,40}$/i.test(commitSha.trim())) {
+      toast({
+        title: "Validation Error",
+        description: "Enter a commit SHA of 7 to 40 hex characters",
+        variant: "destructive",
+      });
+      return;
+    }
     deployMutation.mutate({ 
+      name: name.trim() || undefined,
+      templateId,
       sessionId: sessionId.trim(), 
-      branchName: branchName.trim() || undefined 
+      sessionMode,
+      branchName: branchName.trim() || undefined,
+      ref: version === 'latest' ? undefined : version === 'commit' ? commitSha.trim() : version.slice('tag:'.length),
+      target
     });
   };
 
@@ -195,6 +278,18 @@ export default function Home() {
               </div>
             </div>
             <div className="flex items-center space-x-2 sm:space-x-3 flex-shrink-0">
+              {authStatus?.authenticated && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => window.location.href = '/instances'}
+                  className="hidden sm:flex hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors text-xs sm:text-sm"
+                  data-testid="button-view-instances"
+                >
+                  <Bot className="w-4 h-4 mr-1 sm:mr-2" />
+                  Bots
+                </Button>
+              )}
               {authStatus?.authenticated && (
                 <Button
                   variant="ghost"
@@ -292,7 +387,7 @@ export default function Home() {
                     <div className="flex flex-col space-y-4 sm:flex-row sm:items-center sm:justify-between mb-6 sm:mb-8 sm:space-y-0">
                       <div className="min-w-0">
                         <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold text-slate-900 dark:text-white">
-                          Deploy XYLO-MD
+                          Deploy {selectedTemplate?.name ?? 'XYLO-MD'}
                         </h2>
                         <p className="text-sm sm:text-base text-slate-600 dark:text-slate-400 mt-1">
                           Configure and launch your bot instance
@@ -308,6 +403,33 @@ export default function Home() {
 
                     {/* Setup and Verification Steps */}
                     <div className="mb-6 sm:mb-8 space-y-4 w-full">
+                      {templates.length > 1 && (
+                        <div>
+                          <Label htmlFor="template" className="block text-sm font-semibold text-slate-900 dark:text-white mb-2 sm:mb-3">
+                            Bot
+                          </Label>
+                          <Select value={templateId} onValueChange={(value) => { setTemplateId(value); setSetupCompleted(false); }}>
+                            <SelectTrigger
+                              id="template"
+                              className="w-full h-10 sm:h-12 px-3 sm:px-4 border-slate-300 dark:border-slate-600 rounded-xl shadow-sm text-sm sm:text-base"
+                              data-testid="select-template"
+                            >
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {templates.map((option) => (
+                                <SelectItem key={option.id} value={option.id} data-testid={`option-template-${option.id}`}>
+                                  {option.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <p className="text-xs sm:text-sm text-slate-500 dark:text-slate-400 mt-1 sm:mt-2">
+                            {selectedTemplate?.description || (selectedTemplate && `${selectedTemplate.owner}/${selectedTemplate.repo}`)}
+                          </p>
+                        </div>
+                      )}
+
                       {setupRequired && !setupCompleted && (
                         <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border border-slate-200/50 dark:border-slate-700/50 shadow-xl w-full">
                           <CardContent className="p-4 sm:p-6">
@@ -348,6 +470,7 @@ export default function Home() {
                       
                       {(!setupRequired || setupCompleted) && (
                         <WorkflowVerification 
+                          templateId={templateId}
                           onVerificationComplete={setWorkflowVerified}
                           onSetupRequired={setSetupRequired}
                         />
@@ -356,6 +479,25 @@ export default function Home() {
 
                     <form onSubmit={handleDeploy} className="space-y-4 sm:space-y-6 w-full">
                       <div className="space-y-4 sm:space-y-5">
+                        <div>
+                          <Label htmlFor="name" className="block text-sm font-semibold text-slate-900 dark:text-white mb-2 sm:mb-3">
+                            Bot Name <span className="text-slate-500 font-normal">(Optional)</span>
+                          </Label>
+                          <Input
+                            type="text"
+                            id="name"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            maxLength={60}
+                            className="w-full h-10 sm:h-12 px-3 sm:px-4 border-slate-300 dark:border-slate-600 rounded-xl shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:focus:ring-blue-400 transition-all text-sm sm:text-base"
+                            placeholder="e.g. Support line, Sales number"
+                            data-testid="input-instance-name"
+                          />
+                          <p className="text-xs sm:text-sm text-slate-500 dark:text-slate-400 mt-1 sm:mt-2">
+                            Each deploy from here starts a new bot with its own branch. Redeploy existing bots from the Bots page.
+                          </p>
+                        </div>
+
                         <div>
                           <Label htmlFor="sessionId" className="block text-sm font-semibold text-slate-900 dark:text-white mb-2 sm:mb-3">
                             WhatsApp Session ID *
@@ -370,9 +512,49 @@ export default function Home() {
                             data-testid="input-session-id"
                             required
                           />
-                          <p className="text-xs sm:text-sm text-slate-500 dark:text-slate-400 mt-1 sm:mt-2">
-                            Your WhatsApp session identifier for secure bot authentication
-                          </p>
+                          {sessionValidation && !sessionValidation.valid ? (
+                            <p className="flex items-start gap-1.5 text-xs sm:text-sm text-red-600 dark:text-red-400 mt-1 sm:mt-2" data-testid="text-session-error">
+                              <XCircle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+                              {sessionValidation.error}
+                            </p>
+                          ) : sessionValidation?.valid ? (
+                            <div className="mt-1 sm:mt-2 space-y-1" data-testid="text-session-valid">
+                              <p className="flex items-start gap-1.5 text-xs sm:text-sm text-green-600 dark:text-green-400">
+                                <CheckCircle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+                                {sessionValidation.format === 'creds'
+                                  ? `Valid session${sessionValidation.account ? ` for ${sessionValidation.account}` : ''}`
+                                  : sessionValidation.format === 'mega' ? 'Session stored on MEGA' : 'Session stored on a paste service'}
+                              </p>
+                              {sessionValidation.warnings.map((warning) => (
+                                <p key={warning} className="flex items-start gap-1.5 text-xs sm:text-sm text-amber-600 dark:text-amber-400">
+                                  <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+                                  {warning}
+                                </p>
+                              ))}
+                            </div>
+                          ) : (
+                            <p className="text-xs sm:text-sm text-slate-500 dark:text-slate-400 mt-1 sm:mt-2">
+                              {sessionChecking ? 'Checking session ID...' : 'Your WhatsApp session identifier for secure bot authentication'}
+                            </p>
+                          )}
+                          <div className="flex items-start justify-between gap-3 mt-3">
+                            <div className="min-w-0">
+                              <Label htmlFor="sessionMode" className="text-sm font-medium text-slate-900 dark:text-white">
+                                Keep session ID private
+                              </Label>
+                              <p className="text-xs sm:text-sm text-slate-500 dark:text-slate-400 mt-0.5">
+                                {sessionMode === 'secret'
+                                  ? 'Stored as an encrypted secret, never committed to your public fork'
+                                  : 'Written into config.js and .env on your fork, where anyone can read it'}
+                              </p>
+                            </div>
+                            <Switch
+                              id="sessionMode"
+                              checked={sessionMode === 'secret'}
+                              onCheckedChange={(checked) => setSessionMode(checked ? 'secret' : 'committed')}
+                              data-testid="switch-session-mode"
+                            />
+                          </div>
                         </div>
 
                         <div>
@@ -392,6 +574,80 @@ export default function Home() {
                             Custom branch name for your deployment (e.g., production, staging)
                           </p>
                         </div>
+
+                        <div>
+                          <Label htmlFor="version" className="block text-sm font-semibold text-slate-900 dark:text-white mb-2 sm:mb-3">
+                            Version
+                          </Label>
+                          <Select value={version} onValueChange={setVersion}>
+                            <SelectTrigger
+                              id="version"
+                              className="w-full h-10 sm:h-12 px-3 sm:px-4 border-slate-300 dark:border-slate-600 rounded-xl shadow-sm text-sm sm:text-base"
+                              data-testid="select-version"
+                            >
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="latest" data-testid="option-version-latest">
+                                Latest ({templateRefs?.defaultBranch ?? selectedTemplate?.defaultBranch ?? 'default branch'})
+                              </SelectItem>
+                              {templateRefs?.releases.map((release) => (
+                                <SelectItem key={`release-${release.tag}`} value={`tag:${release.tag}`} data-testid={`option-version-${release.tag}`}>
+                                  {release.name}{release.name !== release.tag ? ` (${release.tag})` : ''}{release.prerelease ? ' - pre-release' : ''}
+                                </SelectItem>
+                              ))}
+                              {otherTags.map((tag) => (
+                                <SelectItem key={`tag-${tag.name}`} value={`tag:${tag.name}`} data-testid={`option-version-${tag.name}`}>
+                                  {tag.name}
+                                </SelectItem>
+                              ))}
+                              <SelectItem value="commit" data-testid="option-version-commit">
+                                Specific commit...
+                              </SelectItem>
+                            </SelectContent>
+                          </Select>
+                          {version === 'commit' && (
+                            <Input
+                              type="text"
+                              id="commitSha"
+                              value={commitSha}
+                              onChange={(e) => setCommitSha(e.target.value)}
+                              className="w-full h-10 sm:h-12 px-3 sm:px-4 mt-2 font-mono border-slate-300 dark:border-slate-600 rounded-xl shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:focus:ring-blue-400 transition-all text-sm sm:text-base"
+                              placeholder="Commit SHA, e.g. 3f2a9c1"
+                              data-testid="input-commit-sha"
+                            />
+                          )}
+                          <p className="text-xs sm:text-sm text-slate-500 dark:text-slate-400 mt-1 sm:mt-2">
+                            Release, tag or commit of {selectedTemplate ? `${selectedTemplate.owner}/${selectedTemplate.repo}` : 'the bot'} to deploy
+                          </p>
+                        </div>
+
+                        {targets.length > 1 && (
+                          <div>
+                            <Label htmlFor="target" className="block text-sm font-semibold text-slate-900 dark:text-white mb-2 sm:mb-3">
+                              Run Bot On
+                            </Label>
+                            <Select value={target} onValueChange={(value) => setTarget(value as DeploymentTargetId)}>
+                              <SelectTrigger
+                                id="target"
+                                className="w-full h-10 sm:h-12 px-3 sm:px-4 border-slate-300 dark:border-slate-600 rounded-xl shadow-sm text-sm sm:text-base"
+                                data-testid="select-target"
+                              >
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {targets.map((option) => (
+                                  <SelectItem key={option.id} value={option.id} data-testid={`option-target-${option.id}`}>
+                                    {option.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <p className="text-xs sm:text-sm text-slate-500 dark:text-slate-400 mt-1 sm:mt-2">
+                              {targets.find((option) => option.id === target)?.description}
+                            </p>
+                          </div>
+                        )}
                       </div>
 
                       <div className="bg-gradient-to-r from-blue-50 to-purple-50 dark:from-blue-900/20 dark:to-purple-900/20 border border-blue-200/50 dark:border-blue-700/50 rounded-xl p-4 sm:p-6 w-full">
@@ -425,15 +681,15 @@ export default function Home() {
 
                       <Button
                         type="submit"
-                        disabled={deployMutation.isPending || !workflowVerified || setupRequired}
+                        disabled={deployMutation.isPending || !workflowVerified || setupRequired || sessionValidation?.valid === false}
                         className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-slate-400 disabled:to-slate-500 text-white font-semibold py-3 sm:py-4 px-4 sm:px-6 h-auto shadow-lg transition-all duration-300 hover:scale-[1.02] hover:shadow-xl rounded-xl disabled:scale-100 disabled:shadow-md text-sm sm:text-base"
                         data-testid="button-deploy"
                       >
                         {deployMutation.isPending ? (
                           <>
                             <div className="animate-spin rounded-full h-4 w-4 sm:h-5 sm:w-5 border-2 border-white border-t-transparent mr-2 sm:mr-3"></div>
-                            <span className="hidden sm:inline">Deploying Your Bot...</span>
-                            <span className="sm:hidden">Deploying...</span>
+                            <span className="hidden sm:inline">Starting Deployment...</span>
+                            <span className="sm:hidden">Starting...</span>
                           </>
                         ) : setupRequired ? (
                           <>
@@ -0,0 +1,380 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { API_BASE_URL } from '@/lib/config';
+import { ArrowLeft, Clock, CheckCircle, XCircle, Play, RefreshCw, Zap, Bot, AlertTriangle, Square, Trash2, History, Rocket } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import type { BotInstanceSummary, CleanupStepResult } from '@shared/schema';
+
+interface InstanceDeployResponse {
+  success: boolean;
+  message: string;
+  deploymentId?: string;
+  error?: string;
+}
+
+interface DeleteInstanceResponse {
+  success: boolean;
+  message: string;
+  steps?: CleanupStepResult[];
+  error?: string;
+}
+
+const getStatusIcon = (status: string) => {
+  switch (status) {
+    case 'success':
+      return <CheckCircle className="w-4 h-4 text-green-500" />;
+    case 'failed':
+      return <XCircle className="w-4 h-4 text-red-500" />;
+    case 'running':
+      return <RefreshCw className="w-4 h-4 text-blue-500 animate-spin" />;
+    case 'stopped':
+      return <Square className="w-4 h-4 text-slate-500" />;
+    case 'stale':
+      return <AlertTriangle className="w-4 h-4 text-slate-500" />;
+    default:
+      return <Clock className="w-4 h-4 text-yellow-500" />;
+  }
+};
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'success':
+      return 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300 border-green-200 dark:border-green-700';
+    case 'failed':
+      return 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300 border-red-200 dark:border-red-700';
+    case 'running':
+      return 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300 border-blue-200 dark:border-blue-700';
+    case 'stopped':
+    case 'stale':
+      return 'bg-slate-100 dark:bg-slate-800/60 text-slate-700 dark:text-slate-300 border-slate-200 dark:border-slate-600';
+    default:
+      return 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300 border-yellow-200 dark:border-yellow-700';
+  }
+};
+
+export default function Instances() {
+  const [, setLocation] = useLocation();
+  const [pendingDelete, setPendingDelete] = useState<BotInstanceSummary | null>(null);
+  const [forceDelete, setForceDelete] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: instances, isLoading } = useQuery<BotInstanceSummary[]>({
+    queryKey: ['/api/instances'],
+    refetchInterval: 5000, // Refetch every 5 seconds for live updates
+  });
+
+  // Deploy the instance again on its own branch
+  const deployMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `${API_BASE_URL}/instances/${id}/deploy`, {});
+      return response.json() as Promise<InstanceDeployResponse>;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Deployment Started",
+        description: "Your bot is being deployed. Follow the progress on the deployment page.",
+      });
+      if (data.deploymentId) {
+        setLocation(`/deployments/${data.deploymentId}`);
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Deployment Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/instances'] });
+    },
+  });
+
+  // Delete the instance and all of its deployments. Like a single deployment's
+  // delete, the cleanup steps are read even when the request fails.
+  const deleteMutation = useMutation({
+    mutationFn: async ({ id, force }: { id: string; force: boolean }) => {
+      const response = await fetch(`${API_BASE_URL}/instances/${id}${force ? '?force=true' : ''}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      const data = await response.json() as DeleteInstanceResponse;
+      if (!data.steps) {
+        throw new Error(data.error || data.message || response.statusText);
+      }
+      return data;
+    },
+    onSuccess: (data) => {
+      const steps = data.steps ?? [];
+      toast({
+        title: data.success ? "Bot Deleted" : "Cleanup Incomplete",
+        description: (
+          <div className="space-y-1">
+            <p>{data.message}</p>
+            {steps.map((step, index) => (
+              <p key={`${step.step}-${index}`}>
+                {step.status === 'failed' ? '✗' : step.status === 'skipped' ? '–' : '✓'} {step.message}
+              </p>
+            ))}
+          </div>
+        ),
+        variant: data.success ? undefined : "destructive",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Delete Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/instances'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/deployments'] });
+    },
+  });
+
+  const confirmDelete = () => {
+    if (pendingDelete) {
+      deleteMutation.mutate({ id: pendingDelete.id, force: forceDelete });
+    }
+    setPendingDelete(null);
+    setForceDelete(false);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-white dark:from-slate-900 dark:to-slate-800">
+        <div className="w-full max-w-7xl mx-auto px-3 sm:px-4 lg:px-8 py-6 sm:py-8">
+          <div className="space-y-3 sm:space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <Card key={i} className="w-full">
+                <CardContent className="p-4 sm:p-6">
+                  <div className="space-y-1 sm:space-y-2 min-w-0">
+                    <Skeleton className="h-4 sm:h-5 w-24 sm:w-32" />
+                    <Skeleton className="h-3 sm:h-4 w-32 sm:w-48" />
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-white dark:from-slate-900 dark:to-slate-800">
+      <nav className="backdrop-blur-md bg-white/80 dark:bg-slate-900/80 border-b border-slate-200/50 dark:border-slate-700/50 sticky top-0 z-50">
+        <div className="w-full max-w-7xl mx-auto px-3 sm:px-4 lg:px-8">
+          <div className="flex items-center justify-between h-14 sm:h-16">
+            <div className="flex items-center space-x-2 sm:space-x-3 min-w-0">
+              <div className="w-8 h-8 sm:w-9 sm:h-9 bg-gradient-to-r from-blue-600 to-purple-600 rounded-xl flex items-center justify-center shadow-lg flex-shrink-0">
+                <Zap className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
+              </div>
+              <div className="min-w-0">
+                <h1 className="text-lg sm:text-xl font-bold bg-gradient-to-r from-slate-900 to-slate-700 dark:from-white dark:to-slate-300 bg-clip-text text-transparent truncate">XYLO-MD</h1>
+                <p className="text-xs text-slate-600 dark:text-slate-400 font-medium hidden sm:block">Deployment Platform</p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2 sm:space-x-3 flex-shrink-0">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setLocation('/deployments')}
+                className="hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors text-xs sm:text-sm px-2 sm:px-3 py-1 sm:py-2"
+                data-testid="button-all-deployments"
+              >
+                <History className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                Deployments
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setLocation('/')}
+                className="hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors text-xs sm:text-sm px-2 sm:px-3 py-1 sm:py-2"
+                data-testid="button-back-home"
+              >
+                <ArrowLeft className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                Home
+              </Button>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <div className="w-full max-w-7xl mx-auto px-3 sm:px-4 lg:px-8 py-6 sm:py-8 lg:py-12">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6 sm:mb-8">
+          <div>
+            <h2 className="text-2xl sm:text-3xl font-bold text-slate-900 dark:text-white">Your Bots</h2>
+            <p className="text-sm sm:text-base text-slate-600 dark:text-slate-400">
+              Each bot has its own session, branch and deployment history.
+            </p>
+          </div>
+          <Button
+            onClick={() => setLocation('/')}
+            className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white shadow-lg"
+            data-testid="button-new-instance"
+          >
+            <Play className="w-4 h-4 mr-2" />
+            New Bot
+          </Button>
+        </div>
+
+        {!instances || instances.length === 0 ? (
+          <Card className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border border-slate-200/50 dark:border-slate-700/50 shadow-xl w-full">
+            <CardContent className="p-6 sm:p-8 lg:p-12 text-center">
+              <div className="w-16 h-16 sm:w-20 sm:h-20 bg-gradient-to-br from-blue-500 to-purple-600 rounded-2xl flex items-center justify-center mx-auto mb-4 sm:mb-6 shadow-lg ring-4 ring-blue-100 dark:ring-blue-900/30">
+                <Bot className="w-8 h-8 sm:w-10 sm:h-10 text-white" />
+              </div>
+              <h3 className="text-xl sm:text-2xl font-bold mb-3 text-slate-900 dark:text-white">No bots yet</h3>
+              <p className="text-sm sm:text-base text-slate-600 dark:text-slate-400 leading-relaxed max-w-xs sm:max-w-md mx-auto">
+                Deploy a bot from the home page and it will appear here.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3 sm:space-y-4 w-full">
+            {instances.map((instance) => {
+              const latest = instance.latestDeployment;
+              return (
+                <Card key={instance.id} className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border border-slate-200/50 dark:border-slate-700/50 shadow-lg hover:shadow-xl transition-all duration-200 w-full" data-testid={`card-instance-${instance.id}`}>
+                  <CardContent className="p-4 sm:p-6">
+                    <div className="flex flex-col space-y-3 sm:space-y-4">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex flex-col sm:flex-row sm:items-center space-y-2 sm:space-y-0 sm:space-x-3 mb-2">
+                          <div className="flex items-center space-x-2 sm:space-x-3">
+                            {latest ? getStatusIcon(latest.status) : <Bot className="w-4 h-4 text-slate-500" />}
+                            <h3 className="font-semibold text-base sm:text-lg truncate">{instance.name}</h3>
+                          </div>
+                          <Badge
+                            variant="outline"
+                            className={`${getStatusColor(latest?.status ?? 'stopped')} text-xs sm:text-sm px-2 py-1 flex-shrink-0`}
+                          >
+                            {latest?.status ?? 'not deployed'}
+                          </Badge>
+                        </div>
+
+                        <div className="space-y-1 text-xs sm:text-sm text-muted-foreground">
+                          <p className="break-words">
+                            <span className="font-medium">Branch:</span> {instance.branchName || 'Created on first deploy'}
+                          </p>
+                          <p>
+                            <span className="font-medium">Deployments:</span> {instance.deploymentCount}
+                            {latest && <> · last {formatDistanceToNow(new Date(latest.createdAt))} ago</>}
+                          </p>
+                          {latest?.message && (
+                            <p className="break-words">
+                              <span className="font-medium">Status:</span> {latest.message}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="flex flex-col sm:flex-row items-stretch sm:items-center space-y-2 sm:space-y-0 sm:space-x-2">
+                        <Button
+                          variant="default"
+                          size="sm"
+                          onClick={() => deployMutation.mutate(instance.id)}
+                          disabled={deployMutation.isPending && deployMutation.variables === instance.id}
+                          data-testid={`button-deploy-${instance.id}`}
+                          className="text-xs sm:text-sm py-2 sm:py-3"
+                        >
+                          <Rocket className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                          {instance.deploymentCount > 0 ? 'Redeploy' : 'Deploy'}
+                        </Button>
+                        {latest && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setLocation(`/deployments/${latest.id}`)}
+                            data-testid={`button-latest-${instance.id}`}
+                            className="text-xs sm:text-sm py-2 sm:py-3"
+                          >
+                            Latest Deployment
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setLocation(`/deployments?instance=${instance.id}`)}
+                          data-testid={`button-history-${instance.id}`}
+                          className="text-xs sm:text-sm py-2 sm:py-3"
+                        >
+                          <History className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                          History
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setPendingDelete(instance)}
+                          disabled={deleteMutation.isPending && deleteMutation.variables?.id === instance.id}
+                          data-testid={`button-delete-${instance.id}`}
+                          className="text-xs sm:text-sm py-2 sm:py-3 text-red-600 dark:text-red-400"
+                        >
+                          <Trash2 className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                          Delete
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => { if (!open) { setPendingDelete(null); setForceDelete(false); } }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This stops the bot, deletes its branch from your fork and removes all {pendingDelete?.deploymentCount ?? 0} of its deployments and their logs. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="force-delete-instance"
+              checked={forceDelete}
+              onCheckedChange={(checked) => setForceDelete(checked === true)}
+              data-testid="checkbox-force-delete"
+            />
+            <label htmlFor="force-delete-instance" className="text-sm text-slate-600 dark:text-slate-400">
+              Remove it here even if the GitHub cleanup fails
+            </label>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-red-600 hover:bg-red-700 text-white"
+              data-testid="button-confirm-delete"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import type { NextFunction, Request, Response } from "express";
+import type { Deployment, InsertAuditEvent } from "@shared/schema";
+import { storage } from "./storage";
+import { collectGitHubCalls, type GitHubCall } from "./github";
+
+// The audit log: who did what, on whose behalf, and which GitHub API requests
+// changed something along the way. Routes are audited with auditRoute(),
+// background work with withAuditEvent().
+
+export const SYSTEM_ACTOR = 'system';
+
+// What a handler knows about the request being audited, see noteAudit()
+export interface AuditDetails {
+  // User the event concerns; the logged-in user when left out
+  githubUsername?: string | null;
+  targetRepo?: string | null;
+  deploymentId?: string | null;
+  // Overrides the result derived from the status code, e.g. for redirects
+  result?: 'success' | 'failure';
+  message?: string | null;
+}
+
+// A failure to write the event is logged rather than failing the audited action
+export async function writeAuditEvent(event: InsertAuditEvent) {
+  try {
+    await storage.createAuditEvent(event);
+  } catch (error) {
+    console.error(`Failed to write audit event ${event.action}:`, error);
+  }
+}
+
+// Records the request as `action` once its response is sent, with the GitHub
+// mutations made while handling it. The result follows the status code and
+// the `error` or `message` of a JSON response becomes the event's message.
+export function auditRoute(action: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const calls: GitHubCall[] = [];
+    const details: AuditDetails = {};
+    // Logging out destroys the session before the response is sent
+    const loggedInAs = req.session?.githubUsername;
+    res.locals.audit = details;
+
+    const originalResJson = res.json;
+    res.json = function (bodyJson, ...args) {
+      const text = bodyJson?.error ?? bodyJson?.message;
+      if (details.message === undefined && typeof text === 'string') {
+        details.message = text;
+      }
+      return originalResJson.apply(res, [bodyJson, ...args]);
+    };
+
+    res.on('finish', () => {
+      const actor = req.session?.githubUsername ?? loggedInAs;
+      void writeAuditEvent({
+        githubUsername: details.githubUsername !== undefined ? details.githubUsername : actor ?? null,
+        actor: actor ?? 'anonymous',
+        action,
+        targetRepo: details.targetRepo ?? null,
+        deploymentId: details.deploymentId ?? null,
+        result: details.result ?? (res.statusCode < 400 ? 'success' : 'failure'),
+        message: details.message ?? null,
+        githubCalls: [...calls],
+      });
+    });
+
+    collectGitHubCalls(calls, next);
+  };
+}
+
+// Adds to the audit event of the current request; a no-op for routes that are not audited
+export function noteAudit(res: Response, details: AuditDetails) {
+  if (res.locals.audit) {
+    Object.assign(res.locals.audit, details);
+  }
+}
+
+// The deployment and the fork it deploys from
+export function auditDeployment(deployment: Deployment): AuditDetails {
+  return {
+    deploymentId: deployment.id,
+    targetRepo: `${deployment.githubUsername}/${deployment.repositoryName}`,
+  };
+}
+
+// Runs background work, recording the GitHub mutations it makes and how it
+// ended. Errors are rethrown once the event is written.
+export async function withAuditEvent<T>(
+  event: Omit<InsertAuditEvent, 'result' | 'message' | 'githubCalls'>,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const calls: GitHubCall[] = [];
+  try {
+    const result = await collectGitHubCalls(calls, fn);
+    await writeAuditEvent({ ...event, result: 'success', githubCalls: [...calls] });
+    return result;
+  } catch (error: any) {
+    await writeAuditEvent({ ...event, result: 'failure', message: error.message, githubCalls: [...calls] });
+    throw error;
+  }
+}
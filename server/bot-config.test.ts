@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { BotConfigError, parseConfigJs, parseEnv } from "./bot-config";
+
+// Each setting as key, value and the source text an edit would replace
+function settingsOf(source: string) {
+  return parseConfigJs(source).map(({ key, value, start, end }) => ({ key, value, text: source.slice(start, end) }));
+}
+
+describe('parseConfigJs', () => {
+  it('reads literals and env fallbacks from module.exports', () => {
+    const source = [
+      "require('dotenv').config();",
+      'module.exports = {',
+      "  SESSION_ID: process.env.SESSION_ID || '',",
+      "  PREFIX: process.env.PREFIX || '.',",
+      '  BOT_NAME: "XYLO-MD",',
+      '  AUTO_READ: false,',
+      '  MAX_RETRIES: 3,',
+      '  OFFSET: -1.5,',
+      '};',
+    ].join('\n');
+
+    expect(settingsOf(source)).toEqual([
+      { key: 'SESSION_ID', value: '', text: "''" },
+      { key: 'PREFIX', value: '.', text: "'.'" },
+      { key: 'BOT_NAME', value: 'XYLO-MD', text: '"XYLO-MD"' },
+      { key: 'AUTO_READ', value: false, text: 'false' },
+      { key: 'MAX_RETRIES', value: 3, text: '3' },
+      { key: 'OFFSET', value: -1.5, text: '-1.5' },
+    ]);
+  });
+
+  it('ignores settings that only appear in comments', () => {
+    const source = [
+      "// Example: PREFIX: '!'",
+      "/* MODE: 'private' */",
+      "module.exports = { PREFIX: process.env.PREFIX || '.' } // OWNER_NAME: 'me'",
+    ].join('\n');
+
+    expect(settingsOf(source)).toEqual([{ key: 'PREFIX', value: '.', text: "'.'" }]);
+  });
+
+  it('keeps the last value of a key set more than once', () => {
+    const source = [
+      "const config = { MODE: 'public', PREFIX: '.', MODE: 'private' };",
+      "config.PREFIX = '!';",
+      'module.exports = config;',
+    ].join('\n');
+
+    const settings = parseConfigJs(source);
+    expect(settings.map(({ key, value }) => ({ key, value }))).toEqual([
+      { key: 'MODE', value: 'private' },
+      { key: 'PREFIX', value: '!' },
+    ]);
+    const prefix = settings.find((setting) => setting.key === 'PREFIX')!;
+    expect(source.slice(0, prefix.start)).toBe("const config = { MODE: 'public', PREFIX: '.', MODE: 'private' };\nconfig.PREFIX = ");
+  });
+
+  it('reads getters and assignments', () => {
+    const source = [
+      'module.exports = {',
+      "  get OWNER_NAME() { return process.env.OWNER_NAME || 'Owner' },",
+      "  get MODE() { if (process.env.PRIVATE) return 'private'; return 'public' },",
+      '};',
+      "global.ALWAYS_ONLINE = true;",
+      "config['OWNER_NUMBER'] = '2340000000';",
+    ].join('\n');
+
+    expect(settingsOf(source)).toEqual([
+      { key: 'OWNER_NAME', value: 'Owner', text: "'Owner'" },
+      { key: 'ALWAYS_ONLINE', value: true, text: 'true' },
+      { key: 'OWNER_NUMBER', value: '2340000000', text: "'2340000000'" },
+    ]);
+  });
+
+  it('skips values it cannot edit in place', () => {
+    const source = [
+      'module.exports = {',
+      '  BOT_NAME: `${name} bot`,',
+      '  OWNER_NAME: process.env.OWNER_NAME,',
+      "  MODE: process.env.MODE && 'private',",
+      "  PREFIX: prefix || '.',",
+      '  ANTI_DELETE: null,',
+      "  botName: 'lower case',",
+      "  [KEY]: 'computed',",
+      '};',
+    ].join('\n');
+
+    expect(parseConfigJs(source)).toEqual([]);
+  });
+
+  it('unescapes strings and remembers their quote', () => {
+    const source = "module.exports = { BOT_NAME: 'It\\'s a \\u0062ot' };";
+
+    expect(parseConfigJs(source)).toEqual([
+      expect.objectContaining({ key: 'BOT_NAME', literal: 'string', value: "It's a bot", quote: "'" }),
+    ]);
+  });
+
+  it('names the file it cannot parse', () => {
+    expect(() => parseConfigJs('module.exports = {', 'settings.js')).toThrow(BotConfigError);
+    expect(() => parseConfigJs('module.exports = {', 'settings.js')).toThrow(/^settings\.js could not be parsed/);
+  });
+});
+
+describe('parseEnv', () => {
+  it('reads assignments and skips comments', () => {
+    const source = ['# PREFIX=!', 'PREFIX=.', 'export MODE="private"', ''].join('\n');
+
+    expect(parseEnv(source).map(({ key, value, quote, start, end }) => ({ key, value, quote, text: source.slice(start, end) }))).toEqual([
+      { key: 'PREFIX', value: '.', quote: '', text: '.' },
+      { key: 'MODE', value: 'private', quote: '"', text: '"private"' },
+    ]);
+  });
+});
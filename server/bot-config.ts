@@ -0,0 +1,302 @@
+import type { Expression, Node, Pattern, PrivateIdentifier, ReturnStatement } from "acorn";
+import { full, simple } from "acorn-walk";
+import type { BotConfig, BotConfigEntry, Deployment } from "@shared/schema";
+import { ifExists, type GitHubClient } from "./github";
+import { parseJavaScript } from "./config-rewrite";
+import { templateFor } from "./templates";
+
+// Reads and edits the settings in a bot's config file (config.js unless its
+// template names another) and .env on its branch.
+// Only settings with a literal value, or a literal fallback after
+// `process.env.X ||`, can be edited. An edit replaces just that literal, so
+// the rest of the file keeps its formatting.
+
+export class BotConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BotConfigError';
+  }
+}
+
+type ConfigSource = BotConfigEntry['source'];
+type ConfigValue = BotConfigEntry['value'];
+
+interface SettingInfo {
+  label: string;
+  type?: BotConfigEntry['type'];
+  description?: string;
+  options?: string[];
+}
+
+// XYLO-MD settings with a readable label or a fixed type. Other keys are
+// listed as found, typed by their current value.
+const KNOWN_SETTINGS: Record<string, SettingInfo> = {
+  PREFIX: { label: 'Command prefix', type: 'string', description: 'Character every command starts with' },
+  OWNER_NUMBER: { label: 'Owner number', type: 'string', description: 'WhatsApp number of the owner, with country code and without +' },
+  OWNER_NAME: { label: 'Owner name', type: 'string' },
+  BOT_NAME: { label: 'Bot name', type: 'string' },
+  MODE: { label: 'Mode', type: 'string', options: ['public', 'private'], description: 'A private bot only answers its owner' },
+  AUTO_READ: { label: 'Auto-read messages', type: 'boolean' },
+  AUTO_READ_STATUS: { label: 'Auto-view statuses', type: 'boolean' },
+  AUTO_TYPING: { label: 'Show typing', type: 'boolean' },
+  AUTO_RECORDING: { label: 'Show recording', type: 'boolean' },
+  ALWAYS_ONLINE: { label: 'Always online', type: 'boolean' },
+  ANTI_DELETE: { label: 'Anti-delete', type: 'boolean' },
+};
+
+// Managed by the deploy flow rather than the editor
+const MANAGED_KEYS = new Set(['SESSION_ID']);
+
+// Settings are the upper-case keys of `KEY: literal`, `KEY: process.env.KEY || literal`,
+// the getter form `get KEY() { return process.env.KEY || literal }` and
+// assignments such as `config.KEY = literal`. Template literals are skipped
+// since they may interpolate.
+const SETTING_KEY = /^[A-Z][A-Z0-9_]*$/;
+const ENV_SETTING = /^(\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*)(.*?)\s*$/;
+
+// A setting's literal and where it sits in the file
+interface ParsedSetting {
+  key: string;
+  literal: 'string' | 'number' | 'boolean';
+  value: ConfigValue;
+  quote: string; // '' when unquoted
+  start: number;
+  end: number;
+}
+
+interface ConfigFile {
+  path: ConfigSource;
+  sha: string;
+  content: string;
+  settings: ParsedSetting[];
+}
+
+function unquote(literal: string) {
+  return literal.slice(1, -1).replace(/\\(.)/g, (_match, char: string) => ({ n: '\n', r: '\r', t: '\t' } as Record<string, string>)[char] ?? char);
+}
+
+function quote(value: string, quoteChar: string) {
+  const escaped = value.replace(/\\/g, '\\\\').split(quoteChar).join(`\\${quoteChar}`);
+  return `${quoteChar}${escaped}${quoteChar}`;
+}
+
+function keyName(key: Expression | PrivateIdentifier, computed: boolean) {
+  if (!computed && key.type === 'Identifier') return key.name;
+  if (key.type === 'Literal' && typeof key.value === 'string') return key.value;
+  return null;
+}
+
+// `process.env.X`, with dot or bracket access
+function isEnvLookup(node: Expression) {
+  return node.type === 'MemberExpression'
+    && node.object.type === 'MemberExpression'
+    && node.object.object.type === 'Identifier' && node.object.object.name === 'process'
+    && !node.object.computed && node.object.property.type === 'Identifier' && node.object.property.name === 'env';
+}
+
+// The literal a value sets, or its fallback after an env lookup
+function settingLiteral(source: string, key: string, value: Expression | Pattern): ParsedSetting | null {
+  if (value.type === 'LogicalExpression' && value.operator === '||' && isEnvLookup(value.left)) {
+    return settingLiteral(source, key, value.right);
+  }
+  if (value.type === 'UnaryExpression' && value.operator === '-' && value.argument.type === 'Literal' && typeof value.argument.value === 'number') {
+    return { key, literal: 'number', value: -value.argument.value, quote: '', start: value.start, end: value.end };
+  }
+  if (value.type !== 'Literal') return null;
+
+  const { start, end } = value;
+  switch (typeof value.value) {
+    case 'string':
+      return { key, literal: 'string', value: value.value, quote: source[start], start, end };
+    case 'number':
+      return { key, literal: 'number', value: value.value, quote: '', start, end };
+    case 'boolean':
+      return { key, literal: 'boolean', value: value.value, quote: '', start, end };
+    default:
+      return null;
+  }
+}
+
+// Settings in a config file's source. Comments are ignored, and when a key is
+// set more than once the last literal wins, as it does when the file runs.
+export function parseConfigJs(source: string, path: ConfigSource = 'config.js'): ParsedSetting[] {
+  let ast: Node;
+  try {
+    ast = parseJavaScript(source);
+  } catch (error: any) {
+    throw new BotConfigError(`${path} could not be parsed: ${error.message}`);
+  }
+
+  const found: ParsedSetting[] = [];
+  const consider = (key: string | null, value: Expression | Pattern | null | undefined) => {
+    if (!key || !SETTING_KEY.test(key) || !value) return;
+    const setting = settingLiteral(source, key, value);
+    if (setting) found.push(setting);
+  };
+
+  full(ast, (node) => {
+    switch (node.type) {
+      case 'Property': {
+        if (node.shorthand) return;
+        const key = keyName(node.key, node.computed);
+        if (node.kind === 'get' && node.value.type === 'FunctionExpression') {
+          // Only getters with a single return, anywhere in their body
+          const returned: ReturnStatement[] = [];
+          simple(node.value.body, { ReturnStatement: (statement) => { returned.push(statement); } });
+          if (returned.length === 1) consider(key, returned[0].argument);
+        } else if (node.kind === 'init' && !node.method) {
+          consider(key, node.value);
+        }
+        return;
+      }
+      case 'AssignmentExpression': {
+        if (node.operator !== '=' || node.left.type !== 'MemberExpression') return;
+        consider(keyName(node.left.property, node.left.computed), node.right);
+        return;
+      }
+    }
+  });
+
+  const settings = new Map<string, ParsedSetting>();
+  found
+    .sort((a, b) => a.start - b.start)
+    .forEach((setting) => settings.set(setting.key, setting));
+  return Array.from(settings.values());
+}
+
+export function parseEnv(source: string): ParsedSetting[] {
+  const settings: ParsedSetting[] = [];
+  let offset = 0;
+  for (const line of source.split('\n')) {
+    const match = line.match(ENV_SETTING);
+    if (match && !line.trim().startsWith('#')) {
+      const [, prefix, key, raw] = match;
+      const quoted = raw.length >= 2 && (raw[0] === '"' || raw[0] === "'") && raw.endsWith(raw[0]);
+      settings.push({
+        key,
+        literal: 'string',
+        value: quoted ? unquote(raw) : raw,
+        quote: quoted ? raw[0] : '',
+        start: offset + prefix.length,
+        end: offset + prefix.length + raw.length,
+      });
+    }
+    offset += line.length + 1;
+  }
+  return settings;
+}
+
+function toEntry(setting: ParsedSetting, source: ConfigSource): BotConfigEntry {
+  const known = KNOWN_SETTINGS[setting.key];
+  const raw = setting.value;
+  const looksBoolean = typeof raw === 'boolean' || raw === 'true' || raw === 'false';
+  const type = known?.type ?? (looksBoolean ? 'boolean' : setting.literal === 'number' ? 'number' : 'string');
+
+  let value: ConfigValue = String(raw);
+  if (type === 'boolean') value = typeof raw === 'boolean' ? raw : String(raw).toLowerCase() === 'true';
+  else if (type === 'number') value = Number(raw);
+
+  return {
+    key: setting.key,
+    type,
+    value,
+    source,
+    label: known?.label ?? setting.key,
+    description: known?.description,
+    options: known?.options,
+  };
+}
+
+// Writes a value in the same form as the literal it replaces
+function formatValue(setting: ParsedSetting, path: ConfigSource, value: ConfigValue) {
+  const text = String(value);
+  if (setting.quote) return quote(text, setting.quote);
+  if (path === '.env') return /[\s#"']/.test(text) ? quote(text, '"') : text;
+  if (setting.literal === 'string') return quote(text, "'");
+  const fits = setting.literal === 'boolean' ? typeof value === 'boolean' : typeof value === 'number';
+  return fits ? text : quote(text, "'");
+}
+
+function checkValue(entry: BotConfigEntry, value: ConfigValue) {
+  if (typeof value !== entry.type) {
+    throw new BotConfigError(`${entry.key} must be a ${entry.type}`);
+  }
+  if (typeof value === 'string') {
+    if (/[\r\n]/.test(value)) throw new BotConfigError(`${entry.key} must be a single line`);
+    if (entry.options && !entry.options.includes(value)) {
+      throw new BotConfigError(`${entry.key} must be one of: ${entry.options.join(', ')}`);
+    }
+  }
+}
+
+async function loadFiles(github: GitHubClient, deployment: Deployment): Promise<ConfigFile[]> {
+  const { configPath } = await templateFor(deployment);
+  const files: ConfigFile[] = [];
+  for (const path of [configPath, '.env']) {
+    const file = await ifExists(github.getContent(deployment.githubUsername, deployment.repositoryName, path, deployment.branchName!));
+    if (!file) continue;
+    const content = Buffer.from(file.content, 'base64').toString('utf-8');
+    files.push({ path, sha: file.sha, content, settings: path === '.env' ? parseEnv(content) : parseConfigJs(content, path) });
+  }
+  return files;
+}
+
+// Editable settings by key. A key set in .env overrides config.js, since
+// dotenv fills process.env before config.js reads it.
+function collectSettings(files: ConfigFile[]) {
+  const settings = new Map<string, { file: ConfigFile; setting: ParsedSetting }>();
+  files.forEach((file) => {
+    file.settings
+      .filter((setting) => !MANAGED_KEYS.has(setting.key))
+      .forEach((setting) => settings.set(setting.key, { file, setting }));
+  });
+  return settings;
+}
+
+export async function readBotConfig(github: GitHubClient, deployment: Deployment): Promise<BotConfig> {
+  const settings = collectSettings(await loadFiles(github, deployment));
+  return {
+    branchName: deployment.branchName!,
+    entries: Array.from(settings.values()).map(({ file, setting }) => toEntry(setting, file.path)),
+  };
+}
+
+// Validates the changes against the settings currently on the branch and
+// commits each changed file. Returns the keys whose value changed.
+export async function updateBotConfig(github: GitHubClient, deployment: Deployment, values: Record<string, ConfigValue>) {
+  const files = await loadFiles(github, deployment);
+  const settings = collectSettings(files);
+  const edits = new Map<ConfigFile, { setting: ParsedSetting; text: string }[]>();
+  const changed: string[] = [];
+
+  Object.entries(values).forEach(([key, value]) => {
+    const found = settings.get(key);
+    if (!found) {
+      throw new BotConfigError(`${key} is not an editable setting`);
+    }
+    const entry = toEntry(found.setting, found.file.path);
+    checkValue(entry, value);
+    if (entry.value === value) return;
+
+    const fileEdits = edits.get(found.file) ?? [];
+    fileEdits.push({ setting: found.setting, text: formatValue(found.setting, found.file.path, value) });
+    edits.set(found.file, fileEdits);
+    changed.push(key);
+  });
+
+  for (const [file, fileEdits] of Array.from(edits.entries())) {
+    // Apply from the end so earlier offsets stay valid
+    const content = fileEdits
+      .sort((a, b) => b.setting.start - a.setting.start)
+      .reduce((text, edit) => text.slice(0, edit.setting.start) + edit.text + text.slice(edit.setting.end), file.content);
+
+    await github.putContent(deployment.githubUsername, deployment.repositoryName, file.path, {
+      message: `Update ${fileEdits.map((edit) => edit.setting.key).join(', ')} in ${file.path}`,
+      content,
+      branch: deployment.branchName!,
+      sha: file.sha,
+    });
+  }
+
+  return changed;
+}
@@ -0,0 +1,63 @@
+import type { BotInstance, Deployment } from "@shared/schema";
+import { storage } from "./storage";
+import { sealToken } from "./token-crypto";
+import { deploymentQueue } from "./job-queue";
+import { getDeploymentTarget } from "./targets";
+import { createTargetContext, stopOnTarget } from "./deployment-runner";
+import { templateFor } from "./templates";
+
+// First free "Bot N" name, for deploys that do not name their instance
+export async function nextInstanceName(githubUsername: string) {
+  const names = new Set((await storage.getBotInstancesByUser(githubUsername)).map((instance) => instance.name));
+  let number = names.size + 1;
+  while (names.has(`Bot ${number}`)) number++;
+  return `Bot ${number}`;
+}
+
+// Queues a new deployment of the instance. Its running deployments are
+// stopped first, since two bots on one WhatsApp session log each other out.
+// `branchName` names the branch for an instance that has none yet. Pinning
+// `ref` (an upstream tag or commit SHA) cuts a new branch from it, which the
+// instance then deploys from.
+export async function deployInstance(instance: BotInstance, token: string, options: { branchName?: string | null; ref?: string | null } = {}) {
+  const { branchName, ref } = options;
+  const template = await templateFor(instance);
+  const running = (await storage.getDeploymentsByUser(instance.githubUsername, instance.id))
+    .filter((deployment) => deployment.status === 'running');
+  for (const previous of running) {
+    await stopOnTarget(getDeploymentTarget(previous.target), createTargetContext(previous, token));
+    await storage.updateDeployment(previous.id, {
+      status: 'stopped',
+      message: 'Superseded by a newer deployment'
+    });
+  }
+
+  const deployment = await storage.createDeployment({
+    instanceId: instance.id,
+    templateId: template.id,
+    sessionId: instance.sessionId,
+    sessionMode: instance.sessionMode,
+    branchName: ref ? branchName || null : instance.branchName || branchName || null,
+    sourceRef: ref || null,
+    githubUsername: instance.githubUsername,
+    repositoryName: template.repo,
+    target: instance.target,
+    workflowOptions: instance.workflowOptions,
+    githubToken: sealToken(token), // Store user's GitHub token for log access
+    status: 'pending',
+    message: 'Deployment queued'
+  });
+
+  await deploymentQueue.enqueue({ deploymentId: deployment.id, githubUsername: instance.githubUsername, kind: 'deploy' });
+  return deployment;
+}
+
+// Newest deployment of the instance made before `deployment` that ran a
+// different upstream commit, which a rollback returns to
+export async function previousCommitDeployment(deployment: Deployment) {
+  if (!deployment.instanceId) return undefined;
+  return (await storage.getDeploymentsByUser(deployment.githubUsername, deployment.instanceId))
+    .filter((other) => other.commitSha && other.commitSha !== deployment.commitSha
+      && other.createdAt.getTime() < deployment.createdAt.getTime())
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+}
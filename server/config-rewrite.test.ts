@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { ConfigRewriteError, rewriteSessionId } from "./config-rewrite";
+
+const SESSION = 'XYLO-MD~abc123';
+
+describe('rewriteSessionId', () => {
+  it.each([
+    {
+      style: 'a property',
+      before: "module.exports = {\n  SESSION_ID: 'old',\n  PREFIX: '.',\n};",
+      after: "module.exports = {\n  SESSION_ID: 'XYLO-MD~abc123',\n  PREFIX: '.',\n};",
+    },
+    {
+      style: 'a quoted property with an env fallback',
+      before: 'module.exports = { "SESSION_ID": process.env.SESSION_ID || "" };',
+      after: 'module.exports = { "SESSION_ID": process.env.SESSION_ID || "XYLO-MD~abc123" };',
+    },
+    {
+      style: 'a ?? fallback with bracket access',
+      before: "module.exports = { SESSION_ID: process.env['SESSION_ID'] ?? `` };",
+      after: "module.exports = { SESSION_ID: process.env['SESSION_ID'] ?? 'XYLO-MD~abc123' };",
+    },
+    {
+      style: 'a bare env lookup',
+      before: 'module.exports = { SESSION_ID: process.env.SESSION_ID };',
+      after: "module.exports = { SESSION_ID: process.env.SESSION_ID || 'XYLO-MD~abc123' };",
+    },
+    {
+      style: 'a getter',
+      before: "module.exports = {\n  get SESSION_ID() { return process.env.SESSION_ID || 'old' },\n};",
+      after: "module.exports = {\n  get SESSION_ID() { return process.env.SESSION_ID || 'XYLO-MD~abc123' },\n};",
+    },
+    {
+      style: 'member assignments',
+      before: "global.SESSION_ID = 'old';\nconfig['SESSION_ID'] = process.env.SESSION_ID || '';",
+      after: "global.SESSION_ID = 'XYLO-MD~abc123';\nconfig['SESSION_ID'] = process.env.SESSION_ID || 'XYLO-MD~abc123';",
+    },
+    {
+      style: 'a variable exported by shorthand',
+      before: "const SESSION_ID = process.env.SESSION_ID || 'old';\nmodule.exports = { SESSION_ID };",
+      after: "const SESSION_ID = process.env.SESSION_ID || 'XYLO-MD~abc123';\nmodule.exports = { SESSION_ID };",
+    },
+    {
+      style: 'an ES module',
+      before: "export default { SESSION_ID: '' };",
+      after: "export default { SESSION_ID: 'XYLO-MD~abc123' };",
+    },
+    {
+      style: 'a script with octal escapes',
+      before: "module.exports = { SESSION_ID: '', NOTE: '\\101' };",
+      after: "module.exports = { SESSION_ID: 'XYLO-MD~abc123', NOTE: '\\101' };",
+    },
+  ])('updates $style', ({ before, after }) => {
+    expect(rewriteSessionId(before, SESSION)).toBe(after);
+  });
+
+  it('keeps comments and formatting, including a SESSION_ID in a comment', () => {
+    const source = [
+      '#!/usr/bin/env node',
+      "// SESSION_ID: 'paste here'",
+      'module.exports = {',
+      '    /* your session */   SESSION_ID  :  process.env.SESSION_ID||"old" , // keep me',
+      '};',
+    ].join('\n');
+
+    expect(rewriteSessionId(source, SESSION)).toBe(source.replace('"old"', '"XYLO-MD~abc123"'));
+  });
+
+  it('updates every place SESSION_ID is set', () => {
+    const source = "const config = { SESSION_ID: '' };\nif (process.env.DEV) config.SESSION_ID = 'dev';";
+
+    expect(rewriteSessionId(source, SESSION)).toBe("const config = { SESSION_ID: 'XYLO-MD~abc123' };\nif (process.env.DEV) config.SESSION_ID = 'XYLO-MD~abc123';");
+  });
+
+  it('escapes the session ID for the quote it goes into', () => {
+    expect(rewriteSessionId("module.exports = { SESSION_ID: '' };", "it's\\\n")).toBe("module.exports = { SESSION_ID: 'it\\'s\\\\\\n' };");
+    expect(rewriteSessionId('module.exports = { SESSION_ID: "" };', 'say "hi"')).toBe('module.exports = { SESSION_ID: "say \\"hi\\"" };');
+  });
+
+  it('ignores other keys and methods that merely mention SESSION_ID', () => {
+    const source = "module.exports = { SESSION_ID_OLD: 'x', SESSION_ID: '', SESSION_ID2() { return 'y' } };";
+
+    expect(rewriteSessionId(source, SESSION)).toBe("module.exports = { SESSION_ID_OLD: 'x', SESSION_ID: 'XYLO-MD~abc123', SESSION_ID2() { return 'y' } };");
+  });
+
+  describe('fails explicitly', () => {
+    it.each([
+      { problem: 'the file does not parse', source: 'module.exports = {', error: /^config\.js could not be parsed: / },
+      { problem: 'there is no SESSION_ID', source: "module.exports = { PREFIX: '.' };", error: 'No SESSION_ID property, getter or assignment was found in config.js' },
+      { problem: 'SESSION_ID only appears in a comment', source: "// SESSION_ID: ''\nmodule.exports = {};", error: 'No SESSION_ID property, getter or assignment was found in config.js' },
+      {
+        problem: 'the value is computed',
+        source: "module.exports = {\n  SESSION_ID: readSession(),\n};",
+        error: 'SESSION_ID in config.js is set in a way that cannot be updated (line 2)',
+      },
+      {
+        problem: 'the fallback is computed',
+        source: "module.exports = { SESSION_ID: process.env.SESSION_ID || `${prefix}~x` };",
+        error: 'SESSION_ID in config.js is set in a way that cannot be updated (line 1)',
+      },
+      {
+        problem: 'a getter returns nothing',
+        source: "module.exports = {\n  get SESSION_ID() { load(); },\n};",
+        error: 'SESSION_ID in config.js is set in a way that cannot be updated (line 2)',
+      },
+      {
+        problem: 'a variable has no value',
+        source: 'let SESSION_ID;\nmodule.exports = { SESSION_ID };',
+        error: 'SESSION_ID in config.js is set in a way that cannot be updated (line 1)',
+      },
+    ])('when $problem', ({ source, error }) => {
+      expect(() => rewriteSessionId(source, SESSION)).toThrow(ConfigRewriteError);
+      expect(() => rewriteSessionId(source, SESSION)).toThrow(error);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { parse, type Expression, type Node, type Pattern, type PrivateIdentifier, type ReturnStatement } from "acorn";
+import { full } from "acorn-walk";
+
+// Sets the bot's SESSION_ID in config.js. The file is parsed and only the
+// value's source range is replaced, so comments and formatting survive.
+// Understood forms, each also with an `process.env.SESSION_ID || '...'`
+// fallback:
+//
+//   module.exports = { SESSION_ID: '...' }
+//   module.exports = { get SESSION_ID() { return '...' } }
+//   config.SESSION_ID = '...'  /  global.SESSION_ID = '...'
+//   const SESSION_ID = '...'
+
+export class ConfigRewriteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigRewriteError';
+  }
+}
+
+const KEY = 'SESSION_ID';
+
+interface Replacement {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Parses a config file as a module, falling back to a script since CommonJS
+// files may use things modules forbid, such as `with` or octal escapes.
+// Throws the script parse error.
+export function parseJavaScript(source: string) {
+  const options = { ecmaVersion: 'latest' as const, allowHashBang: true, allowReturnOutsideFunction: true };
+  try {
+    return parse(source, { ...options, sourceType: 'module' });
+  } catch {
+    return parse(source, { ...options, sourceType: 'script' });
+  }
+}
+
+function parseConfig(source: string) {
+  try {
+    return parseJavaScript(source);
+  } catch (error: any) {
+    throw new ConfigRewriteError(`config.js could not be parsed: ${error.message}`);
+  }
+}
+
+function isKey(node: Expression | PrivateIdentifier, computed = false) {
+  if (node.type === 'Literal') return node.value === KEY;
+  return !computed && node.type === 'Identifier' && node.name === KEY;
+}
+
+function isStringValue(node: Expression | Pattern) {
+  if (node.type === 'Literal') return typeof node.value === 'string';
+  return node.type === 'TemplateLiteral' && node.expressions.length === 0;
+}
+
+// `process.env.SESSION_ID`, with dot or bracket access
+function isEnvLookup(node: Expression | Pattern) {
+  if (node.type !== 'MemberExpression') return false;
+  const { object, property } = node;
+  return object.type === 'MemberExpression'
+    && object.object.type === 'Identifier' && object.object.name === 'process'
+    && !object.computed && object.property.type === 'Identifier' && object.property.name === 'env'
+    && isKey(property, node.computed);
+}
+
+function quote(value: string, like?: Expression | Pattern) {
+  const quoteChar = like?.type === 'Literal' && typeof like.raw === 'string' && like.raw[0] === '"' ? '"' : "'";
+  const escaped = value.replace(/\\/g, '\\\\').replace(/\r/g, '\\r').replace(/\n/g, '\\n').split(quoteChar).join(`\\${quoteChar}`);
+  return `${quoteChar}${escaped}${quoteChar}`;
+}
+
+// Works out where the session ID goes in a value: the value itself if it is
+// a plain string, the fallback of an env lookup, or a new fallback appended
+// to a bare `process.env.SESSION_ID`
+function valueReplacement(value: Expression | Pattern, sessionId: string): Replacement | null {
+  if (isStringValue(value)) {
+    return { start: value.start, end: value.end, text: quote(sessionId, value) };
+  }
+  if (value.type === 'LogicalExpression' && (value.operator === '||' || value.operator === '??')) {
+    if (isStringValue(value.right)) {
+      return { start: value.right.start, end: value.right.end, text: quote(sessionId, value.right) };
+    }
+    return null;
+  }
+  if (isEnvLookup(value)) {
+    return { start: value.end, end: value.end, text: ` || ${quote(sessionId)}` };
+  }
+  return null;
+}
+
+// Returns config.js with every SESSION_ID value set to `sessionId`. Throws a
+// ConfigRewriteError when the file cannot be parsed or nothing could be updated.
+export function rewriteSessionId(source: string, sessionId: string) {
+  const ast = parseConfig(source);
+  const replacements: Replacement[] = [];
+  // SESSION_ID was found but its value is computed in a way we cannot update
+  const unsupported: string[] = [];
+
+  const consider = (value: Expression | Pattern | null | undefined, node: Node) => {
+    const replacement = value ? valueReplacement(value, sessionId) : null;
+    if (replacement) {
+      replacements.push(replacement);
+    } else {
+      unsupported.push(`line ${source.slice(0, node.start).split('\n').length}`);
+    }
+  };
+
+  full(ast, (node) => {
+    switch (node.type) {
+      case 'Property': {
+        if (!isKey(node.key, node.computed)) return;
+        // `{ SESSION_ID }` refers to a variable, which is handled on its own
+        if (node.shorthand) return;
+        if (node.kind === 'get' && node.value.type === 'FunctionExpression') {
+          const returned = node.value.body.body.filter((statement): statement is ReturnStatement => statement.type === 'ReturnStatement');
+          if (returned.length === 0) consider(null, node);
+          returned.forEach((statement) => consider(statement.argument, statement));
+        } else if (node.kind === 'init' && !node.method) {
+          consider(node.value, node);
+        }
+        return;
+      }
+      case 'AssignmentExpression': {
+        if (node.operator !== '=' || node.left.type !== 'MemberExpression') return;
+        // `process.env.SESSION_ID = ...` counts too
+        if (!isKey(node.left.property, node.left.computed)) return;
+        consider(node.right, node);
+        return;
+      }
+      case 'VariableDeclarator': {
+        if (node.id.type !== 'Identifier' || node.id.name !== KEY) return;
+        consider(node.init, node);
+        return;
+      }
+    }
+  });
+
+  if (replacements.length === 0) {
+    throw new ConfigRewriteError(unsupported.length > 0
+      ? `SESSION_ID in config.js is set in a way that cannot be updated (${unsupported.join(', ')})`
+      : 'No SESSION_ID property, getter or assignment was found in config.js');
+  }
+
+  return replacements
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, { start, end, text: replacement }) => text.slice(0, start) + replacement + text.slice(end), source);
+}
@@ -0,0 +1,31 @@
+import os from "os";
+import path from "path";
+
+// Upstream bot repository of the `default` bot template, which is created
+// from these on first start. Further templates are managed through /api/templates.
+export const REPO_OWNER = process.env.REPO_OWNER || 'DAV-EX';
+export const REPO_NAME = process.env.REPO_NAME || 'XYLO-MD';
+export const MAIN_BRANCH = process.env.MAIN_BRANCH || 'main';
+export const WORKFLOW_FILE = process.env.WORKFLOW_FILE || 'deploy.yml';
+
+// GitHub logins allowed to manage the bot template catalog
+export const ADMIN_USERS = (process.env.ADMIN_USERS || '').split(',').map((login) => login.trim().toLowerCase()).filter(Boolean);
+
+// GitHub endpoints. Point these at a fake server (see server/github/fake-server.ts) to run offline.
+export const GITHUB_API_URL = (process.env.GITHUB_API_URL || 'https://api.github.com').replace(/\/$/, '');
+export const GITHUB_URL = (process.env.GITHUB_URL || 'https://github.com').replace(/\/$/, '');
+
+// Deployment targets users may pick from. The local target runs bot code on this host, so it is opt-in.
+export const ENABLED_TARGETS = (process.env.ENABLED_TARGETS || 'github-actions').split(',').map((id) => id.trim()).filter(Boolean);
+// Where the local target checks out and runs bots, one directory per deployment
+export const LOCAL_TARGET_DIR = process.env.LOCAL_TARGET_DIR || path.join(os.tmpdir(), 'xylo-bots');
+
+// Docker target: Engine socket, base image bots are built on, and per-container limits
+export const DOCKER_SOCKET = process.env.DOCKER_SOCKET || '/var/run/docker.sock';
+export const DOCKER_BASE_IMAGE = process.env.DOCKER_BASE_IMAGE || 'node:20-alpine';
+export const DOCKER_MEMORY_MB = parseInt(process.env.DOCKER_MEMORY_MB || '512', 10);
+export const DOCKER_CPUS = parseFloat(process.env.DOCKER_CPUS || '0.5');
+export const DOCKER_PIDS_LIMIT = parseInt(process.env.DOCKER_PIDS_LIMIT || '256', 10);
+
+// Prefixes the bot accepts in front of a session ID, e.g. `XYLO-MD~<creds>`
+export const SESSION_PREFIXES = (process.env.SESSION_PREFIXES || 'XYLO-MD,XYLO').split(',').map((prefix) => prefix.trim()).filter(Boolean);
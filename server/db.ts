@@ -0,0 +1,30 @@
+import { Pool as NeonPool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import { drizzle as drizzleNodePg } from "drizzle-orm/node-postgres";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import pg from "pg";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+// The Neon driver speaks the Postgres wire protocol over WebSockets
+neonConfig.webSocketConstructor = ws;
+
+// Any Drizzle Postgres database, whichever driver it goes through
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+function isNeonUrl(connectionString: string) {
+  try {
+    return new URL(connectionString).hostname.endsWith('.neon.tech');
+  } catch {
+    return false;
+  }
+}
+
+// Neon databases are reached through its serverless driver; anything else,
+// such as a local Postgres for development and tests, over plain TCP
+export function createDb(connectionString: string): Database {
+  if (isNeonUrl(connectionString)) {
+    return drizzleNeon({ client: new NeonPool({ connectionString }), schema });
+  }
+  return drizzleNodePg({ client: new pg.Pool({ connectionString }), schema });
+}
@@ -0,0 +1,529 @@
+import { storage } from "./storage";
+import { GitHubApiError, ifExists, isNotFound, sealSecret } from "./github";
+import type { PipelineStep } from "./pipeline";
+import { waitForDeploymentRun } from "./workflow-runs";
+import { renderWorkflow } from "./workflow-template";
+import { rewriteSessionId } from "./config-rewrite";
+import { compareFork, findFork, templateFor, upstreamName } from "./templates";
+import { GITHUB_URL, WORKFLOW_FILE } from "./config";
+
+// Deploy steps shared by the deployment targets in server/targets/, which
+// assemble them into their own pipelines.
+
+// Values handed from one deploy step to the next. Everything here is persisted
+// with the step records, so secrets (token, session ID) stay on the deployment.
+export interface DeployState {
+  requestedBranch?: string | null;
+  login?: string;
+  isFirstDeployment?: boolean;
+  forkCreated?: boolean;
+  // The fork was made from another repository in the template's fork network,
+  // so its own branches do not hold the template's code
+  forkOutsideTemplate?: boolean;
+  // Merging upstream into the fork's default branch hit conflicts, so the
+  // branch was cut from the fork's own, older code
+  syncConflict?: boolean;
+  branchName?: string;
+  // The branch is the bot instance's and was made by an earlier deployment
+  branchReused?: boolean;
+  // Upstream commit the branch was cut from
+  commitSha?: string | null;
+  workflowUrl?: string;
+  workflowRunId?: number;
+  // Rebuild config.js from upstream instead of the branch's current copy
+  refreshConfig?: boolean;
+}
+
+// Actions secrets are shared by every branch of a fork, so each deployment
+// gets its own
+export function sessionSecretName(deploymentId: string) {
+  return `XYLO_SESSION_${deploymentId.replace(/-/g, '_').toUpperCase()}`;
+}
+
+export const initStep: PipelineStep<DeployState> = {
+  name: 'init',
+  async run(_input, { deployment, github, logStep }) {
+    await logStep('init', 'running', 'Getting user information...');
+    const user = await github.getAuthenticatedUser();
+    await logStep('init', 'success', `Connected as ${user.login}`);
+
+    // Check if this is a first deployment for optimization
+    const existingDeployments = await storage.getDeploymentsByUser(deployment.githubUsername);
+    const isFirstDeployment = existingDeployments.every((d) => d.id === deployment.id);
+
+    return { login: user.login, isFirstDeployment };
+  },
+};
+
+export const forkStep: PipelineStep<DeployState> = {
+  name: 'fork',
+  async run({ login, isFirstDeployment }, { deployment, github, logStep }) {
+    const template = await templateFor(deployment);
+    const upstream = upstreamName(template);
+
+    if (isFirstDeployment) {
+      await logStep('fork', 'running', 'Setting up XYLO server infrastructure...');
+    } else {
+      await logStep('fork', 'running', 'Connecting to existing XYLO server setup...');
+    }
+
+    let existing;
+    try {
+      existing = await findFork(github, login!, template);
+    } catch (error: any) {
+      await logStep('fork', 'failed', error.message);
+      throw error;
+    }
+
+    if (!existing) {
+      await logStep('fork', 'running', `Creating XYLO server instance from ${upstream}...`);
+      await github.createFork(template.owner, template.repo);
+      await new Promise(resolve => setTimeout(resolve, 2000));
+      await logStep('fork', 'success', 'XYLO server instance created successfully');
+
+      // Add important note about server activation for new setups
+      await logStep('fork-info', 'warning', `⚠️ New XYLO server instance created. Server activation required for first deployment.`);
+      return { forkCreated: true };
+    }
+
+    if (!existing.fromTemplate) {
+      await logStep('fork-info', 'info', `Your fork ${existing.fork.full_name} comes from ${existing.fork.parent?.full_name}; branches will be cut from ${upstream}`);
+    }
+
+    if (isFirstDeployment) {
+      await logStep('fork', 'success', 'Using existing XYLO server instance');
+      await logStep('fork-info', 'info', `🔄 XYLO server instance ready. First deployment may require manual activation.`);
+    } else {
+      await logStep('fork', 'success', 'Connected to existing XYLO server instance');
+      await logStep('fork-info', 'info', `⚡ Fast deployment mode enabled - skipping initial setup checks.`);
+    }
+    return { forkCreated: false, forkOutsideTemplate: !existing.fromTemplate };
+  },
+};
+
+export const actionsCheckStep: PipelineStep<DeployState> = {
+  name: 'actions-check',
+  async run({ login, isFirstDeployment }, { deployment, github, logStep }) {
+    const repo = deployment.repositoryName;
+    if (!isFirstDeployment) {
+      // Quick check for subsequent deployments
+      await logStep('actions-check', 'running', 'Verifying XYLO server readiness...');
+      try {
+        await github.getActionsPermissions(login!, repo);
+        await logStep('actions-check', 'success', 'XYLO servers operational - fast-track deployment enabled');
+      } catch (actionsError: any) {
+        await logStep('actions-check', 'warning', 'XYLO server verification skipped - proceeding with deployment');
+      }
+      return;
+    }
+
+    await logStep('actions-check', 'running', 'Verifying XYLO server activation...');
+    try {
+      const actionsPermissions = await github.getActionsPermissions(login!, repo);
+
+      if (actionsPermissions && actionsPermissions.enabled === false) {
+        // Actions are disabled, let's enable them automatically
+        await logStep('actions-enable', 'running', 'XYLO servers need activation. Auto-activating now...');
+
+        await github.setActionsPermissions(login!, repo, {
+          enabled: true,
+          allowed_actions: 'all'
+        });
+
+        await logStep('actions-enable', 'success', '✅ XYLO servers have been automatically activated!');
+      } else {
+        await logStep('actions-check', 'success', 'XYLO servers are already activated and ready');
+      }
+    } catch (actionsError: any) {
+      if (isNotFound(actionsError)) {
+        // Likely means Actions are disabled entirely - try to enable them
+        await logStep('actions-enable', 'running', 'XYLO servers appear inactive. Attempting auto-activation...');
+
+        try {
+          await github.setActionsPermissions(login!, repo, {
+            enabled: true,
+            allowed_actions: 'all'
+          });
+
+          await logStep('actions-enable', 'success', '✅ XYLO servers have been automatically activated!');
+        } catch (enableError: any) {
+          await logStep('actions-enable', 'failed', `Failed to auto-activate servers (${enableError.status}). Manual activation required at: ${GITHUB_URL}/${login}/${repo}/settings/actions`);
+        }
+      } else {
+        await logStep('actions-check', 'warning', `Could not verify server status (${actionsError.status}). Proceeding with deployment...`);
+      }
+    }
+  },
+};
+
+// Brings the fork's default branch up to date with the template before a
+// branch is cut from it. A conflict is reported and the deploy carries on
+// from the fork's current code.
+export const syncStep: PipelineStep<DeployState> = {
+  name: 'sync',
+  async run({ login, forkCreated, forkOutsideTemplate }, { deployment, github, logStep }) {
+    // A new fork starts out current, and one from elsewhere in the network
+    // gets its branches from the template directly
+    if (forkCreated || forkOutsideTemplate) return;
+
+    const template = await templateFor(deployment);
+    const upstream = upstreamName(template);
+    const branch = template.defaultBranch;
+
+    await logStep('sync', 'running', `Comparing your fork with ${upstream}...`);
+    const comparison = await compareFork(github, login!, template);
+    if (comparison.behind_by === 0) {
+      await logStep('sync', 'success', `Fork is up to date with ${upstream}`);
+      return;
+    }
+
+    await logStep('sync', 'running', `Fork is ${comparison.behind_by} commit(s) behind ${upstream}, syncing ${branch}...`);
+    try {
+      const result = await github.mergeUpstream(login!, deployment.repositoryName, branch);
+      await logStep('sync', 'success', result.message);
+    } catch (error) {
+      if (!(error instanceof GitHubApiError) || error.status !== 409) throw error;
+
+      await logStep('sync', 'warning', `Could not sync ${branch} with ${upstream}: your fork has changes that conflict with it. ` +
+        `Deploying your fork's current code, which is ${comparison.behind_by} commit(s) behind. Resolve the conflict at ${comparison.html_url} to pick up upstream fixes.`);
+      return { syncConflict: true };
+    }
+  },
+};
+
+export const branchStep: PipelineStep<DeployState> = {
+  name: 'branch',
+  async run({ login, requestedBranch, forkOutsideTemplate }, { deployment, github, logStep }) {
+    const repo = deployment.repositoryName;
+    const branchName = requestedBranch && requestedBranch.trim() ?
+      requestedBranch.trim() :
+      `xylo-${Math.random().toString(36).substring(2, 8)}`;
+
+    // Check if branch exists
+    const branchExists = await ifExists(github.getRef(login!, repo, `heads/${branchName}`));
+
+    // Later deploys of a bot instance carry on on the branch its first deploy
+    // created, unless they pin an upstream version of their own
+    const instance = deployment.instanceId ? await storage.getBotInstance(deployment.instanceId) : undefined;
+    if (branchExists && instance?.branchName === branchName && !deployment.sourceRef) {
+      const cutFrom = (await storage.getDeploymentsByUser(deployment.githubUsername, instance.id))
+        .filter((other) => other.branchName === branchName && other.commitSha)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+      const commitSha = cutFrom?.commitSha ?? null;
+      await storage.updateDeployment(deployment.id, { branchName, commitSha });
+      await logStep('branch', 'success', `Using ${instance.name}'s branch '${branchName}'`);
+      return { branchName, branchReused: true, commitSha };
+    }
+
+    await logStep('branch', 'running', `Creating branch: ${branchName}...`);
+    if (branchExists) {
+      await logStep('branch', 'failed', `Branch '${branchName}' already exists`);
+      throw new Error(`Branch '${branchName}' already exists. Please choose a different name.`);
+    }
+
+    // Cut the branch from the pinned upstream version, or else the template's
+    // default branch. Forks share their network's commits, so the template's
+    // commits can be used directly.
+    const template = await templateFor(deployment);
+    let commitSha: string;
+    if (deployment.sourceRef) {
+      const upstream = upstreamName(template);
+      try {
+        commitSha = (await github.getCommit(template.owner, template.repo, deployment.sourceRef)).sha;
+      } catch (error) {
+        if (!(error instanceof GitHubApiError) || (error.status !== 404 && error.status !== 422)) throw error;
+        await logStep('branch', 'failed', `'${deployment.sourceRef}' is not a tag or commit of ${upstream}`);
+        throw new Error(`'${deployment.sourceRef}' is not a tag or commit of ${upstream}. Pick another version and deploy again.`);
+      }
+      await logStep('branch', 'running', `Deploying ${upstream} at ${deployment.sourceRef} (${commitSha.slice(0, 7)})`);
+    } else {
+      const mainRef = forkOutsideTemplate
+        ? await github.getRef(template.owner, template.repo, `heads/${template.defaultBranch}`)
+        : await github.getRef(login!, repo, `heads/${template.defaultBranch}`);
+      commitSha = mainRef.object.sha;
+    }
+    await github.createRef(login!, repo, `heads/${branchName}`, commitSha);
+
+    await storage.updateDeployment(deployment.id, { branchName, commitSha });
+    if (instance) {
+      await storage.updateBotInstance(instance.id, { branchName });
+    }
+    await logStep('branch', 'success', `Branch '${branchName}' created successfully`);
+    return { branchName, commitSha };
+  },
+};
+
+export const configStep: PipelineStep<DeployState> = {
+  name: 'config',
+  async run({ login, branchName, refreshConfig, commitSha }, { deployment, github, logStep }) {
+    const { sessionId } = deployment;
+
+    if (deployment.sessionMode === 'secret') {
+      await logStep('config', 'success', 'Session ID is kept out of the repository, config.js left as is');
+      return;
+    }
+
+    const template = await templateFor(deployment);
+    const repo = deployment.repositoryName;
+    const { configPath } = template;
+
+    await logStep('config', 'running', `Updating ${configPath}...`);
+    let configSha;
+    let existingConfigContent = '';
+    
+    try {
+      const fileData = await github.getContent(login!, repo, configPath, branchName);
+      configSha = fileData.sha;
+      existingConfigContent = Buffer.from(fileData.content, 'base64').toString('utf-8');
+    } catch (error) {
+      // File doesn't exist, create with default structure
+      existingConfigContent = `module.exports = {\n  SESSION_ID: 'session id here'\n};`;
+      console.log(`${configPath} not found, using default structure`);
+    }
+
+    if (refreshConfig) {
+      // Keep the branch file's SHA for the update but start from upstream's
+      // content, as of the commit the branch was cut from
+      const upstreamRef = commitSha ?? deployment.commitSha ?? template.defaultBranch;
+      const upstreamConfig = await ifExists(github.getContent(template.owner, template.repo, configPath, upstreamRef));
+      if (upstreamConfig) {
+        existingConfigContent = Buffer.from(upstreamConfig.content, 'base64').toString('utf-8');
+        await logStep('config', 'running', `Refreshed configuration from ${upstreamName(template)}`);
+      }
+    }
+
+    let updatedConfigContent: string;
+    try {
+      updatedConfigContent = rewriteSessionId(existingConfigContent, sessionId);
+    } catch (error: any) {
+      await logStep('config', 'failed', error.message);
+      throw error;
+    }
+
+    if (configSha) {
+      console.log(`Using SHA for ${configPath} update:`, configSha);
+    } else {
+      console.log(`No SHA provided - creating new ${configPath} file`);
+    }
+    
+    await github.putContent(login!, repo, configPath, {
+      message: `Update ${configPath} for ${branchName}`,
+      content: updatedConfigContent,
+      branch: branchName!,
+      sha: configSha
+    });
+
+    // Also create/update .env file for environment variables
+    try {
+      let envSha;
+      let existingEnvContent = '';
+      
+      try {
+        const envFileData = await github.getContent(login!, repo, '.env', branchName);
+        envSha = envFileData.sha;
+        existingEnvContent = Buffer.from(envFileData.content, 'base64').toString('utf-8');
+      } catch (error) {
+        // .env file doesn't exist, will create new
+        console.log('.env file not found, creating new one');
+      }
+
+      // Update or add SESSION_ID in .env file
+      let updatedEnvContent;
+      if (existingEnvContent.includes('SESSION_ID')) {
+        // Replace existing SESSION_ID in .env
+        updatedEnvContent = existingEnvContent.replace(
+          /SESSION_ID\s*=\s*.*/g,
+          `SESSION_ID=${sessionId}`
+        );
+      } else {
+        // Add SESSION_ID to existing .env content
+        updatedEnvContent = existingEnvContent + (existingEnvContent ? '\n' : '') + `SESSION_ID=${sessionId}`;
+      }
+
+      if (envSha) {
+        console.log('Using SHA for .env update:', envSha);
+      } else {
+        console.log('No SHA provided - creating new .env file');
+      }
+      
+      await github.putContent(login!, repo, '.env', {
+        message: `Update .env with session ID for ${branchName}`,
+        content: updatedEnvContent,
+        branch: branchName!,
+        sha: envSha
+      });
+
+      console.log('.env file updated with SESSION_ID');
+    } catch (error) {
+      console.log('Error updating .env file:', error);
+      // Continue even if .env update fails, since we updated the config fallback
+    }
+
+    await logStep('config', 'success', 'Configuration file updated with session ID');
+  },
+};
+
+// Uploads the session ID as an encrypted Actions secret for the workflow to
+// read. Only runs for deployments in `secret` session mode.
+export const sessionSecretStep: PipelineStep<DeployState> = {
+  name: 'session-secret',
+  async run({ login }, { deployment, github, logStep }) {
+    if (deployment.sessionMode !== 'secret') return;
+
+    const name = sessionSecretName(deployment.id);
+    await logStep('session-secret', 'running', `Storing the session ID as Actions secret ${name}...`);
+    const publicKey = await github.getActionsPublicKey(login!, deployment.repositoryName);
+    await github.putActionsSecret(login!, deployment.repositoryName, name, await sealSecret(publicKey, deployment.sessionId));
+    await logStep('session-secret', 'success', `Session ID stored as Actions secret ${name}`);
+  },
+};
+
+// Removes a session ID that earlier deploys committed to config.js and .env.
+// It stays in the branch history, so the session itself should be replaced.
+export const scrubSessionStep: PipelineStep<DeployState> = {
+  name: 'scrub-session',
+  async run({ login, branchName }, { deployment, github, logStep }) {
+    const { sessionId } = deployment;
+    const quoted = new RegExp(`(['"\`])${sessionId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\1`, 'g');
+
+    const { configPath } = await templateFor(deployment);
+    const repo = deployment.repositoryName;
+
+    await logStep('scrub-session', 'running', `Removing the session ID from ${configPath} and .env...`);
+    const scrubbed: string[] = [];
+    for (const path of [configPath, '.env']) {
+      const file = await ifExists(github.getContent(login!, repo, path, branchName));
+      if (!file) continue;
+
+      const content = Buffer.from(file.content, 'base64').toString('utf-8');
+      const cleaned = path === '.env'
+        ? content.split('\n').filter((line) => !/^\s*SESSION_ID\s*=/.test(line)).join('\n')
+        : content.replace(quoted, "''");
+      if (cleaned === content) continue;
+
+      await github.putContent(login!, repo, path, {
+        message: `Remove session ID from ${path}`,
+        content: cleaned,
+        branch: branchName!,
+        sha: file.sha,
+      });
+      scrubbed.push(path);
+    }
+
+    await logStep('scrub-session', 'success', scrubbed.length > 0
+      ? `Removed the session ID from ${scrubbed.join(' and ')}`
+      : 'No committed session ID found');
+  },
+};
+
+export const workflowStep: PipelineStep<DeployState> = {
+  name: 'workflow',
+  async run({ login, branchName }, { deployment, github, logStep }) {
+    await logStep('workflow', 'running', 'Creating GitHub Actions workflow...');
+
+    // Deployments without their own workflow options use the template's workflow
+    const { workflowTemplate } = await templateFor(deployment);
+    const workflowContent = await renderWorkflow(deployment.workflowOptions ?? { template: workflowTemplate }, {
+      sessionSecretName: deployment.sessionMode === 'secret' ? sessionSecretName(deployment.id) : null,
+    });
+
+    // Check if workflow file already exists to get SHA for update
+    const existingWorkflow = await ifExists(github.getContent(login!, deployment.repositoryName, `.github/workflows/${WORKFLOW_FILE}`, branchName));
+    if (existingWorkflow) {
+      console.log('Existing workflow file found, will update with SHA:', existingWorkflow.sha);
+    } else {
+      console.log('No existing workflow file found, creating new one');
+    }
+
+    await github.putContent(login!, deployment.repositoryName, `.github/workflows/${WORKFLOW_FILE}`, {
+      message: `Create workflow for ${branchName}`,
+      content: workflowContent,
+      branch: branchName!,
+      sha: existingWorkflow?.sha
+    });
+
+    await logStep('workflow', 'success', 'GitHub Actions workflow created');
+  },
+};
+
+export const deployStep: PipelineStep<DeployState> = {
+  name: 'deploy',
+  async run({ login, branchName }, { deployment, github, logStep }) {
+    const repo = deployment.repositoryName;
+    await logStep('deploy', 'running', 'Triggering deployment workflow...');
+
+    // Wait for GitHub to process the new workflow file and Actions enablement
+    console.log('Waiting for GitHub to process workflow file and Actions settings...');
+    await new Promise(resolve => setTimeout(resolve, 8000)); // Extended wait time for Actions enablement
+
+    try {
+      // First verify the workflow file was created
+      console.log('Verifying workflow file exists...');
+      const workflowCheck = await ifExists(github.getContent(login!, deployment.repositoryName, `.github/workflows/${WORKFLOW_FILE}`, branchName));
+
+      if (!workflowCheck) {
+        throw new Error('Workflow file was not created successfully. Please add the workflow file manually to your repository.');
+      }
+
+      console.log('Workflow file verified, triggering workflow...');
+      console.log(`Triggering workflow: repos/${login}/${repo}/actions/workflows/${WORKFLOW_FILE}/dispatches`);
+      console.log(`Branch: ${branchName}`);
+
+      // The correlation id shows up in the run name so the run can be matched back to this deployment
+      await github.dispatchWorkflow(login!, repo, WORKFLOW_FILE, branchName!, { correlation_id: deployment.id });
+
+      await logStep('deploy', 'success', '✅ Deployment workflow triggered successfully! Check GitHub Actions tab to see progress.');
+    } catch (dispatchError: any) {
+      console.error('Workflow dispatch failed:', dispatchError);
+
+      let errorMessage = 'Failed to trigger workflow';
+      let instructions = '';
+
+      if (isNotFound(dispatchError)) {
+        // Forks created by GitHub always start with workflows disabled
+        errorMessage = '🔒 Fork workflows need manual enablement (one-time setup)';
+        instructions = `GitHub automatically disables workflows on forked repositories for security.
+
+🔧 QUICK FIX (30 seconds):
+1. Open: ${GITHUB_URL}/${login}/${repo}/actions
+2. Click: "I understand my workflows, go ahead and enable them" 
+3. Return here and deploy again
+
+✨ GOOD NEWS: This is only needed once! After enabling, all future deployments will work automatically.
+
+This is a GitHub security requirement that cannot be bypassed via API.`;
+      } else if (dispatchError.status === 403) {
+        errorMessage = 'Insufficient permissions to trigger GitHub Actions';
+        instructions = 'Please ensure you have admin or write access to the repository and try again.';
+      } else {
+        errorMessage = `Workflow dispatch failed: ${dispatchError.message}`;
+        instructions = `Please manually trigger the workflow:
+1. Go to ${GITHUB_URL}/${login}/${repo}/actions
+2. Click on "XYLO-MD-DEPLOY" workflow
+3. Click "Run workflow" and select branch: ${branchName}`;
+      }
+
+      await logStep('deploy', 'failed', `${errorMessage}. ${instructions}`);
+      throw new Error(`${errorMessage}\n\n${instructions}`);
+    }
+
+    return { workflowUrl: `${GITHUB_URL}/${login}/${repo}/actions` };
+  },
+};
+
+export const trackRunStep: PipelineStep<DeployState> = {
+  name: 'track-run',
+  async run({ login, branchName }, { deployment, github, logStep }) {
+    await logStep('track-run', 'running', 'Waiting for the workflow run to start...');
+
+    const run = await waitForDeploymentRun(github, login!, deployment.repositoryName, branchName!, deployment.id, deployment.workflowRunId ?? 0);
+    if (!run) {
+      // Not fatal: log streaming keeps looking for the run
+      await logStep('track-run', 'warning', 'Workflow run has not shown up yet. It will be picked up once GitHub reports it.');
+      return;
+    }
+
+    await logStep('track-run', 'success', `Tracking workflow run #${run.run_number}`);
+    return { workflowRunId: run.id, workflowUrl: run.html_url };
+  },
+};
@@ -0,0 +1,86 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { InsertDeployment } from "@shared/schema";
+import { FakeGitHub } from "./github/fake-server";
+
+const fake = new FakeGitHub({
+  users: { 'gho_alice': 'alice' },
+  repos: { 'alice/XYLO-MD': { 'config.js': "module.exports = { SESSION_ID: '' };" } },
+});
+process.env.GITHUB_API_URL = await fake.listen();
+
+// Modules read the GitHub URLs when they load
+const { storage } = await import("./storage");
+const { ensureDefaultTemplate } = await import("./templates");
+const { cleanupDeployment } = await import("./deployment-cleanup");
+
+const fork = fake.repos.get('alice/XYLO-MD')!;
+
+function addBranch(name: string) {
+  fork.branches.set(name, new Map(fork.branches.get('main')));
+}
+
+async function deploy(fields: Partial<InsertDeployment>, branchOutput?: Record<string, unknown>) {
+  const deployment = await storage.createDeployment({
+    sessionId: 'XYLO-MD~abc123def456',
+    sessionMode: 'committed',
+    githubUsername: 'alice',
+    repositoryName: 'XYLO-MD',
+    status: 'stopped',
+    ...fields,
+  });
+  if (branchOutput) {
+    await storage.saveDeploymentStep({ deploymentId: deployment.id, name: 'branch', position: 4, status: 'success', output: branchOutput });
+  }
+  return deployment;
+}
+
+async function deleteBranchStep(deployment: Awaited<ReturnType<typeof deploy>>) {
+  const { removed, steps } = await cleanupDeployment(deployment, 'gho_alice');
+  expect(removed).toBe(true);
+  return steps.find((step) => step.step === 'delete-branch')!;
+}
+
+beforeAll(async () => {
+  await ensureDefaultTemplate();
+});
+
+afterAll(async () => {
+  await fake.close();
+});
+
+describe('cleanupDeployment', () => {
+  it('deletes the branch with the last deployment on it, whichever cut it', async () => {
+    addBranch('xylo-first');
+    const instance = await storage.createBotInstance({ githubUsername: 'alice', name: 'Reused', sessionId: 'XYLO-MD~abc123def456', branchName: 'xylo-first' });
+    const first = await deploy({ instanceId: instance.id, branchName: 'xylo-first' }, { branchName: 'xylo-first', commitSha: 'abc' });
+    const second = await deploy({ instanceId: instance.id, branchName: 'xylo-first' }, { branchName: 'xylo-first', branchReused: true, commitSha: 'abc' });
+
+    expect(await deleteBranchStep(first)).toEqual({ step: 'delete-branch', status: 'skipped', message: 'Kept branch xylo-first, other deployments still use it' });
+    expect(fork.branches.has('xylo-first')).toBe(true);
+
+    expect(await deleteBranchStep(second)).toEqual({ step: 'delete-branch', status: 'success', message: 'Deleted branch xylo-first' });
+    expect(fork.branches.has('xylo-first')).toBe(false);
+  });
+
+  it('deletes a reused branch once the deployment that cut it is gone', async () => {
+    addBranch('xylo-later');
+    const instance = await storage.createBotInstance({ githubUsername: 'alice', name: 'Later', sessionId: 'XYLO-MD~abc123def456', branchName: 'xylo-later' });
+    const first = await deploy({ instanceId: instance.id, branchName: 'xylo-later' }, { branchName: 'xylo-later', commitSha: 'abc' });
+    const second = await deploy({ instanceId: instance.id, branchName: 'xylo-later' }, { branchName: 'xylo-later', branchReused: true, commitSha: 'abc' });
+
+    expect((await deleteBranchStep(second)).status).toBe('skipped');
+    expect(await deleteBranchStep(first)).toMatchObject({ status: 'success', message: 'Deleted branch xylo-later' });
+    expect(fork.branches.has('xylo-later')).toBe(false);
+  });
+
+  it('keeps branches it did not cut', async () => {
+    addBranch('my-branch');
+    const named = await deploy({ branchName: 'my-branch' });
+    const onMain = await deploy({ branchName: 'main' }, { branchName: 'main', commitSha: 'abc' });
+
+    expect(await deleteBranchStep(named)).toEqual({ step: 'delete-branch', status: 'skipped', message: 'No branch was created by this deployment' });
+    expect((await deleteBranchStep(onMain)).status).toBe('skipped');
+    expect(fork.branches.has('my-branch')).toBe(true);
+    expect(fork.branches.has('main')).toBe(true);
+  });
+});
@@ -0,0 +1,95 @@
+import type { CleanupStepResult, Deployment } from "@shared/schema";
+import { storage } from "./storage";
+import { ifExists } from "./github";
+import { getDeploymentTarget } from "./targets";
+import { createTargetContext } from "./deployment-runner";
+import { templateFor } from "./templates";
+
+// Tears a deployment down: stops the bot, releases what its target holds,
+// deletes its branch, then removes its storage rows. Each step is logged on the
+// deployment as it happens and returned, so a cleanup that stops part way shows
+// what is left behind. The rows are kept when an earlier step fails unless
+// `force` is set, so the delete can be retried.
+export async function cleanupDeployment(deployment: Deployment, token: string, options: { force?: boolean } = {}) {
+  const target = getDeploymentTarget(deployment.target);
+  const ctx = createTargetContext(deployment, token);
+  const { github } = ctx;
+  const owner = deployment.githubUsername;
+  const repo = deployment.repositoryName;
+  const steps: CleanupStepResult[] = [];
+
+  const record = async (result: CleanupStepResult) => {
+    steps.push(result);
+    if (result.step !== 'remove-records') {
+      await storage.createDeploymentLog({
+        deploymentId: deployment.id,
+        step: `cleanup-${result.step}`,
+        status: result.status,
+        message: result.message
+      });
+    }
+  };
+
+  // Only delete a branch the platform cut; the stored name may be one the
+  // user asked for that already existed. A bot instance's later deploys reuse
+  // the branch its first deploy cut, so a reused branch is the platform's too.
+  // Ownership is settled here rather than when deploying: the branch goes with
+  // whichever of its deployments is removed last.
+  const branchStep = (await storage.getDeploymentSteps(deployment.id)).find((step) => step.name === 'branch');
+  const branchShared = (await storage.getDeploymentsByUser(owner)).some(
+    (other) => other.id !== deployment.id && other.repositoryName === repo && other.branchName === deployment.branchName,
+  );
+  const { defaultBranch } = await templateFor(deployment);
+  const ownsBranch = !!deployment.branchName && deployment.branchName !== defaultBranch
+    && branchStep?.status === 'success';
+
+  try {
+    await record({ step: 'stop', status: 'success', message: await target.stop(ctx) });
+  } catch (error: any) {
+    await record({ step: 'stop', status: 'failed', message: `Could not stop the bot: ${error.message}` });
+  }
+
+  if (!target.release) {
+    await record({ step: 'release', status: 'skipped', message: `Nothing to release on ${target.label}` });
+  } else {
+    try {
+      await record({ step: 'release', status: 'success', message: await target.release(ctx) });
+    } catch (error: any) {
+      await record({ step: 'release', status: 'failed', message: `Could not release ${target.label} resources: ${error.message}` });
+    }
+  }
+
+  if (!ownsBranch) {
+    await record({ step: 'delete-branch', status: 'skipped', message: 'No branch was created by this deployment' });
+  } else if (branchShared) {
+    await record({ step: 'delete-branch', status: 'skipped', message: `Kept branch ${deployment.branchName}, other deployments still use it` });
+  } else {
+    try {
+      const ref = `heads/${deployment.branchName}`;
+      if (await ifExists(github.getRef(owner, repo, ref))) {
+        await github.deleteRef(owner, repo, ref);
+        await record({ step: 'delete-branch', status: 'success', message: `Deleted branch ${deployment.branchName}` });
+      } else {
+        await record({ step: 'delete-branch', status: 'success', message: `Branch ${deployment.branchName} was already gone` });
+      }
+    } catch (error: any) {
+      await record({ step: 'delete-branch', status: 'failed', message: `Could not delete branch ${deployment.branchName}: ${error.message}` });
+    }
+  }
+
+  const stepFailed = steps.some((step) => step.status === 'failed');
+  if (stepFailed && !options.force) {
+    await record({ step: 'remove-records', status: 'skipped', message: 'Kept the deployment so the cleanup can be retried' });
+    await storage.updateDeployment(deployment.id, { message: 'Cleanup incomplete, see logs' });
+    return { removed: false, steps };
+  }
+
+  try {
+    const removed = await storage.deleteDeployment(deployment.id);
+    await record({ step: 'remove-records', status: 'success', message: removed ? 'Removed deployment, logs and step records' : 'Deployment was already removed' });
+    return { removed: true, steps };
+  } catch (error: any) {
+    await record({ step: 'remove-records', status: 'failed', message: `Could not remove deployment records: ${error.message}` });
+    return { removed: false, steps };
+  }
+}
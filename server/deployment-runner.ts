@@ -0,0 +1,97 @@
+import type { Deployment } from "@shared/schema";
+import { storage } from "./storage";
+import { GitHubClient } from "./github";
+import { getDeploymentTarget, type DeploymentTarget, type TargetContext, type TargetUpdate } from "./targets";
+
+export function createTargetContext(deployment: Deployment, token: string): TargetContext {
+  const logStep = async (step: string, status: string, message: string) => {
+    await storage.createDeploymentLog({
+      deploymentId: deployment.id,
+      step,
+      status,
+      message
+    });
+  };
+
+  return { deployment, github: new GitHubClient(token), token, logStep };
+}
+
+// Stops the bot on its target and logs what was stopped
+export async function stopOnTarget(target: DeploymentTarget, ctx: TargetContext) {
+  await ctx.logStep('stop', 'running', 'Stopping the bot...');
+  const message = await target.stop(ctx);
+  await ctx.logStep('stop', 'success', message);
+  return message;
+}
+
+// Runs a lifecycle on the deployment's target and records the outcome on the deployment
+async function runOnTarget(
+  deployment: Deployment,
+  token: string,
+  startMessage: string,
+  lifecycle: (target: DeploymentTarget, ctx: TargetContext) => Promise<TargetUpdate>,
+) {
+  const target = getDeploymentTarget(deployment.target);
+  const ctx = createTargetContext(deployment, token);
+
+  await storage.updateDeployment(deployment.id, {
+    status: 'running',
+    message: startMessage
+  });
+
+  try {
+    const updates = await lifecycle(target, ctx);
+
+    await storage.updateDeployment(deployment.id, {
+      status: 'running',
+      message: `Bot is now running on ${target.label}`,
+      ...updates
+    });
+  } catch (error: any) {
+    console.error('Deployment error:', error);
+
+    await storage.updateDeployment(deployment.id, {
+      status: 'failed',
+      message: error.message
+    });
+    await ctx.logStep('error', 'failed', error.message);
+
+    throw error;
+  }
+}
+
+// Provisions and starts (or resumes) a deployment
+export function runDeployment(deployment: Deployment, token: string, options: { resume?: boolean } = {}) {
+  return runOnTarget(deployment, token, 'Deployment started', async (target, ctx) => {
+    const provisioned = await target.provision(ctx, options);
+    // Start works from what provisioning recorded, e.g. the branch name
+    const started = await target.start({ ...ctx, deployment: { ...ctx.deployment, ...provisioned } }, options);
+    return { ...provisioned, ...started };
+  });
+}
+
+export function restartDeployment(deployment: Deployment, token: string) {
+  return runOnTarget(deployment, token, 'Restart started', async (target, ctx) => {
+    await stopOnTarget(target, ctx);
+    return target.start(ctx);
+  });
+}
+
+// Picks up changes committed to the branch, such as edited settings, and
+// starts the bot again
+export function reconfigureDeployment(deployment: Deployment, token: string) {
+  return runOnTarget(deployment, token, 'Applying configuration', async (target, ctx) => {
+    await stopOnTarget(target, ctx);
+    await target.provision(ctx, { sync: true });
+    return target.start(ctx);
+  });
+}
+
+// Rebuilds config from upstream before starting the bot again
+export function redeployDeployment(deployment: Deployment, token: string) {
+  return runOnTarget(deployment, token, 'Redeploy started', async (target, ctx) => {
+    await stopOnTarget(target, ctx);
+    await target.provision(ctx, { refresh: true });
+    return target.start(ctx);
+  });
+}
@@ -0,0 +1,40 @@
+import { EventEmitter } from "events";
+import type { Deployment, DeploymentLog } from "@shared/schema";
+
+type LogListener = (log: DeploymentLog) => void;
+type DeploymentListener = (deployment: Deployment) => void;
+
+// In-process pub/sub for deployment activity. Storage publishes every log and
+// deployment update it writes; the logs WebSocket subscribes per deployment.
+class DeploymentEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per connected WebSocket subscription
+    this.emitter.setMaxListeners(0);
+  }
+
+  publishLog(log: DeploymentLog) {
+    this.emitter.emit(`log:${log.deploymentId}`, log);
+  }
+
+  onLog(deploymentId: string, listener: LogListener): () => void {
+    this.emitter.on(`log:${deploymentId}`, listener);
+    return () => {
+      this.emitter.off(`log:${deploymentId}`, listener);
+    };
+  }
+
+  publishDeployment(deployment: Deployment) {
+    this.emitter.emit(`deployment:${deployment.id}`, deployment);
+  }
+
+  onDeployment(deploymentId: string, listener: DeploymentListener): () => void {
+    this.emitter.on(`deployment:${deploymentId}`, listener);
+    return () => {
+      this.emitter.off(`deployment:${deploymentId}`, listener);
+    };
+  }
+}
+
+export const deploymentEvents = new DeploymentEventBus();
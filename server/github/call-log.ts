@@ -0,0 +1,22 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// A request that changed something on GitHub, i.e. anything but a GET
+export interface GitHubCall {
+  method: string;
+  path: string;
+  status: number;
+}
+
+const activeLog = new AsyncLocalStorage<GitHubCall[]>();
+
+// Runs `fn`, appending to `calls` every mutating request any GitHubClient makes
+// within it, including from async work it starts. Nested collectors take over
+// from the outer one.
+export function collectGitHubCalls<T>(calls: GitHubCall[], fn: () => T): T {
+  return activeLog.run(calls, fn);
+}
+
+export function recordGitHubCall(call: GitHubCall) {
+  if (call.method.toUpperCase() === 'GET') return;
+  activeLog.getStore()?.push(call);
+}
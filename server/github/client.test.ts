@@ -0,0 +1,155 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { GitHubClient, rateLimitedUntil } from "./client";
+import { GitHubApiError, GitHubRateLimitError, ifExists } from "./errors";
+import { collectGitHubCalls, type GitHubCall } from "./call-log";
+
+// Answers each request with the next scripted response and remembers what it was sent
+let script: ((req: IncomingMessage, res: ServerResponse) => void)[] = [];
+let received: { method?: string; url?: string; headers: IncomingMessage['headers'] }[] = [];
+let server: Server;
+let baseUrl: string;
+let tokens = 0;
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}) {
+  return (_req: IncomingMessage, res: ServerResponse) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers }).end(JSON.stringify(body));
+  };
+}
+
+// Rate limits and ETags are cached per token, so every test gets its own
+function client() {
+  return new GitHubClient(`token-${++tokens}`, baseUrl);
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    received.push({ method: req.method, url: req.url, headers: req.headers });
+    const respond = script.shift() ?? json(500, { message: 'Unexpected request' });
+    respond(req, res);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  script = [];
+  received = [];
+});
+
+describe('GitHubClient', () => {
+  it('sends the token and query string', async () => {
+    script = [json(200, [{ name: 'v1.0.0', commit: { sha: 'abc' } }])];
+
+    const tags = await client().listTags('alice', 'XYLO-MD', 5);
+
+    expect(tags).toEqual([{ name: 'v1.0.0', commit: { sha: 'abc' } }]);
+    expect(received[0]).toMatchObject({ method: 'GET', url: '/repos/alice/XYLO-MD/tags?per_page=5' });
+    expect(received[0].headers.authorization).toBe(`token token-${tokens}`);
+  });
+
+  it('turns error responses into GitHubApiError', async () => {
+    script = [json(404, { message: 'Not Found', documentation_url: 'https://docs.github.com/rest' })];
+
+    const error = await client().getRepo('alice', 'missing').catch((error) => error);
+
+    expect(error).toBeInstanceOf(GitHubApiError);
+    expect(error).toMatchObject({ message: 'Not Found', status: 404, method: 'GET', path: 'repos/alice/missing' });
+    expect(error.data).toEqual({ message: 'Not Found', documentation_url: 'https://docs.github.com/rest' });
+  });
+
+  it('resolves a 404 to null through ifExists', async () => {
+    script = [json(404, { message: 'Not Found' }), json(422, { message: 'Validation Failed' })];
+    const github = client();
+
+    expect(await ifExists(github.getBranch('alice', 'XYLO-MD', 'gone'))).toBeNull();
+    await expect(ifExists(github.getBranch('alice', 'XYLO-MD', 'bad'))).rejects.toMatchObject({ status: 422 });
+  });
+
+  it('retries after a secondary rate limit', async () => {
+    script = [
+      json(403, { message: 'You have exceeded a secondary rate limit' }, { 'Retry-After': '0' }),
+      json(429, { message: 'Too many requests' }, { 'Retry-After': '0' }),
+      json(200, { login: 'alice' }),
+    ];
+
+    expect(await client().getAuthenticatedUser()).toEqual({ login: 'alice' });
+    expect(received).toHaveLength(3);
+  });
+
+  it('gives up when GitHub keeps asking it to wait', async () => {
+    const limited = json(403, { message: 'You have exceeded a secondary rate limit' }, { 'Retry-After': '0' });
+    script = [limited, limited, limited, limited];
+
+    await expect(client().getAuthenticatedUser()).rejects.toBeInstanceOf(GitHubRateLimitError);
+    expect(received).toHaveLength(4);
+  });
+
+  it('does not hold a request open for a long Retry-After', async () => {
+    script = [json(403, { message: 'You have exceeded a secondary rate limit' }, { 'Retry-After': '120' })];
+    const github = client();
+
+    const error = await github.getAuthenticatedUser().catch((error) => error);
+
+    expect(error).toBeInstanceOf(GitHubRateLimitError);
+    expect(error.resetAt).toBeGreaterThan(Date.now() + 100 * 1000);
+    expect(received).toHaveLength(1);
+    expect(rateLimitedUntil(`token-${tokens}`)).toBe(error.resetAt);
+  });
+
+  it('reports a spent primary rate limit', async () => {
+    const resetAt = Math.floor(Date.now() / 1000) + 600;
+    script = [json(403, { message: 'API rate limit exceeded' }, { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': String(resetAt) })];
+    const github = client();
+
+    await expect(github.getAuthenticatedUser()).rejects.toMatchObject({ name: 'GitHubRateLimitError', resetAt: resetAt * 1000 });
+    expect(rateLimitedUntil(`token-${tokens}`)).toBe(resetAt * 1000);
+  });
+
+  it('revalidates cached responses with their ETag', async () => {
+    script = [
+      json(200, { name: 'XYLO-MD', default_branch: 'main' }, { ETag: '"v1"' }),
+      (_req, res) => res.writeHead(304).end(),
+      json(200, { name: 'XYLO-MD', default_branch: 'dev' }, { ETag: '"v2"' }),
+    ];
+    const github = client();
+
+    expect(await github.getRepo('alice', 'XYLO-MD')).toMatchObject({ default_branch: 'main' });
+    expect(await github.getRepo('alice', 'XYLO-MD')).toMatchObject({ default_branch: 'main' });
+    expect(await github.getRepo('alice', 'XYLO-MD')).toMatchObject({ default_branch: 'dev' });
+    expect(received.map((request) => request.headers['if-none-match'])).toEqual([undefined, '"v1"', '"v1"']);
+  });
+
+  it('keeps ETags per token', async () => {
+    script = [
+      json(200, { login: 'alice' }, { ETag: '"alice"' }),
+      json(200, { login: 'bob' }, { ETag: '"bob"' }),
+    ];
+
+    await client().getAuthenticatedUser();
+    expect(await client().getAuthenticatedUser()).toEqual({ login: 'bob' });
+    expect(received[1].headers['if-none-match']).toBeUndefined();
+  });
+
+  it('records the mutating requests made inside collectGitHubCalls', async () => {
+    script = [json(200, { login: 'alice' }), (_req, res) => res.writeHead(204).end(), json(404, { message: 'Not Found' })];
+    const github = client();
+    const calls: GitHubCall[] = [];
+
+    await collectGitHubCalls(calls, async () => {
+      await github.getAuthenticatedUser();
+      await github.dispatchWorkflow('alice', 'XYLO-MD', 'deploy.yml', 'main');
+      await ifExists(github.deleteActionsSecret('alice', 'XYLO-MD', 'SESSION_ID'));
+    });
+
+    expect(calls).toEqual([
+      { method: 'POST', path: 'repos/alice/XYLO-MD/actions/workflows/deploy.yml/dispatches', status: 204 },
+      { method: 'DELETE', path: 'repos/alice/XYLO-MD/actions/secrets/SESSION_ID', status: 404 },
+    ]);
+  });
+});
@@ -0,0 +1,300 @@
+import axios, { type Method } from "axios";
+import { createHash } from "crypto";
+import { GITHUB_API_URL } from "../config";
+import { GitHubApiError, GitHubRateLimitError } from "./errors";
+import { recordGitHubCall } from "./call-log";
+import type {
+  ActionsPermissions,
+  ActionsPublicKey,
+  GitHubBranch,
+  GitHubCommit,
+  GitHubComparison,
+  GitHubContentFile,
+  GitHubContentUpdate,
+  GitHubRef,
+  GitHubRelease,
+  GitHubRepo,
+  GitHubTag,
+  GitHubUser,
+  MergeUpstreamResult,
+  WorkflowJob,
+  WorkflowRun,
+} from "./types";
+
+// Secondary rate limits ask us to wait a little; anything longer than this is
+// surfaced to the caller instead of holding the request open
+const MAX_RETRY_WAIT = 60 * 1000;
+const MAX_RETRIES = 3;
+const ETAG_CACHE_SIZE = 500;
+
+interface RequestOptions {
+  body?: any;
+  query?: Record<string, string | number | undefined>;
+  // Plain-text responses such as job logs; these skip the ETag cache
+  text?: boolean;
+}
+
+interface RateLimitState {
+  remaining: number;
+  resetAt: number; // epoch ms
+}
+
+// Shared by all clients so every request made with a token counts against the
+// same state, keyed by a hash of the token
+const rateLimits = new Map<string, RateLimitState>();
+const etagCache = new Map<string, { etag: string; data: any }>();
+
+function tokenKey(token: string) {
+  return createHash('sha256').update(token).digest('hex').substring(0, 16);
+}
+
+// When requests with this token should resume, or null if it has more than
+// `reserve` requests left in the current window
+export function rateLimitedUntil(token: string, reserve = 0): number | null {
+  const state = rateLimits.get(tokenKey(token));
+  if (!state || state.resetAt <= Date.now() || state.remaining > reserve) return null;
+  return state.resetAt;
+}
+
+function cacheResponse(key: string, etag: string, data: any) {
+  etagCache.delete(key);
+  etagCache.set(key, { etag, data });
+  if (etagCache.size > ETAG_CACHE_SIZE) {
+    // Maps iterate in insertion order, so the first key is the least recently used
+    etagCache.delete(etagCache.keys().next().value!);
+  }
+}
+
+export class GitHubClient {
+  private key: string;
+
+  constructor(private token: string, private baseUrl = GITHUB_API_URL) {
+    this.key = tokenKey(token);
+  }
+
+  async request<T>(method: Method, path: string, options: RequestOptions = {}): Promise<T> {
+    const query = Object.entries(options.query ?? {})
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(String(value))}`)
+      .join('&');
+    const url = `${this.baseUrl}/${path}${query ? `?${query}` : ''}`;
+    const cacheKey = `${this.key} ${url}`;
+    const cached = method === 'GET' && !options.text ? etagCache.get(cacheKey) : undefined;
+
+    for (let attempt = 0; ; attempt++) {
+      console.log(`GitHub API ${method} ${path}`, options.body ? { hasData: true, keys: Object.keys(options.body) } : { hasData: false });
+
+      const response = await axios({
+        method,
+        url,
+        headers: {
+          'Authorization': `token ${this.token}`,
+          'Accept': 'application/vnd.github.v3+json',
+          'User-Agent': 'xylo-md-deployment',
+          ...(cached ? { 'If-None-Match': cached.etag } : {}),
+        },
+        data: options.body,
+        responseType: options.text ? 'text' : 'json',
+        validateStatus: () => true,
+      });
+
+      this.recordRateLimit(response.headers);
+      recordGitHubCall({ method, path, status: response.status });
+
+      if (response.status === 304 && cached) {
+        cacheResponse(cacheKey, cached.etag, cached.data);
+        return cached.data as T;
+      }
+
+      if (response.status >= 200 && response.status < 300) {
+        const etag = response.headers['etag'];
+        if (method === 'GET' && !options.text && etag) {
+          cacheResponse(cacheKey, etag, response.data);
+        }
+        return response.data as T;
+      }
+
+      const data = response.data;
+      const message = (data && typeof data === 'object' && data.message) || response.statusText || `HTTP ${response.status}`;
+
+      if (response.status === 403 || response.status === 429) {
+        const retryAfter = response.headers['retry-after'];
+        const secondary = retryAfter !== undefined || /secondary rate limit/i.test(message);
+        if (secondary) {
+          // GitHub asks for at least a minute when it sends no Retry-After
+          const wait = retryAfter !== undefined ? Number(retryAfter) * 1000 : 60 * 1000;
+          if (attempt < MAX_RETRIES && wait <= MAX_RETRY_WAIT) {
+            console.log(`GitHub secondary rate limit on ${method} ${path}, retrying in ${wait}ms`);
+            await new Promise(resolve => setTimeout(resolve, wait));
+            continue;
+          }
+          rateLimits.set(this.key, { remaining: 0, resetAt: Date.now() + wait });
+          throw new GitHubRateLimitError(method, path, Date.now() + wait, data);
+        }
+
+        if (response.headers['x-ratelimit-remaining'] === '0') {
+          throw new GitHubRateLimitError(method, path, Number(response.headers['x-ratelimit-reset']) * 1000, data);
+        }
+      }
+
+      console.error(`GitHub API Error ${method} ${path}:`, {
+        status: response.status,
+        statusText: response.statusText,
+        message,
+        errors: data?.errors,
+      });
+      throw new GitHubApiError(message, response.status, method, path, data);
+    }
+  }
+
+  private recordRateLimit(headers: any) {
+    const remaining = headers['x-ratelimit-remaining'];
+    const reset = headers['x-ratelimit-reset'];
+    if (remaining !== undefined && reset !== undefined) {
+      rateLimits.set(this.key, { remaining: Number(remaining), resetAt: Number(reset) * 1000 });
+    }
+  }
+
+  // Users
+
+  getAuthenticatedUser() {
+    return this.request<GitHubUser>('GET', 'user');
+  }
+
+  // Repositories and forks
+
+  getRepo(owner: string, repo: string) {
+    return this.request<GitHubRepo>('GET', `repos/${owner}/${repo}`);
+  }
+
+  createFork(owner: string, repo: string) {
+    return this.request<GitHubRepo>('POST', `repos/${owner}/${repo}/forks`, { body: {} });
+  }
+
+  // Compares `base...head`; `head` may name a fork's branch as `login:branch`
+  compareCommits(owner: string, repo: string, base: string, head: string) {
+    return this.request<GitHubComparison>('GET', `repos/${owner}/${repo}/compare/${base}...${head}`);
+  }
+
+  // Brings a fork's branch up to date with its parent. GitHub answers 409 when
+  // the two have conflicting changes.
+  mergeUpstream(owner: string, repo: string, branch: string) {
+    return this.request<MergeUpstreamResult>('POST', `repos/${owner}/${repo}/merge-upstream`, { body: { branch } });
+  }
+
+  getBranch(owner: string, repo: string, branch: string) {
+    return this.request<GitHubBranch>('GET', `repos/${owner}/${repo}/branches/${encodeURIComponent(branch)}`);
+  }
+
+  // Commits, tags and releases
+
+  // Resolves `ref` (a branch, tag or commit SHA) to the commit it names
+  getCommit(owner: string, repo: string, ref: string) {
+    return this.request<GitHubCommit>('GET', `repos/${owner}/${repo}/commits/${encodeURIComponent(ref)}`);
+  }
+
+  listTags(owner: string, repo: string, per_page = 30) {
+    return this.request<GitHubTag[]>('GET', `repos/${owner}/${repo}/tags`, { query: { per_page } });
+  }
+
+  listReleases(owner: string, repo: string, per_page = 30) {
+    return this.request<GitHubRelease[]>('GET', `repos/${owner}/${repo}/releases`, { query: { per_page } });
+  }
+
+  // Git refs; `ref` is relative to refs/, e.g. `heads/main`
+
+  getRef(owner: string, repo: string, ref: string) {
+    return this.request<GitHubRef>('GET', `repos/${owner}/${repo}/git/ref/${ref}`);
+  }
+
+  createRef(owner: string, repo: string, ref: string, sha: string) {
+    return this.request<GitHubRef>('POST', `repos/${owner}/${repo}/git/refs`, { body: { ref: `refs/${ref}`, sha } });
+  }
+
+  deleteRef(owner: string, repo: string, ref: string) {
+    return this.request<void>('DELETE', `repos/${owner}/${repo}/git/refs/${ref}`);
+  }
+
+  // Contents
+
+  getContent(owner: string, repo: string, path: string, ref?: string) {
+    return this.request<GitHubContentFile>('GET', `repos/${owner}/${repo}/contents/${path}`, { query: { ref } });
+  }
+
+  // Creates or updates a file. `content` is plain text; pass the current `sha`
+  // when updating, or GitHub rejects the write as a conflict.
+  async putContent(owner: string, repo: string, path: string, file: { message: string; content: string; branch: string; sha?: string }) {
+    try {
+      return await this.request<GitHubContentUpdate>('PUT', `repos/${owner}/${repo}/contents/${path}`, {
+        body: { ...file, content: Buffer.from(file.content).toString('base64') },
+      });
+    } catch (error) {
+      if (error instanceof GitHubApiError && (error.status === 409 || error.message.includes('sha'))) {
+        throw new GitHubApiError(
+          `File update failed: ${error.message}. This usually means the file was modified since we last checked it.`,
+          error.status,
+          error.method,
+          error.path,
+          error.data,
+        );
+      }
+      throw error;
+    }
+  }
+
+  // Actions
+
+  getActionsPermissions(owner: string, repo: string) {
+    return this.request<ActionsPermissions>('GET', `repos/${owner}/${repo}/actions/permissions`);
+  }
+
+  setActionsPermissions(owner: string, repo: string, permissions: ActionsPermissions) {
+    return this.request<void>('PUT', `repos/${owner}/${repo}/actions/permissions`, { body: permissions });
+  }
+
+  dispatchWorkflow(owner: string, repo: string, workflow: string, ref: string, inputs?: Record<string, string>) {
+    return this.request<void>('POST', `repos/${owner}/${repo}/actions/workflows/${workflow}/dispatches`, {
+      body: inputs ? { ref, inputs } : { ref },
+    });
+  }
+
+  // Actions secrets. Values must be sealed with the repo's public key, see sealSecret().
+
+  getActionsPublicKey(owner: string, repo: string) {
+    return this.request<ActionsPublicKey>('GET', `repos/${owner}/${repo}/actions/secrets/public-key`);
+  }
+
+  putActionsSecret(owner: string, repo: string, name: string, secret: { encrypted_value: string; key_id: string }) {
+    return this.request<void>('PUT', `repos/${owner}/${repo}/actions/secrets/${name}`, { body: secret });
+  }
+
+  deleteActionsSecret(owner: string, repo: string, name: string) {
+    return this.request<void>('DELETE', `repos/${owner}/${repo}/actions/secrets/${name}`);
+  }
+
+  // Workflow runs and jobs
+
+  listWorkflowRuns(owner: string, repo: string, workflow: string, filters: { branch?: string; event?: string; per_page?: number } = {}) {
+    return this.request<{ total_count: number; workflow_runs: WorkflowRun[] }>(
+      'GET',
+      `repos/${owner}/${repo}/actions/workflows/${workflow}/runs`,
+      { query: filters },
+    );
+  }
+
+  getWorkflowRun(owner: string, repo: string, runId: number) {
+    return this.request<WorkflowRun>('GET', `repos/${owner}/${repo}/actions/runs/${runId}`);
+  }
+
+  cancelWorkflowRun(owner: string, repo: string, runId: number) {
+    return this.request<void>('POST', `repos/${owner}/${repo}/actions/runs/${runId}/cancel`);
+  }
+
+  listRunJobs(owner: string, repo: string, runId: number) {
+    return this.request<{ total_count: number; jobs: WorkflowJob[] }>('GET', `repos/${owner}/${repo}/actions/runs/${runId}/jobs`);
+  }
+
+  downloadJobLogs(owner: string, repo: string, jobId: number) {
+    return this.request<string>('GET', `repos/${owner}/${repo}/actions/jobs/${jobId}/logs`, { text: true });
+  }
+}
@@ -0,0 +1,36 @@
+// A non-2xx response from GitHub. Keeps the status and body so callers can
+// branch on them instead of matching error messages.
+export class GitHubApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public method: string,
+    public path: string,
+    public data?: any,
+  ) {
+    super(message);
+    this.name = 'GitHubApiError';
+  }
+}
+
+// The primary rate limit is spent; requests with this token fail until `resetAt`
+export class GitHubRateLimitError extends GitHubApiError {
+  constructor(method: string, path: string, public resetAt: number, data?: any) {
+    super(`GitHub API rate limit exceeded until ${new Date(resetAt).toISOString()}`, 403, method, path, data);
+    this.name = 'GitHubRateLimitError';
+  }
+}
+
+export function isNotFound(error: unknown) {
+  return error instanceof GitHubApiError && error.status === 404;
+}
+
+// Resolves to null instead of throwing when GitHub answers 404
+export async function ifExists<T>(request: Promise<T>): Promise<T | null> {
+  try {
+    return await request;
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    throw error;
+  }
+}
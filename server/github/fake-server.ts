@@ -0,0 +1,589 @@
+import express, { type Request, type Response, type NextFunction } from "express";
+import { createServer, type Server } from "http";
+import { createHash, randomBytes } from "crypto";
+
+// An in-memory stand-in for the parts of github.com and api.github.com this
+// app uses. Start it, then point GITHUB_URL and GITHUB_API_URL at it to run
+// the whole setup -> deploy -> logs flow offline.
+//
+// Covered: OAuth code exchange, `user`, repos and forks, branches and git
+// refs, commits, tags and releases, compare and merge-upstream, the contents API (with SHA conflict
+// checks), actions permissions and secrets, workflow dispatch, runs, jobs and
+// job logs. Runs only change state when told to through `completeRun`, or
+// after `runStartDelay` when that is set.
+
+interface FakeFile {
+  content: string; // utf-8
+  sha: string;
+}
+
+interface FakeRepo {
+  id: number;
+  owner: string;
+  name: string;
+  fork: boolean;
+  parent?: string; // full name
+  defaultBranch: string;
+  actionsEnabled: boolean;
+  // Random X25519 key; secrets are stored sealed, as uploaded
+  publicKey: { key_id: string; key: string };
+  secrets: Map<string, { encryptedValue: string; keyId: string; updatedAt: string }>;
+  // Branch name -> path -> file
+  branches: Map<string, Map<string, FakeFile>>;
+  // Tag name -> the files it points at
+  tags: Map<string, Map<string, FakeFile>>;
+  releases: FakeRelease[];
+  // Forks: the parent's branches as of the fork or the last merge-upstream,
+  // standing in for the merge base when comparing and syncing
+  upstreamBase?: Map<string, Map<string, FakeFile>>;
+}
+
+interface FakeRelease {
+  tagName: string;
+  name: string;
+  prerelease: boolean;
+  publishedAt: string;
+}
+
+export interface FakeRun {
+  id: number;
+  runNumber: number;
+  repo: string; // full name
+  workflow: string;
+  branch: string;
+  displayTitle: string;
+  inputs: Record<string, string>;
+  status: 'queued' | 'in_progress' | 'completed';
+  conclusion: string | null;
+  createdAt: string;
+  updatedAt: string;
+  log: string[];
+}
+
+export interface FakeGitHubOptions {
+  // Access token -> login
+  users?: Record<string, string>;
+  // Repositories to create up front, keyed by full name, with files on the default branch
+  repos?: Record<string, Record<string, string>>;
+  // Move dispatched runs to in_progress after this many ms
+  runStartDelay?: number;
+}
+
+function blobSha(content: string) {
+  return createHash('sha1').update(`blob ${Buffer.byteLength(content)}\0${content}`).digest('hex');
+}
+
+// Branch heads are derived from their files so equal trees share a SHA
+function treeSha(files: Map<string, FakeFile>) {
+  const entries = Array.from(files.entries()).sort(([a], [b]) => a.localeCompare(b));
+  return createHash('sha1').update(entries.map(([path, file]) => `${path}:${file.sha}`).join('\n')).digest('hex');
+}
+
+// Paths whose file differs between two trees
+function changedPaths(from: Map<string, FakeFile>, to: Map<string, FakeFile>) {
+  const paths = new Set([...Array.from(from.keys()), ...Array.from(to.keys())]);
+  return Array.from(paths).filter((path) => from.get(path)?.sha !== to.get(path)?.sha);
+}
+
+function notFound(res: Response) {
+  res.status(404).json({ message: 'Not Found', documentation_url: 'https://docs.github.com/rest' });
+}
+
+export class FakeGitHub {
+  readonly app = express();
+  readonly repos = new Map<string, FakeRepo>();
+  readonly runs: FakeRun[] = [];
+  readonly users: Map<string, string>;
+  // OAuth codes handed out by /login/oauth/authorize -> token
+  private codes = new Map<string, string>();
+  private server: Server | null = null;
+  private nextId = 1000;
+
+  constructor(private options: FakeGitHubOptions = {}) {
+    this.users = new Map(Object.entries(options.users ?? {}));
+    Object.entries(options.repos ?? {}).forEach(([fullName, files]) => {
+      const [owner, name] = fullName.split('/');
+      this.addRepo(owner, name, files);
+    });
+    this.app.use(express.json());
+    this.app.use(express.urlencoded({ extended: false }));
+    this.routes();
+  }
+
+  async listen(port = 0): Promise<string> {
+    this.server = createServer(this.app);
+    await new Promise<void>((resolve) => this.server!.listen(port, '127.0.0.1', resolve));
+    const address = this.server.address();
+    return `http://127.0.0.1:${typeof address === 'object' && address ? address.port : port}`;
+  }
+
+  async close() {
+    if (!this.server) return;
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  addRepo(owner: string, name: string, files: Record<string, string> = {}, defaultBranch = 'main') {
+    const tree = new Map<string, FakeFile>();
+    Object.entries(files).forEach(([path, content]) => tree.set(path, { content, sha: blobSha(content) }));
+    const repo: FakeRepo = {
+      id: this.nextId++,
+      owner,
+      name,
+      fork: false,
+      defaultBranch,
+      actionsEnabled: true,
+      publicKey: { key_id: randomBytes(8).toString('hex'), key: randomBytes(32).toString('base64') },
+      secrets: new Map(),
+      branches: new Map([[defaultBranch, tree]]),
+      tags: new Map(),
+      releases: [],
+    };
+    this.repos.set(`${owner}/${name}`, repo);
+    return repo;
+  }
+
+  // Tags the default branch's current files, publishing a release for the tag
+  // when `release` is set
+  addTag(fullName: string, tag: string, release?: { name?: string; prerelease?: boolean }) {
+    const repo = this.repos.get(fullName);
+    if (!repo) throw new Error(`No fake repo ${fullName}`);
+    repo.tags.set(tag, new Map(repo.branches.get(repo.defaultBranch)));
+    if (release) {
+      repo.releases.unshift({
+        tagName: tag,
+        name: release.name ?? tag,
+        prerelease: release.prerelease ?? false,
+        publishedAt: new Date().toISOString(),
+      });
+    }
+    return treeSha(repo.tags.get(tag)!);
+  }
+
+  // Finishes a run, or moves it along when given an in-between status
+  completeRun(runId: number, conclusion = 'success', status: FakeRun['status'] = 'completed') {
+    const run = this.runs.find((r) => r.id === runId);
+    if (!run) throw new Error(`No fake run ${runId}`);
+    run.status = status;
+    run.conclusion = status === 'completed' ? conclusion : null;
+    run.updatedAt = new Date().toISOString();
+  }
+
+  appendRunLog(runId: number, ...lines: string[]) {
+    const run = this.runs.find((r) => r.id === runId);
+    if (!run) throw new Error(`No fake run ${runId}`);
+    run.log.push(...lines.map((line) => `${new Date().toISOString()} ${line}`));
+  }
+
+  // Root repository of the fork network the repo belongs to
+  private networkRoot(repo: FakeRepo): FakeRepo {
+    const parent = repo.parent ? this.repos.get(repo.parent) : undefined;
+    return parent ? this.networkRoot(parent) : repo;
+  }
+
+  // Files at a branch, tag or commit SHA. Commits are shared across a fork
+  // network, as on GitHub.
+  private treeAt(repo: FakeRepo, ref: string) {
+    const named = repo.branches.get(ref) ?? repo.tags.get(ref);
+    if (named) return named;
+    const root = this.networkRoot(repo);
+    return Array.from(this.repos.values())
+      .filter((other) => this.networkRoot(other) === root)
+      .flatMap((other) => [...Array.from(other.branches.values()), ...Array.from(other.tags.values())])
+      .find((files) => treeSha(files) === ref);
+  }
+
+  private repoJson(repo: FakeRepo): any {
+    const parent = repo.parent ? this.repos.get(repo.parent) : undefined;
+    const source = this.networkRoot(repo);
+    return {
+      id: repo.id,
+      name: repo.name,
+      full_name: `${repo.owner}/${repo.name}`,
+      html_url: `https://github.com/${repo.owner}/${repo.name}`,
+      fork: repo.fork,
+      default_branch: repo.defaultBranch,
+      ...(parent ? { parent: this.repoJson(parent) } : {}),
+      ...(source !== repo ? { source: this.repoJson(source) } : {}),
+    };
+  }
+
+  private runJson(run: FakeRun) {
+    return {
+      id: run.id,
+      run_number: run.runNumber,
+      name: run.workflow,
+      display_title: run.displayTitle,
+      head_branch: run.branch,
+      event: 'workflow_dispatch',
+      status: run.status,
+      conclusion: run.conclusion,
+      html_url: `https://github.com/${run.repo}/actions/runs/${run.id}`,
+      created_at: run.createdAt,
+      updated_at: run.updatedAt,
+    };
+  }
+
+  private routes() {
+    const app = this.app;
+
+    // OAuth - the authorize page approves straight away
+    app.get('/login/oauth/authorize', (req, res) => {
+      const code = randomBytes(8).toString('hex');
+      const token = String(req.query.login_token || this.users.keys().next().value || 'fake-token');
+      this.codes.set(code, token);
+      const redirect = new URL(String(req.query.redirect_uri));
+      redirect.searchParams.set('code', code);
+      redirect.searchParams.set('state', String(req.query.state ?? ''));
+      res.redirect(redirect.toString());
+    });
+
+    app.post('/login/oauth/access_token', (req, res) => {
+      const token = this.codes.get(req.body.code);
+      if (!token) {
+        return res.json({ error: 'bad_verification_code', error_description: 'The code passed is incorrect or expired.' });
+      }
+      this.codes.delete(req.body.code);
+      res.json({ access_token: token, token_type: 'bearer', scope: 'repo,workflow' });
+    });
+
+    // Everything else is the REST API and needs a known token
+    const auth = (req: Request, res: Response, next: NextFunction) => {
+      const token = (req.headers.authorization || '').replace(/^(token|Bearer) /, '');
+      const login = this.users.get(token);
+      if (!login) {
+        return res.status(401).json({ message: 'Bad credentials' });
+      }
+      res.locals.login = login;
+      next();
+    };
+
+    const withRepo = (req: Request, res: Response, next: NextFunction) => {
+      const repo = this.repos.get(`${req.params.owner}/${req.params.repo}`);
+      if (!repo) return notFound(res);
+      res.locals.repo = repo;
+      next();
+    };
+
+    app.get('/user', auth, (_req, res) => {
+      res.json({ login: res.locals.login, id: 1, name: res.locals.login });
+    });
+
+    app.get('/repos/:owner/:repo', auth, withRepo, (_req, res) => {
+      res.json(this.repoJson(res.locals.repo));
+    });
+
+    app.post('/repos/:owner/:repo/forks', auth, withRepo, (_req, res) => {
+      const source: FakeRepo = res.locals.repo;
+      const login = res.locals.login;
+      // Like GitHub, an account gets one fork per fork network
+      const root = this.networkRoot(source);
+      const existing = this.repos.get(`${login}/${source.name}`)
+        ?? Array.from(this.repos.values()).find((repo) => repo.owner === login && this.networkRoot(repo) === root);
+      if (existing) return res.status(202).json(this.repoJson(existing));
+
+      const fork = this.addRepo(login, source.name, {}, source.defaultBranch);
+      fork.fork = true;
+      fork.parent = `${source.owner}/${source.name}`;
+      // Like GitHub, forks start with workflows disabled
+      fork.actionsEnabled = false;
+      source.branches.forEach((files, branch) => fork.branches.set(branch, new Map(files)));
+      source.tags.forEach((files, tag) => fork.tags.set(tag, files));
+      fork.upstreamBase = new Map(Array.from(source.branches.entries()).map(([branch, files]) => [branch, new Map(files)]));
+      res.status(202).json(this.repoJson(fork));
+    });
+
+    // Changed files stand in for commits: a fork is behind by the files its
+    // parent changed since the fork and ahead by the files it changed itself
+    app.get('/repos/:owner/:repo/compare/:basehead(*)', auth, withRepo, (req, res) => {
+      const repo: FakeRepo = res.locals.repo;
+      const [base, head = ''] = req.params.basehead.split('...');
+      const [headOwner, headBranch] = head.includes(':') ? head.split(':') : [repo.owner, head];
+      const headRepo = Array.from(this.repos.values()).find((other) =>
+        other.owner === headOwner && this.networkRoot(other) === this.networkRoot(repo));
+      const baseFiles = repo.branches.get(base);
+      const headFiles = headRepo?.branches.get(headBranch);
+      if (!baseFiles || !headFiles) return notFound(res);
+
+      const mergeBase = headRepo!.parent === `${repo.owner}/${repo.name}` ? headRepo!.upstreamBase?.get(base) : undefined;
+      const aheadBy = changedPaths(mergeBase ?? baseFiles, headFiles).length;
+      const behindBy = mergeBase ? changedPaths(mergeBase, baseFiles).length : changedPaths(headFiles, baseFiles).length;
+      const status = aheadBy === 0 && behindBy === 0 ? 'identical'
+        : behindBy === 0 ? 'ahead' : aheadBy === 0 ? 'behind' : 'diverged';
+      res.json({
+        status,
+        ahead_by: aheadBy,
+        behind_by: behindBy,
+        html_url: `https://github.com/${repo.owner}/${repo.name}/compare/${req.params.basehead}`,
+      });
+    });
+
+    app.post('/repos/:owner/:repo/merge-upstream', auth, withRepo, (req, res) => {
+      const fork: FakeRepo = res.locals.repo;
+      const branch = String(req.body.branch || '');
+      const parent = fork.parent ? this.repos.get(fork.parent) : undefined;
+      const files = fork.branches.get(branch);
+      const upstream = parent?.branches.get(branch);
+      if (!parent || !files || !upstream) {
+        return res.status(422).json({ message: `Branch ${branch} could not be synced with upstream` });
+      }
+
+      const mergeBase = fork.upstreamBase?.get(branch) ?? upstream;
+      const theirs = changedPaths(mergeBase, upstream);
+      if (theirs.length === 0) {
+        return res.json({ message: 'This branch is not behind the upstream', merge_type: 'none', base_branch: `${parent.owner}:${branch}` });
+      }
+      const ours = changedPaths(mergeBase, files);
+      if (theirs.some((path) => ours.includes(path) && files.get(path)?.sha !== upstream.get(path)?.sha)) {
+        return res.status(409).json({ message: 'There are merge conflicts' });
+      }
+
+      theirs.forEach((path) => {
+        const file = upstream.get(path);
+        if (file) files.set(path, file);
+        else files.delete(path);
+      });
+      fork.upstreamBase = fork.upstreamBase ?? new Map();
+      fork.upstreamBase.set(branch, new Map(upstream));
+      res.json({
+        message: `Successfully fetched and ${ours.length === 0 ? 'fast-forwarded' : 'merged'} from upstream ${parent.owner}:${branch}`,
+        merge_type: ours.length === 0 ? 'fast-forward' : 'merge',
+        base_branch: `${parent.owner}:${branch}`,
+      });
+    });
+
+    app.get('/repos/:owner/:repo/branches/:branch', auth, withRepo, (req, res) => {
+      const files = (res.locals.repo as FakeRepo).branches.get(req.params.branch);
+      if (!files) return notFound(res);
+      res.json({ name: req.params.branch, commit: { sha: treeSha(files) } });
+    });
+
+    // Commits, tags and releases
+    app.get('/repos/:owner/:repo/commits/:ref(*)', auth, withRepo, (req, res) => {
+      const repo: FakeRepo = res.locals.repo;
+      const files = this.treeAt(repo, req.params.ref);
+      if (!files) {
+        return res.status(422).json({ message: `No commit found for SHA: ${req.params.ref}` });
+      }
+      const sha = treeSha(files);
+      res.json({ sha, html_url: `https://github.com/${repo.owner}/${repo.name}/commit/${sha}`, commit: { message: `Commit ${sha.slice(0, 7)}` } });
+    });
+
+    app.get('/repos/:owner/:repo/tags', auth, withRepo, (_req, res) => {
+      const repo: FakeRepo = res.locals.repo;
+      res.json(Array.from(repo.tags.entries()).reverse().map(([name, files]) => ({ name, commit: { sha: treeSha(files) } })));
+    });
+
+    app.get('/repos/:owner/:repo/releases', auth, withRepo, (_req, res) => {
+      res.json((res.locals.repo as FakeRepo).releases.map((release) => ({
+        tag_name: release.tagName,
+        name: release.name,
+        draft: false,
+        prerelease: release.prerelease,
+        published_at: release.publishedAt,
+      })));
+    });
+
+    // Git refs
+    app.get('/repos/:owner/:repo/git/ref/heads/:branch(*)', auth, withRepo, (req, res) => {
+      const files = (res.locals.repo as FakeRepo).branches.get(req.params.branch);
+      if (!files) return notFound(res);
+      res.json({ ref: `refs/heads/${req.params.branch}`, object: { sha: treeSha(files), type: 'commit' } });
+    });
+
+    app.post('/repos/:owner/:repo/git/refs', auth, withRepo, (req, res) => {
+      const repo: FakeRepo = res.locals.repo;
+      const branch = String(req.body.ref || '').replace(/^refs\/heads\//, '');
+      if (repo.branches.has(branch)) {
+        return res.status(422).json({ message: 'Reference already exists' });
+      }
+      const source = this.treeAt(repo, String(req.body.sha || ''));
+      if (!source || treeSha(source) !== req.body.sha) {
+        return res.status(422).json({ message: 'Object does not exist' });
+      }
+      repo.branches.set(branch, new Map(source));
+      res.status(201).json({ ref: `refs/heads/${branch}`, object: { sha: req.body.sha, type: 'commit' } });
+    });
+
+    app.delete('/repos/:owner/:repo/git/refs/heads/:branch(*)', auth, withRepo, (req, res) => {
+      const repo: FakeRepo = res.locals.repo;
+      if (!repo.branches.delete(req.params.branch)) {
+        return res.status(422).json({ message: 'Reference does not exist' });
+      }
+      res.status(204).end();
+    });
+
+    // Contents
+    app.get('/repos/:owner/:repo/contents/:path(*)', auth, withRepo, (req, res) => {
+      const repo: FakeRepo = res.locals.repo;
+      const file = this.treeAt(repo, String(req.query.ref || repo.defaultBranch))?.get(req.params.path);
+      if (!file) return notFound(res);
+      res.json({
+        type: 'file',
+        path: req.params.path,
+        sha: file.sha,
+        content: Buffer.from(file.content).toString('base64'),
+        encoding: 'base64',
+      });
+    });
+
+    app.put('/repos/:owner/:repo/contents/:path(*)', auth, withRepo, (req, res) => {
+      const repo: FakeRepo = res.locals.repo;
+      const files = repo.branches.get(req.body.branch || repo.defaultBranch);
+      if (!files) {
+        return res.status(404).json({ message: `Branch ${req.body.branch} not found` });
+      }
+
+      const existing = files.get(req.params.path);
+      if (existing && !req.body.sha) {
+        return res.status(422).json({ message: `Invalid request.\n\n"sha" wasn't supplied.` });
+      }
+      if (existing && req.body.sha !== existing.sha) {
+        return res.status(409).json({ message: `${req.params.path} does not match ${req.body.sha}` });
+      }
+
+      const content = Buffer.from(req.body.content || '', 'base64').toString('utf-8');
+      const file = { content, sha: blobSha(content) };
+      files.set(req.params.path, file);
+      res.status(existing ? 200 : 201).json({
+        content: { path: req.params.path, sha: file.sha },
+        commit: { sha: treeSha(files), html_url: `https://github.com/${repo.owner}/${repo.name}/commit/${treeSha(files)}` },
+      });
+    });
+
+    // Actions
+    app.get('/repos/:owner/:repo/actions/permissions', auth, withRepo, (_req, res) => {
+      res.json({ enabled: (res.locals.repo as FakeRepo).actionsEnabled, allowed_actions: 'all' });
+    });
+
+    app.put('/repos/:owner/:repo/actions/permissions', auth, withRepo, (req, res) => {
+      (res.locals.repo as FakeRepo).actionsEnabled = req.body.enabled !== false;
+      res.status(204).end();
+    });
+
+    app.get('/repos/:owner/:repo/actions/secrets/public-key', auth, withRepo, (_req, res) => {
+      res.json((res.locals.repo as FakeRepo).publicKey);
+    });
+
+    app.put('/repos/:owner/:repo/actions/secrets/:name', auth, withRepo, (req, res) => {
+      const repo: FakeRepo = res.locals.repo;
+      if (!req.body.encrypted_value || req.body.key_id !== repo.publicKey.key_id) {
+        return res.status(422).json({ message: 'Bad request: encrypted_value and a current key_id are required' });
+      }
+      const existing = repo.secrets.has(req.params.name);
+      repo.secrets.set(req.params.name, {
+        encryptedValue: req.body.encrypted_value,
+        keyId: req.body.key_id,
+        updatedAt: new Date().toISOString(),
+      });
+      res.status(existing ? 204 : 201).end();
+    });
+
+    app.delete('/repos/:owner/:repo/actions/secrets/:name', auth, withRepo, (req, res) => {
+      if (!(res.locals.repo as FakeRepo).secrets.delete(req.params.name)) return notFound(res);
+      res.status(204).end();
+    });
+
+    app.post('/repos/:owner/:repo/actions/workflows/:workflow/dispatches', auth, withRepo, (req, res) => {
+      const repo: FakeRepo = res.locals.repo;
+      const workflowPath = `.github/workflows/${req.params.workflow}`;
+      const workflowFile = repo.branches.get(req.body.ref)?.get(workflowPath);
+      if (!repo.actionsEnabled || !workflowFile) return notFound(res);
+
+      const inputs: Record<string, string> = req.body.inputs || {};
+      // Enough of run-name to support `${{ inputs.x }}` substitutions
+      const runName = workflowFile.content.match(/^run-name:\s*(.+)$/m)?.[1] ?? req.params.workflow;
+      const displayTitle = runName.replace(/\\?\$\{\{\s*inputs\.(\w+)\s*\}\}/g, (_match, name) => inputs[name] ?? '');
+      const now = new Date().toISOString();
+      const run: FakeRun = {
+        id: this.nextId++,
+        runNumber: this.runs.filter((r) => r.repo === `${repo.owner}/${repo.name}`).length + 1,
+        repo: `${repo.owner}/${repo.name}`,
+        workflow: req.params.workflow,
+        branch: req.body.ref,
+        displayTitle,
+        inputs,
+        status: 'queued',
+        conclusion: null,
+        createdAt: now,
+        updatedAt: now,
+        log: [],
+      };
+      this.runs.push(run);
+
+      if (this.options.runStartDelay !== undefined) {
+        setTimeout(() => {
+          if (run.status !== 'queued') return;
+          this.completeRun(run.id, '', 'in_progress');
+          this.appendRunLog(run.id, '##[group]Run npm start', '\u001b[32mBot started\u001b[0m');
+        }, this.options.runStartDelay);
+      }
+      res.status(204).end();
+    });
+
+    app.get('/repos/:owner/:repo/actions/workflows/:workflow/runs', auth, withRepo, (req, res) => {
+      const repo: FakeRepo = res.locals.repo;
+      const runs = this.runs
+        .filter((run) => run.repo === `${repo.owner}/${repo.name}` && run.workflow === req.params.workflow)
+        .filter((run) => !req.query.branch || run.branch === req.query.branch)
+        .filter((run) => !req.query.event || req.query.event === 'workflow_dispatch')
+        .reverse()
+        .slice(0, Number(req.query.per_page) || 30);
+      res.json({ total_count: runs.length, workflow_runs: runs.map((run) => this.runJson(run)) });
+    });
+
+    const withRun = (req: Request, res: Response, next: NextFunction) => {
+      const run = this.runs.find((r) => r.id === Number(req.params.runId) && r.repo === `${req.params.owner}/${req.params.repo}`);
+      if (!run) return notFound(res);
+      res.locals.run = run;
+      next();
+    };
+
+    app.get('/repos/:owner/:repo/actions/runs/:runId', auth, withRun, (_req, res) => {
+      res.json(this.runJson(res.locals.run));
+    });
+
+    app.post('/repos/:owner/:repo/actions/runs/:runId/cancel', auth, withRun, (_req, res) => {
+      const run: FakeRun = res.locals.run;
+      if (run.status === 'completed') {
+        return res.status(409).json({ message: 'Cannot cancel a workflow run that is completed.' });
+      }
+      this.completeRun(run.id, 'cancelled');
+      res.status(202).json({});
+    });
+
+    // Each run has a single job whose id is the run id
+    app.get('/repos/:owner/:repo/actions/runs/:runId/jobs', auth, withRun, (_req, res) => {
+      const run: FakeRun = res.locals.run;
+      const started = run.status === 'queued' ? null : run.createdAt;
+      res.json({
+        total_count: 1,
+        jobs: [{
+          id: run.id,
+          run_id: run.id,
+          name: 'deploy',
+          status: run.status,
+          conclusion: run.conclusion,
+          started_at: started,
+          completed_at: run.status === 'completed' ? run.updatedAt : null,
+          steps: started ? [{
+            number: 1,
+            name: 'Run Bot with Detailed Logging',
+            status: run.status,
+            conclusion: run.conclusion,
+            started_at: started,
+            completed_at: run.status === 'completed' ? run.updatedAt : null,
+          }] : [],
+        }],
+      });
+    });
+
+    app.get('/repos/:owner/:repo/actions/jobs/:jobId/logs', auth, (req, res) => {
+      const run = this.runs.find((r) => r.id === Number(req.params.jobId) && r.repo === `${req.params.owner}/${req.params.repo}`);
+      if (!run) return notFound(res);
+      res.type('text/plain').send(run.log.join('\n'));
+    });
+
+    app.use((_req, res) => notFound(res));
+  }
+}
@@ -0,0 +1,5 @@
+export { GitHubClient, rateLimitedUntil } from "./client";
+export { sealSecret } from "./secrets";
+export { collectGitHubCalls, type GitHubCall } from "./call-log";
+export { GitHubApiError, GitHubRateLimitError, isNotFound, ifExists } from "./errors";
+export type * from "./types";
@@ -0,0 +1,11 @@
+import sodium from "libsodium-wrappers";
+import type { ActionsPublicKey } from "./types";
+
+// Encrypts a secret value for the Actions secrets API: a libsodium sealed box
+// against the repository's public key, base64 encoded as GitHub expects.
+export async function sealSecret(publicKey: ActionsPublicKey, value: string) {
+  await sodium.ready;
+  const key = sodium.from_base64(publicKey.key, sodium.base64_variants.ORIGINAL);
+  const sealed = sodium.crypto_box_seal(sodium.from_string(value), key);
+  return { encrypted_value: sodium.to_base64(sealed, sodium.base64_variants.ORIGINAL), key_id: publicKey.key_id };
+}
@@ -0,0 +1,120 @@
+// The parts of GitHub's REST responses this app reads. GitHub returns many
+// more fields; add them here as they are needed.
+
+export interface GitHubUser {
+  login: string;
+  id: number;
+  name?: string | null;
+}
+
+export interface GitHubRepo {
+  id: number;
+  name: string;
+  full_name: string;
+  html_url: string;
+  fork: boolean;
+  default_branch: string;
+  parent?: GitHubRepo;
+  source?: GitHubRepo; // Root of the fork network
+}
+
+export interface GitHubBranch {
+  name: string;
+  commit: { sha: string };
+}
+
+export interface GitHubRef {
+  ref: string;
+  object: { sha: string; type: string };
+}
+
+export interface GitHubCommit {
+  sha: string;
+  html_url: string;
+  commit: { message: string };
+}
+
+export interface GitHubTag {
+  name: string;
+  commit: { sha: string };
+}
+
+export interface GitHubRelease {
+  tag_name: string;
+  name: string | null;
+  draft: boolean;
+  prerelease: boolean;
+  published_at: string | null;
+}
+
+// Result of comparing two commits, possibly across forks
+export interface GitHubComparison {
+  status: "identical" | "ahead" | "behind" | "diverged";
+  ahead_by: number; // Commits in head that base lacks
+  behind_by: number; // Commits in base that head lacks
+  html_url: string;
+}
+
+export interface MergeUpstreamResult {
+  message: string;
+  merge_type: "none" | "fast-forward" | "merge";
+  base_branch: string;
+}
+
+export interface GitHubContentFile {
+  type: "file";
+  path: string;
+  sha: string;
+  content: string; // base64
+  encoding: string;
+}
+
+export interface GitHubContentUpdate {
+  content: { path: string; sha: string };
+  commit: { sha: string; html_url: string };
+}
+
+export interface ActionsPermissions {
+  enabled: boolean;
+  allowed_actions?: "all" | "local_only" | "selected";
+}
+
+// Key Actions secrets must be sealed with before upload
+export interface ActionsPublicKey {
+  key_id: string;
+  key: string; // base64
+}
+
+export interface WorkflowRun {
+  id: number;
+  run_number: number;
+  name: string;
+  display_title: string;
+  head_branch: string;
+  event: string;
+  status: "queued" | "in_progress" | "completed" | "waiting" | "requested" | "pending";
+  conclusion: string | null;
+  html_url: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkflowJobStep {
+  number: number;
+  name: string;
+  status: string;
+  conclusion: string | null;
+  started_at?: string | null;
+  completed_at?: string | null;
+}
+
+export interface WorkflowJob {
+  id: number;
+  run_id: number;
+  name: string;
+  status: string;
+  conclusion: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  steps?: WorkflowJobStep[];
+}
@@ -0,0 +1,147 @@
+import type { DeploymentJob, InsertDeploymentJob } from "@shared/schema";
+import { storage } from "./storage";
+import { openToken } from "./token-crypto";
+import { runDeployment, restartDeployment, redeployDeployment, reconfigureDeployment } from "./deployment-runner";
+import { SYSTEM_ACTOR, auditDeployment, withAuditEvent } from "./audit";
+
+export type JobHandler = (job: DeploymentJob) => Promise<void>;
+
+interface JobQueueOptions {
+  concurrency: number;
+  perUserConcurrency: number;
+}
+
+// Runs deployment work in the background. Jobs are persisted through IStorage,
+// so anything queued or interrupted by a restart is picked up again on start().
+export class JobQueue {
+  private running = new Map<string, DeploymentJob>();
+  private draining = false;
+  private drainRequested = false;
+
+  constructor(private handlers: Record<string, JobHandler>, private options: JobQueueOptions) {}
+
+  async start() {
+    const unfinished = await storage.getUnfinishedDeploymentJobs();
+    for (const job of unfinished) {
+      if (job.status === 'running') {
+        // The process died mid-job; step records let the handler continue from there
+        await storage.updateDeploymentJob(job.id, { status: 'queued' });
+      }
+    }
+    if (unfinished.length > 0) {
+      console.log(`Recovered ${unfinished.length} unfinished deployment jobs`);
+    }
+    this.drain();
+  }
+
+  async enqueue(job: Pick<InsertDeploymentJob, 'deploymentId' | 'githubUsername' | 'kind'>): Promise<DeploymentJob> {
+    const created = await storage.createDeploymentJob({ ...job, status: 'queued', attempts: 0 });
+    this.drain();
+    return created;
+  }
+
+  private runningFor(githubUsername: string) {
+    let count = 0;
+    this.running.forEach((job) => {
+      if (job.githubUsername === githubUsername) count++;
+    });
+    return count;
+  }
+
+  private async drain() {
+    if (this.draining) {
+      this.drainRequested = true;
+      return;
+    }
+    this.draining = true;
+
+    try {
+      do {
+        this.drainRequested = false;
+        const queued = (await storage.getUnfinishedDeploymentJobs()).filter(
+          (job) => job.status === 'queued' && !this.running.has(job.id),
+        );
+
+        for (const job of queued) {
+          if (this.running.size >= this.options.concurrency) break;
+          if (this.runningFor(job.githubUsername) >= this.options.perUserConcurrency) continue;
+          this.launch(job);
+        }
+      } while (this.drainRequested);
+    } catch (error) {
+      console.error('Error draining deployment job queue:', error);
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private async launch(job: DeploymentJob) {
+    this.running.set(job.id, job);
+
+    try {
+      const handler = this.handlers[job.kind];
+      if (!handler) {
+        throw new Error(`No handler registered for job kind: ${job.kind}`);
+      }
+
+      const started = await storage.updateDeploymentJob(job.id, { status: 'running', attempts: job.attempts + 1 });
+      const deployment = await storage.getDeployment(job.deploymentId);
+      await withAuditEvent({
+        githubUsername: job.githubUsername,
+        actor: SYSTEM_ACTOR,
+        action: `job.${job.kind}`,
+        ...(deployment ? auditDeployment(deployment) : { deploymentId: job.deploymentId }),
+      }, () => handler(started ?? job));
+      await storage.updateDeploymentJob(job.id, { status: 'completed', error: null });
+    } catch (error: any) {
+      console.error(`Deployment job ${job.id} (${job.kind}) failed:`, error.message);
+      await storage.updateDeploymentJob(job.id, { status: 'failed', error: error.message });
+    } finally {
+      this.running.delete(job.id);
+      this.drain();
+    }
+  }
+}
+
+async function loadJobDeployment(job: DeploymentJob) {
+  const deployment = await storage.getDeployment(job.deploymentId);
+  if (!deployment) {
+    throw new Error(`Deployment ${job.deploymentId} not found`);
+  }
+  if (!deployment.githubToken) {
+    throw new Error(`No GitHub token stored for deployment ${deployment.id}`);
+  }
+  return { deployment, token: openToken(deployment.githubToken) };
+}
+
+async function runDeployJob(job: DeploymentJob) {
+  const { deployment, token } = await loadJobDeployment(job);
+
+  // Always resume: on a first run there are no step records, and after a
+  // restart or an explicit resume the completed steps are skipped
+  await runDeployment(deployment, token, { resume: true });
+}
+
+// Restarts and redeploys are cheap to repeat, so they always run from the top
+async function runRestartJob(job: DeploymentJob) {
+  const { deployment, token } = await loadJobDeployment(job);
+  await restartDeployment(deployment, token);
+}
+
+async function runRedeployJob(job: DeploymentJob) {
+  const { deployment, token } = await loadJobDeployment(job);
+  await redeployDeployment(deployment, token);
+}
+
+async function runReconfigureJob(job: DeploymentJob) {
+  const { deployment, token } = await loadJobDeployment(job);
+  await reconfigureDeployment(deployment, token);
+}
+
+export const deploymentQueue = new JobQueue(
+  { deploy: runDeployJob, restart: runRestartJob, redeploy: runRedeployJob, reconfigure: runReconfigureJob },
+  {
+    concurrency: parseInt(process.env.DEPLOY_CONCURRENCY || '4', 10),
+    perUserConcurrency: parseInt(process.env.DEPLOY_CONCURRENCY_PER_USER || '1', 10),
+  },
+);
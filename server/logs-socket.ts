@@ -0,0 +1,363 @@
+import type { IncomingMessage, Server } from "http";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocketServer, type WebSocket } from "ws";
+import type { DeploymentLog, WorkflowStepLog } from "@shared/schema";
+import { storage } from "./storage";
+import { deploymentEvents } from "./events";
+import { openToken } from "./token-crypto";
+import { GitHubClient, ifExists, type WorkflowJob } from "./github";
+import { parseJobLog } from "./workflow-logs";
+import { syncDeploymentRun } from "./workflow-runs";
+
+// Job logs are re-downloaded in full each time, so poll them less often than step summaries
+const JOB_LOG_INTERVAL = 10000;
+
+// Client protocol on /api/logs-ws, for deployments of the logged-in user:
+//   -> { type: 'subscribe', deploymentId, cursor? }
+//   <- { type: 'error', deploymentId, error }       the deployment is not the user's or does not exist
+//   <- { type: 'log', deploymentId, log, cursor }   one per deployment log, replayed after `cursor`
+//   <- { type: 'logs', deploymentId, logs }         GitHub Actions step summaries, polled
+//   <- { type: 'workflow-lines', deploymentId, jobId, stepNumber, stepName, offset, lines }
+//                                                   GitHub Actions job output lines from `offset` on
+export function setupLogsSocket(server: Server, sessionMiddleware: RequestHandler) {
+  // WebSocket server for live logs - use path to avoid Vite HMR conflicts
+  const wss = new WebSocketServer({ 
+    server,
+    path: '/api/logs-ws' // Specific path to avoid conflicts with Vite HMR
+  });
+  
+  // Store active log streams
+  const activeStreams = new Map<string, Set<WebSocket>>();
+  // Deployments that already have a GitHub polling loop
+  const pollingDeployments = new Set<string>();
+  // Parsed job output per deployment, keyed by `${jobId}:${stepNumber}`
+  const jobOutput = new Map<string, Map<string, WorkflowStepLog>>();
+  // When each job's log was last downloaded, keyed by `${deploymentId}:${jobId}`
+  const jobLogFetchedAt = new Map<string, number>();
+
+  function broadcast(deploymentId: string, payload: object) {
+    const message = JSON.stringify(payload);
+    activeStreams.get(deploymentId)?.forEach((client) => {
+      if (client.readyState === client.OPEN) {
+        client.send(message);
+      }
+    });
+  }
+
+  function workflowLinesMessage(deploymentId: string, stepLog: WorkflowStepLog, offset: number) {
+    return {
+      type: 'workflow-lines',
+      deploymentId,
+      jobId: stepLog.jobId,
+      stepNumber: stepLog.stepNumber,
+      stepName: stepLog.stepName,
+      offset,
+      lines: stepLog.lines.slice(offset)
+    };
+  }
+
+  function stopPolling(deploymentId: string) {
+    pollingDeployments.delete(deploymentId);
+    jobOutput.delete(deploymentId);
+    Array.from(jobLogFetchedAt.keys())
+      .filter((key) => key.startsWith(`${deploymentId}:`))
+      .forEach((key) => jobLogFetchedAt.delete(key));
+  }
+
+  // Downloads job logs and pushes only the lines subscribers have not seen yet
+  async function streamJobOutput(github: GitHubClient, deploymentId: string, owner: string, repo: string, jobs: WorkflowJob[]) {
+    if (!jobOutput.has(deploymentId)) {
+      jobOutput.set(deploymentId, new Map());
+    }
+    const cache = jobOutput.get(deploymentId)!;
+
+    for (const job of jobs) {
+      if (job.status === 'queued') continue;
+
+      const fetchKey = `${deploymentId}:${job.id}`;
+      const lastFetched = jobLogFetchedAt.get(fetchKey);
+      // Completed jobs never change, so download them once
+      if (lastFetched === Infinity || (lastFetched && Date.now() - lastFetched < JOB_LOG_INTERVAL)) continue;
+
+      let raw: string | null = null;
+      try {
+        raw = await ifExists(github.downloadJobLogs(owner, repo, job.id));
+      } catch (error: any) {
+        console.error(`Error downloading logs for job ${job.id}:`, error.message);
+      }
+      jobLogFetchedAt.set(fetchKey, job.status === 'completed' && raw ? Infinity : Date.now());
+      if (typeof raw !== 'string') continue;
+
+      for (const stepLog of parseJobLog(job.id, raw, job.steps || [])) {
+        const key = `${stepLog.jobId}:${stepLog.stepNumber}`;
+        const sent = cache.get(key)?.lines.length ?? 0;
+        cache.set(key, stepLog);
+        if (stepLog.lines.length > sent) {
+          broadcast(deploymentId, workflowLinesMessage(deploymentId, stepLog, sent));
+        }
+      }
+    }
+  }
+
+  function sendLog(ws: WebSocket, log: DeploymentLog) {
+    if (ws.readyState !== ws.OPEN) return;
+    ws.send(JSON.stringify({
+      type: 'log',
+      deploymentId: log.deploymentId,
+      log,
+      cursor: log.sequence
+    }));
+  }
+
+  // Replays stored logs after the client's cursor, then forwards new ones as
+  // they are published. Logs published during the replay are held back so the
+  // client always receives them in sequence order. `subscriptions` holds the
+  // socket's listeners per deployment; subscribing again (e.g. when the client
+  // reconnects with a newer cursor) replaces them.
+  async function subscribeToLogs(ws: WebSocket, deploymentId: string, cursor: number, subscriptions: Map<string, () => void>) {
+    subscriptions.get(deploymentId)?.();
+    let lastSent = cursor;
+    let pending: DeploymentLog[] | null = [];
+
+    const unsubscribe = deploymentEvents.onLog(deploymentId, (log) => {
+      if (pending) {
+        pending.push(log);
+      } else if (log.sequence > lastSent) {
+        lastSent = log.sequence;
+        sendLog(ws, log);
+      }
+    });
+
+    // Live status, so the page does not have to wait for its next poll
+    const unsubscribeStatus = deploymentEvents.onDeployment(deploymentId, (deployment) => {
+      if (ws.readyState !== ws.OPEN) return;
+      ws.send(JSON.stringify({
+        type: 'status',
+        deploymentId,
+        status: deployment.status,
+        message: deployment.message,
+        updatedAt: deployment.updatedAt
+      }));
+    });
+    subscriptions.set(deploymentId, () => {
+      unsubscribe();
+      unsubscribeStatus();
+    });
+
+    try {
+      const missed = await storage.getDeploymentLogs(deploymentId, cursor);
+      for (const log of [...missed, ...pending]) {
+        if (log.sequence > lastSent) {
+          lastSent = log.sequence;
+          sendLog(ws, log);
+        }
+      }
+    } finally {
+      pending = null;
+    }
+  }
+
+  // The upgrade request carries the session cookie, so the session middleware
+  // can load it like for any other request
+  function loadSessionUser(req: IncomingMessage) {
+    return new Promise<string | undefined>((resolve) => {
+      sessionMiddleware(req as Request, {} as Response, () => resolve((req as Request).session?.githubUsername));
+    });
+  }
+
+  // WebSocket connection handler
+  wss.on('connection', (ws, req) => {
+    console.log('WebSocket client connected to logs endpoint');
+    const sessionUser = loadSessionUser(req);
+    // Event bus listeners per subscribed deployment
+    const subscriptions = new Map<string, () => void>();
+    
+    ws.on('message', async (message) => {
+      try {
+        const data = JSON.parse(message.toString());
+        if (data.type === 'subscribe' && data.deploymentId) {
+          // Only the deployment's owner may follow it
+          const [username, deployment] = await Promise.all([sessionUser, storage.getDeployment(data.deploymentId)]);
+          if (!username || !deployment || deployment.githubUsername !== username) {
+            ws.send(JSON.stringify({ type: 'error', deploymentId: data.deploymentId, error: 'Deployment not found' }));
+            return;
+          }
+
+          // Subscribe to deployment logs
+          if (!activeStreams.has(data.deploymentId)) {
+            activeStreams.set(data.deploymentId, new Set());
+          }
+          activeStreams.get(data.deploymentId)!.add(ws);
+          console.log(`Client subscribed to deployment: ${data.deploymentId}`);
+
+          await subscribeToLogs(ws, data.deploymentId, Number(data.cursor) || 0, subscriptions);
+
+          // Catch the new subscriber up on job output already downloaded
+          jobOutput.get(data.deploymentId)?.forEach((stepLog) => {
+            ws.send(JSON.stringify(workflowLinesMessage(data.deploymentId, stepLog, 0)));
+          });
+          
+          // Start streaming workflow logs for this deployment
+          startLogStreaming(data.deploymentId);
+        }
+      } catch (error) {
+        console.error('Error handling WebSocket message:', error);
+      }
+    });
+    
+    ws.on('close', () => {
+      subscriptions.forEach((unsubscribe) => unsubscribe());
+      subscriptions.clear();
+      // Remove from all active streams
+      activeStreams.forEach((clients, deploymentId) => {
+        clients.delete(ws);
+        if (clients.size === 0) {
+          activeStreams.delete(deploymentId);
+        }
+      });
+      console.log('WebSocket client disconnected from logs endpoint');
+    });
+    
+    ws.on('error', (error) => {
+      console.error('WebSocket error:', error);
+    });
+  });
+
+  // Function to fetch GitHub Actions workflow run logs
+  async function fetchWorkflowLogs(github: GitHubClient, deploymentId: string) {
+    try {
+      const deployment = await storage.getDeployment(deploymentId);
+      if (!deployment) return [];
+
+      const owner = deployment.githubUsername;
+      const repo = deployment.repositoryName;
+
+      // Follow the run dispatched for this deployment, not whatever ran last on the fork
+      const latestRun = await syncDeploymentRun(github, deployment);
+      if (!latestRun) return [];
+
+      // Get jobs for the tracked run
+      const jobs = await ifExists(github.listRunJobs(owner, repo, latestRun.id));
+      if (!jobs || !jobs.jobs || jobs.jobs.length === 0) return [];
+
+      await streamJobOutput(github, deploymentId, owner, repo, jobs.jobs);
+
+      const logs = [];
+      for (const job of jobs.jobs) {
+        if (job.steps) {
+          for (const step of job.steps) {
+            if (step.conclusion !== null || step.status === 'in_progress') {
+              logs.push({
+                id: `${job.id}-${step.number}`,
+                timestamp: step.started_at || job.started_at || latestRun.created_at,
+                step: step.name,
+                status: step.conclusion || step.status || 'pending',
+                message: `Step: ${step.name}`,
+                runId: latestRun.id,
+                jobId: job.id,
+                stepNumber: step.number
+              });
+            }
+          }
+        }
+      }
+
+      return logs.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    } catch (error) {
+      console.error('Error fetching workflow logs:', error);
+      return [];
+    }
+  }
+
+  // Function to start log streaming for a deployment
+  async function startLogStreaming(deploymentId: string) {
+    const deployment = await storage.getDeployment(deploymentId);
+    if (!deployment) {
+      console.log(`Deployment ${deploymentId} not found for log streaming`);
+      return;
+    }
+
+    const clients = activeStreams.get(deploymentId);
+    if (!clients || clients.size === 0) {
+      console.log(`No clients connected for deployment ${deploymentId}`);
+      return;
+    }
+
+    // Other targets report through deployment logs, which are already pushed as they are written
+    if (deployment.target !== 'github-actions') return;
+
+    console.log(`Starting log streaming for deployment: ${deploymentId}, status: ${deployment.status}`);
+
+    // Get the user's GitHub token from deployment data
+    if (!deployment.githubToken) {
+      console.error(`No GitHub token found for deployment ${deploymentId}`);
+      return;
+    }
+
+    let github: GitHubClient;
+    try {
+      github = new GitHubClient(openToken(deployment.githubToken));
+    } catch (error) {
+      console.error(`Could not decrypt GitHub token for deployment ${deploymentId}:`, error);
+      return;
+    }
+    
+    if (pollingDeployments.has(deploymentId)) return;
+    pollingDeployments.add(deploymentId);
+    console.log('Using user GitHub token for log streaming');
+
+    const streamLogs = async () => {
+      try {
+        // Refresh deployment status each time
+        const currentDeployment = await storage.getDeployment(deploymentId);
+        if (!currentDeployment) {
+          console.log(`Deployment ${deploymentId} no longer exists, stopping log stream`);
+          stopPolling(deploymentId);
+          return;
+        }
+
+        const logs = await fetchWorkflowLogs(github, deploymentId);
+        console.log(`Fetched ${logs.length} logs for deployment ${deploymentId}`);
+        
+        // Broadcast logs to all connected clients for this deployment
+        const message = JSON.stringify({
+          type: 'logs',
+          deploymentId,
+          logs,
+          timestamp: new Date().toISOString()
+        });
+
+        const currentClients = activeStreams.get(deploymentId);
+        if (currentClients && currentClients.size > 0) {
+          currentClients.forEach(client => {
+            if (client.readyState === 1) { // WebSocket.OPEN
+              console.log(`Sending ${logs.length} logs to client for deployment ${deploymentId}`);
+              client.send(message);
+            }
+          });
+        }
+
+        // Continue streaming if deployment is still running and we have clients
+        const stillHasClients = activeStreams.get(deploymentId)?.size ?? 0 > 0;
+        if ((currentDeployment.status === 'running' || currentDeployment.status === 'pending') && stillHasClients) {
+          setTimeout(streamLogs, 3000); // Poll every 3 seconds for more responsive updates
+        } else {
+          console.log(`Stopping log stream for ${deploymentId}. Status: ${currentDeployment.status}, Clients: ${stillHasClients}`);
+          stopPolling(deploymentId);
+        }
+      } catch (error) {
+        console.error('Error in log streaming:', error);
+        // Retry after error
+        const currentClients = activeStreams.get(deploymentId);
+        if (currentClients && currentClients.size > 0) {
+          setTimeout(streamLogs, 5000);
+        } else {
+          stopPolling(deploymentId);
+        }
+      }
+    };
+
+    // Start streaming immediately
+    streamLogs();
+  }
+}
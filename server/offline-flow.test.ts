@@ -0,0 +1,218 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { WebSocket } from "ws";
+import { FakeGitHub } from "./github/fake-server";
+
+// The setup -> deploy -> logs flow through the HTTP API, with GitHub played
+// by FakeGitHub. The deploy pipeline waits for GitHub in places, so this takes
+// a little while.
+
+const fake = new FakeGitHub({
+  users: { 'gho_alice': 'alice' },
+  repos: {
+    'DAV-EX/XYLO-MD': {
+      'config.js': "module.exports = {\n  SESSION_ID: process.env.SESSION_ID || '',\n  PREFIX: '.',\n};\n",
+      'package.json': '{ "name": "xylo-md", "scripts": { "start": "node index.js" } }',
+    },
+  },
+  runStartDelay: 0,
+});
+const fakeUrl = await fake.listen();
+process.env.GITHUB_URL = fakeUrl;
+process.env.GITHUB_API_URL = fakeUrl;
+
+// Modules read the GitHub URLs when they load
+const { registerRoutes } = await import("./routes");
+const { deploymentReconciler } = await import("./reconciler");
+
+let server: Server;
+let appUrl: string;
+let cookie = '';
+
+// Requests to the app as one browser, keeping its session cookie
+async function call(path: string, init: RequestInit = {}) {
+  const response = await fetch(path.startsWith('http') ? path : `${appUrl}${path}`, {
+    ...init,
+    redirect: 'manual',
+    headers: { 'Content-Type': 'application/json', ...(cookie ? { Cookie: cookie } : {}), ...init.headers },
+  });
+  const setCookie = response.headers.get('set-cookie');
+  if (setCookie) cookie = setCookie.split(';')[0];
+  return response;
+}
+
+// Subscribes to a deployment's live logs and collects messages until `done` says so
+function followLogs(deploymentId: string, done: (messages: any[]) => boolean, headers: Record<string, string> = {}) {
+  return new Promise<any[]>((resolve, reject) => {
+    const ws = new WebSocket(`${appUrl.replace(/^http/, 'ws')}/api/logs-ws`, { headers });
+    const messages: any[] = [];
+    const timeout = setTimeout(() => {
+      ws.close();
+      reject(new Error(`Timed out with ${JSON.stringify(messages.map((message) => message.type))}`));
+    }, 15000);
+    ws.on('open', () => ws.send(JSON.stringify({ type: 'subscribe', deploymentId })));
+    ws.on('message', (data) => {
+      messages.push(JSON.parse(data.toString()));
+      if (done(messages)) {
+        clearTimeout(timeout);
+        ws.close();
+        resolve(messages);
+      }
+    });
+    ws.on('error', reject);
+  });
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  appUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  deploymentReconciler.stop();
+  await new Promise((resolve) => server.close(resolve));
+  await fake.close();
+});
+
+describe('offline setup, deploy and logs', () => {
+  let deploymentId: string;
+
+  it('signs in through GitHub OAuth', async () => {
+    const authorize = await call('/api/auth');
+    expect(authorize.headers.get('location')).toMatch(new RegExp(`^${fakeUrl}/login/oauth/authorize\\?`));
+
+    // The fake approves straight away and sends the browser back with a code
+    const approved = await fetch(authorize.headers.get('location')!, { redirect: 'manual' });
+    const callback = new URL(approved.headers.get('location')!);
+    const signedIn = await call(`${callback.pathname}${callback.search}`);
+    expect(signedIn.headers.get('location')).toMatch(/\/deployments\?authenticated=true$/);
+
+    expect(await (await call('/api/auth/status')).json()).toMatchObject({ authenticated: true, username: 'alice' });
+  });
+
+  it('rejects invalid deploy requests', async () => {
+    const deploy = (body: unknown) => call('/api/deploy', { method: 'POST', body: JSON.stringify(body) });
+
+    const missing = await deploy({ sessionId: ' ' });
+    expect(missing.status).toBe(400);
+    expect(await missing.json()).toEqual({ success: false, error: 'Session ID is required' });
+
+    const target = await deploy({ sessionId: 'XYLO-MD~abc123def456', target: 'mainframe' });
+    expect(target.status).toBe(400);
+    expect((await target.json()).error).toMatch(/^Invalid enum value/);
+
+    const template = await deploy({ sessionId: 'XYLO-MD~abc123def456', templateId: 'nope' });
+    expect(template.status).toBe(400);
+  });
+
+  it('forks the bot template during setup', async () => {
+    const response = await call('/api/setup', { method: 'POST', body: '{}' });
+
+    expect(await response.json()).toMatchObject({ success: true, alreadyExists: false });
+    expect(fake.repos.get('alice/XYLO-MD')).toMatchObject({ fork: true, parent: 'DAV-EX/XYLO-MD', actionsEnabled: false });
+
+    const verify = await (await call('/api/workflows/verify')).json();
+    expect(verify).toMatchObject({
+      hasFork: true,
+      needsFork: false,
+      workflowsEnabled: false,
+      isFirstDeployment: true,
+      enableUrl: `${fakeUrl}/alice/XYLO-MD/actions`,
+    });
+  });
+
+  it('deploys the bot to a branch of the fork', async () => {
+    const response = await call('/api/deploy', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'Main bot', sessionId: 'XYLO-MD~abc123def456', sessionMode: 'committed' }),
+    });
+    expect(response.status).toBe(202);
+    deploymentId = (await response.json()).deploymentId;
+
+    const deployment = await vi.waitFor(async () => {
+      const current = await (await call(`/api/deployments/${deploymentId}`)).json();
+      expect(current.status).not.toBe('failed');
+      expect(current.workflowRunId).toBeTruthy();
+      return current;
+    }, { timeout: 30000, interval: 500 });
+
+    expect(deployment).toMatchObject({ status: 'running', message: 'Bot is now running on GitHub Actions' });
+    expect(deployment.githubToken).toBeUndefined();
+
+    const fork = fake.repos.get('alice/XYLO-MD')!;
+    expect(fork.actionsEnabled).toBe(true);
+    const branch = fork.branches.get(deployment.branchName)!;
+    expect(branch.get('config.js')!.content).toContain("process.env.SESSION_ID || 'XYLO-MD~abc123def456'");
+    expect(branch.get('.github/workflows/deploy.yml')).toBeDefined();
+    expect(fake.runs).toEqual([expect.objectContaining({ id: deployment.workflowRunId, branch: deployment.branchName, status: 'in_progress' })]);
+  }, 40000);
+
+  it('shows the deploy steps and the bot output', async () => {
+    const logs: { step: string; status: string }[] = await (await call(`/api/deployments/${deploymentId}/logs`)).json();
+    const finished = logs.filter((log) => log.status === 'success').map((log) => log.step);
+    expect(finished).toEqual(expect.arrayContaining(['init', 'fork', 'actions-enable', 'branch', 'config', 'workflow', 'deploy', 'track-run']));
+
+    fake.appendRunLog(fake.runs[0].id, 'Connected to WhatsApp');
+    const output = await (await call(`/api/deployments/${deploymentId}/output`)).json();
+    expect(output.lines).toEqual(['Run npm start', 'Bot started', 'Connected to WhatsApp']);
+  });
+
+  it('streams the deploy steps and job output to the owner', async () => {
+    const messages = await followLogs(deploymentId, (received) => received.some((message) => message.type === 'workflow-lines'), { Cookie: cookie });
+
+    expect(messages.filter((message) => message.type === 'log').map((message) => message.log.step)).toContain('track-run');
+    const lines = messages.find((message) => message.type === 'workflow-lines');
+    expect(lines).toMatchObject({ deploymentId, stepName: 'Run Bot with Detailed Logging', offset: 0 });
+    expect(lines.lines.map((line: { text: string }) => line.text)).toEqual(['Run npm start', 'Bot started', 'Connected to WhatsApp']);
+  }, 20000);
+
+  it('replaces a subscription when the client subscribes again', async () => {
+    const { storage } = await import("./storage");
+    const cursor = (await storage.getDeploymentLogs(deploymentId)).at(-2)!.sequence;
+
+    const ws = new WebSocket(`${appUrl.replace(/^http/, 'ws')}/api/logs-ws`, { headers: { Cookie: cookie } });
+    const messages: any[] = [];
+    ws.on('message', (data) => messages.push(JSON.parse(data.toString())));
+    await new Promise((resolve) => ws.once('open', resolve));
+    const logMessages = () => messages.filter((message) => message.type === 'log').map((message) => message.log.message);
+
+    // Each subscribe replays the last log
+    ws.send(JSON.stringify({ type: 'subscribe', deploymentId, cursor }));
+    ws.send(JSON.stringify({ type: 'subscribe', deploymentId, cursor }));
+    await vi.waitFor(() => expect(logMessages()).toHaveLength(2));
+
+    await storage.createDeploymentLog({ deploymentId, step: 'test', status: 'info', message: 'Sent once' });
+    await vi.waitFor(() => expect(logMessages()).toContain('Sent once'));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    ws.close();
+
+    expect(logMessages().filter((message) => message === 'Sent once')).toHaveLength(1);
+  });
+
+  it('keeps other users out', async () => {
+    const owner = cookie;
+    cookie = '';
+    expect((await call(`/api/deployments/${deploymentId}`)).status).toBe(401);
+
+    const messages = await followLogs(deploymentId, (received) => received.length > 0);
+    expect(messages).toEqual([{ type: 'error', deploymentId, error: 'Deployment not found' }]);
+
+    // Signed in as someone else
+    fake.users.set('gho_bob', 'bob');
+    const authorize = await call('/api/auth');
+    const approved = await fetch(`${authorize.headers.get('location')}&login_token=gho_bob`, { redirect: 'manual' });
+    const callback = new URL(approved.headers.get('location')!);
+    await call(`${callback.pathname}${callback.search}`);
+    expect(cookie).not.toBe(owner);
+
+    expect((await call(`/api/deployments/${deploymentId}`)).status).toBe(404);
+    expect(await followLogs(deploymentId, (received) => received.length > 0, { Cookie: cookie })).toEqual([
+      { type: 'error', deploymentId, error: 'Deployment not found' },
+    ]);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { storage } from "./storage";
+import { createTargetContext } from "./deployment-runner";
+import { Pipeline, PipelineStepError, isScopedStep, type PipelineStep } from "./pipeline";
+
+interface State {
+  runs: string[];
+}
+
+function step(name: string, fail = false): PipelineStep<State> {
+  return {
+    name,
+    async run({ runs }) {
+      if (fail) throw new Error(`${name} failed`);
+      return { runs: [...runs, name] };
+    },
+  };
+}
+
+async function context() {
+  const deployment = await storage.createDeployment({ sessionId: 'XYLO~session', githubUsername: 'alice', repositoryName: 'XYLO-MD' });
+  return createTargetContext(deployment, 'gho_alice');
+}
+
+async function records(deploymentId: string) {
+  return (await storage.getDeploymentSteps(deploymentId)).map((record) => [record.name, record.status]);
+}
+
+describe('Pipeline', () => {
+  it('resumes after the steps that succeeded', async () => {
+    const ctx = await context();
+    await expect(new Pipeline([step('config'), step('workflow', true)]).run(ctx, { runs: [] })).rejects.toBeInstanceOf(PipelineStepError);
+
+    const state = await new Pipeline([step('config'), step('workflow')]).run(ctx, { runs: [] }, { resume: true });
+
+    expect(state.runs).toEqual(['config', 'workflow']);
+    expect(await records(ctx.deployment.id)).toEqual([['config', 'success'], ['workflow', 'success']]);
+  });
+
+  it('keeps the records of a scoped pipeline apart from the deploy', async () => {
+    const ctx = await context();
+    await expect(new Pipeline([step('config'), step('workflow', true)]).run(ctx, { runs: [] })).rejects.toThrow('workflow failed');
+
+    await new Pipeline([step('config'), step('workflow')], 'refresh').run(ctx, { runs: [] });
+    const steps = await storage.getDeploymentSteps(ctx.deployment.id);
+
+    expect(steps.map((record) => [record.name, record.status])).toEqual([
+      ['config', 'success'],
+      ['refresh/config', 'success'],
+      ['workflow', 'failed'],
+      ['refresh/workflow', 'success'],
+    ]);
+    expect(steps.find((record) => !isScopedStep(record) && record.status !== 'success')?.name).toBe('workflow');
+
+    const resumed = await new Pipeline([step('config'), step('workflow')]).run(ctx, { runs: [] }, { resume: true });
+    expect(resumed.runs).toEqual(['config', 'workflow']);
+  });
+});
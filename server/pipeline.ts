@@ -0,0 +1,92 @@
+import type { Deployment } from "@shared/schema";
+import { storage } from "./storage";
+import type { GitHubClient } from "./github";
+
+export interface StepContext {
+  deployment: Deployment;
+  github: GitHubClient;
+  // Plain token, for steps that reach GitHub outside the client (e.g. git clone)
+  token: string;
+  logStep: (step: string, status: string, message: string) => Promise<void>;
+}
+
+// A named unit of work. It receives everything earlier steps produced and
+// returns the values it adds; those outputs are persisted so a failed run can
+// pick up where it stopped.
+export interface PipelineStep<S extends object> {
+  name: string;
+  run: (input: Readonly<S>, ctx: StepContext) => Promise<Partial<S> | void>;
+}
+
+export class PipelineStepError extends Error {
+  constructor(public step: string, public cause: unknown) {
+    super(cause instanceof Error ? cause.message : String(cause));
+    this.name = 'PipelineStepError';
+  }
+}
+
+// Whether a step record belongs to a scoped pipeline rather than the deploy itself
+export function isScopedStep(record: { name: string }) {
+  return record.name.includes('/');
+}
+
+export class Pipeline<S extends object> {
+  // Pipelines that rework a deployment after its deploy (redeploy, session
+  // migration) pass a scope: their steps are recorded as `<scope>/<step>` and
+  // never replace the records a resumed deploy picks up from.
+  constructor(private steps: PipelineStep<S>[], private scope?: string) {}
+
+  async run(ctx: StepContext, initialState: S, options: { resume?: boolean } = {}): Promise<S> {
+    const deploymentId = ctx.deployment.id;
+    const records = options.resume ? await storage.getDeploymentSteps(deploymentId) : [];
+    let state = { ...initialState };
+
+    for (let position = 0; position < this.steps.length; position++) {
+      const step = this.steps[position];
+      const name = this.scope ? `${this.scope}/${step.name}` : step.name;
+      const record = records.find((r) => r.name === name);
+      if (record?.status === 'success') {
+        state = { ...state, ...(record.output as Partial<S> | null) };
+        continue;
+      }
+
+      const input = { ...state };
+      await storage.saveDeploymentStep({
+        deploymentId,
+        name,
+        position,
+        status: 'running',
+        input,
+        output: null,
+        error: null,
+      });
+
+      try {
+        const output = (await step.run(input, ctx)) || {};
+        state = { ...state, ...output };
+        await storage.saveDeploymentStep({
+          deploymentId,
+          name,
+          position,
+          status: 'success',
+          input,
+          output,
+          error: null,
+        });
+      } catch (error: any) {
+        await storage.saveDeploymentStep({
+          deploymentId,
+          name,
+          position,
+          status: 'failed',
+          input,
+          output: null,
+          error: error.message,
+        });
+        throw new PipelineStepError(step.name, error);
+      }
+    }
+
+    return state;
+  }
+}
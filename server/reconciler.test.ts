@@ -0,0 +1,113 @@
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, afterEach, describe, expect, it, vi } from "vitest";
+import type { InsertDeployment } from "@shared/schema";
+import { FakeGitHub } from "./github/fake-server";
+
+const fake = new FakeGitHub({
+  users: { 'gho_alice': 'alice', 'gho_limited': 'alice' },
+  repos: { 'alice/XYLO-MD': { 'config.js': "module.exports = { SESSION_ID: '' };" } },
+});
+process.env.GITHUB_API_URL = await fake.listen();
+process.env.RECONCILE_INTERVAL_MS = '1000';
+
+// Modules read the GitHub URL and interval when they load
+const { storage } = await import("./storage");
+const { sealToken } = await import("./token-crypto");
+const { GitHubClient } = await import("./github");
+const { DeploymentReconciler } = await import("./reconciler");
+
+async function deploy(fields: Partial<InsertDeployment> = {}, token = 'gho_alice') {
+  return storage.createDeployment({
+    sessionId: 'XYLO-MD~abc123def456',
+    githubUsername: 'alice',
+    repositoryName: 'XYLO-MD',
+    githubToken: sealToken(token),
+    status: 'running',
+    branchName: 'main',
+    ...fields,
+  });
+}
+
+afterEach(async () => {
+  vi.useRealTimers();
+  // Leave nothing for the next test to reconcile
+  for (const deployment of await storage.getDeploymentsByStatus(['pending', 'running'])) {
+    await storage.updateDeployment(deployment.id, { status: 'stopped' });
+  }
+});
+
+afterAll(async () => {
+  await fake.close();
+});
+
+describe('DeploymentReconciler', () => {
+  it('marks deployments whose branch is gone stale', async () => {
+    const gone = await deploy({ branchName: 'xylo-gone' });
+    const waiting = await deploy();
+
+    expect(await new DeploymentReconciler().reconcileAll()).toBe(0);
+
+    expect(await storage.getDeployment(gone.id)).toMatchObject({ status: 'stale', message: 'Branch xylo-gone no longer exists in alice/XYLO-MD' });
+    expect((await storage.getDeploymentLogs(gone.id)).map((log) => [log.step, log.status])).toEqual([['reconcile', 'failed']]);
+    // Still within the grace period for its first workflow run
+    expect((await storage.getDeployment(waiting.id))?.status).toBe('running');
+  });
+
+  it('counts deployments GitHub failed to answer for', async () => {
+    const revoked = await deploy({ branchName: 'xylo-gone' }, 'gho_revoked');
+    await deploy();
+
+    expect(await new DeploymentReconciler().reconcileAll()).toBe(1);
+    expect((await storage.getDeployment(revoked.id))?.status).toBe('running');
+  });
+
+  it('skips deployments whose token is rate limited', async () => {
+    // Spend the token's quota against a server that asks it to wait
+    const limiter = createServer((_req, res) => {
+      res.writeHead(403, { 'Content-Type': 'application/json', 'Retry-After': '120' }).end(JSON.stringify({ message: 'You have exceeded a secondary rate limit' }));
+    });
+    await new Promise<void>((resolve) => limiter.listen(0, '127.0.0.1', resolve));
+    await new GitHubClient('gho_limited', `http://127.0.0.1:${(limiter.address() as AddressInfo).port}`).getAuthenticatedUser().catch(() => null);
+    await new Promise((resolve) => limiter.close(resolve));
+
+    const limited = await deploy({ branchName: 'xylo-gone' }, 'gho_limited');
+
+    expect(await new DeploymentReconciler().reconcileAll()).toBe(0);
+    // Checking it would have found the branch gone
+    expect((await storage.getDeployment(limited.id))?.status).toBe('running');
+    expect(await storage.getDeploymentLogs(limited.id)).toEqual([]);
+  });
+
+  it('backs off while reconciling keeps failing', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const reconciler = new DeploymentReconciler();
+    const reconcileAll = vi.spyOn(reconciler, 'reconcileAll').mockResolvedValue(2);
+    reconciler.start();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(reconcileAll).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(reconcileAll).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(reconcileAll).toHaveBeenCalledTimes(2);
+
+    // Storage failures count too
+    reconcileAll.mockRejectedValueOnce(new Error('Connection refused'));
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(reconcileAll).toHaveBeenCalledTimes(3);
+    await vi.advanceTimersByTimeAsync(7999);
+    expect(reconcileAll).toHaveBeenCalledTimes(3);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(reconcileAll).toHaveBeenCalledTimes(4);
+
+    // Back to the normal interval once a round goes through
+    reconcileAll.mockResolvedValue(0);
+    await vi.advanceTimersByTimeAsync(16000);
+    expect(reconcileAll).toHaveBeenCalledTimes(5);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(reconcileAll).toHaveBeenCalledTimes(6);
+
+    reconciler.stop();
+  });
+});
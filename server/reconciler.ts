@@ -0,0 +1,113 @@
+import type { Deployment } from "@shared/schema";
+import { storage } from "./storage";
+import { openToken } from "./token-crypto";
+import { GitHubApiError, rateLimitedUntil } from "./github";
+import { getDeploymentTarget } from "./targets";
+import { createTargetContext } from "./deployment-runner";
+import { SYSTEM_ACTOR, auditDeployment, writeAuditEvent } from "./audit";
+
+const INTERVAL = parseInt(process.env.RECONCILE_INTERVAL_MS || '60000', 10);
+const MAX_BACKOFF = 15 * 60 * 1000;
+// Requests left untouched in each user's quota for their own interactive use
+const RATE_LIMIT_RESERVE = 100;
+
+// Periodically checks every non-terminal deployment against its target so its
+// status follows the bot even when nobody is watching the logs.
+export class DeploymentReconciler {
+  private timer: NodeJS.Timeout | null = null;
+  private failures = 0;
+
+  start() {
+    if (this.timer) return;
+    this.schedule(INTERVAL);
+  }
+
+  stop() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private schedule(delay: number) {
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  private async tick() {
+    try {
+      const githubFailures = await this.reconcileAll();
+      this.failures = githubFailures > 0 ? this.failures + 1 : 0;
+    } catch (error) {
+      this.failures++;
+      console.error('Error reconciling deployments:', error);
+    }
+
+    // Back off exponentially while storage or GitHub keeps failing
+    this.schedule(Math.min(INTERVAL * 2 ** this.failures, MAX_BACKOFF));
+  }
+
+  // Returns how many deployments could not be checked because a GitHub
+  // request failed, rate limits included
+  async reconcileAll() {
+    const deployments = await storage.getDeploymentsByStatus(['pending', 'running']);
+    if (deployments.length === 0) return 0;
+
+    // The job queue owns deployments whose pipeline is still queued or running
+    const busy = new Set((await storage.getUnfinishedDeploymentJobs()).map((job) => job.deploymentId));
+    let githubFailures = 0;
+
+    for (const deployment of deployments) {
+      if (busy.has(deployment.id) || !deployment.githubToken) continue;
+
+      let token: string;
+      try {
+        token = openToken(deployment.githubToken);
+      } catch (error) {
+        console.error(`Could not decrypt GitHub token for deployment ${deployment.id}:`, error);
+        continue;
+      }
+
+      const resumeAt = rateLimitedUntil(token, RATE_LIMIT_RESERVE);
+      if (resumeAt) {
+        console.log(`Skipping deployment ${deployment.id} until GitHub rate limit resets at ${new Date(resumeAt).toISOString()}`);
+        continue;
+      }
+
+      try {
+        await this.reconcile(deployment, token);
+      } catch (error: any) {
+        if (error instanceof GitHubApiError) githubFailures++;
+        console.error(`Error reconciling deployment ${deployment.id}:`, error.message);
+      }
+    }
+    return githubFailures;
+  }
+
+  private async reconcile(deployment: Deployment, token: string) {
+    const target = getDeploymentTarget(deployment.target);
+    const status = await target.status(createTargetContext(deployment, token));
+    if (status?.state === 'missing') {
+      await this.markStale(deployment, status.message);
+    }
+  }
+
+  private async markStale(deployment: Deployment, message: string) {
+    console.log(`Marking deployment ${deployment.id} stale: ${message}`);
+    await storage.updateDeployment(deployment.id, { status: 'stale', message });
+    await storage.createDeploymentLog({
+      deploymentId: deployment.id,
+      step: 'reconcile',
+      status: 'failed',
+      message
+    });
+    await writeAuditEvent({
+      githubUsername: deployment.githubUsername,
+      actor: SYSTEM_ACTOR,
+      action: 'deployment.stale',
+      ...auditDeployment(deployment),
+      result: 'success',
+      message,
+      githubCalls: [],
+    });
+  }
+}
+
+export const deploymentReconciler = new DeploymentReconciler();
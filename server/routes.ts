@@ -1,10 +1,49 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer } from "ws";
 import session from "express-session";
 import axios from "axios";
 import { storage } from "./storage";
-import { deploymentRequestSchema } from "@shared/schema";
+import { deploymentRequestSchema, botTemplateRequestSchema, botTemplateUpdateSchema, botInstanceRequestSchema, botInstanceUpdateSchema, instanceDeployRequestSchema, botConfigUpdateSchema, auditQuerySchema, type AuditPage, type BotInstance, type BotInstanceSummary, type CleanupStepResult, type Deployment, type PublicDeployment, type TemplateRefs } from "@shared/schema";
+import { sealToken } from "./token-crypto";
+import { GitHubClient, ifExists } from "./github";
+import { deploymentQueue } from "./job-queue";
+import { deploymentReconciler } from "./reconciler";
+import { setupLogsSocket } from "./logs-socket";
+import { cleanupDeployment } from "./deployment-cleanup";
+import { createTargetContext, stopOnTarget } from "./deployment-runner";
+import { isScopedStep } from "./pipeline";
+import { getDeploymentTarget, isTargetEnabled, listEnabledTargets } from "./targets";
+import { listWorkflowTemplates } from "./workflow-template";
+import { BotConfigError, readBotConfig, updateBotConfig } from "./bot-config";
+import { validateSessionId } from "./session-validator";
+import { deployInstance, nextInstanceName, previousCommitDeployment } from "./bot-instances";
+import { DEFAULT_TEMPLATE_ID, ForkConflictError, compareFork, TemplateNotFoundError, ensureDefaultTemplate, findFork, isAdmin, resolveTemplate, upstreamName } from "./templates";
+import { GITHUB_URL } from "./config";
+import { auditDeployment, auditRoute, noteAudit } from "./audit";
+
+function toPublicDeployment(deployment: Deployment): PublicDeployment {
+  const { githubToken, ...publicDeployment } = deployment;
+  return publicDeployment;
+}
+
+async function summarizeInstance(instance: BotInstance): Promise<BotInstanceSummary> {
+  const deployments = await storage.getDeploymentsByUser(instance.githubUsername, instance.id);
+  const latest = deployments.reduce<Deployment | null>(
+    (newest, deployment) => !newest || deployment.createdAt > newest.createdAt ? deployment : newest,
+    null,
+  );
+  return {
+    ...instance,
+    latestDeployment: latest && toPublicDeployment(latest),
+    deploymentCount: deployments.length,
+  };
+}
+
+// Whether a queued or running job is still working on the deployment
+async function hasActiveJob(deploymentId: string) {
+  const jobs = await storage.getUnfinishedDeploymentJobs();
+  return jobs.some((job) => job.deploymentId === deploymentId);
+}
 
 // Extend session data interface
 declare module "express-session" {
@@ -16,8 +55,8 @@ declare module "express-session" {
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Configure session middleware
-  app.use(session({
+  // Configure session middleware; the logs WebSocket reads the same session
+  const sessionMiddleware = session({
     secret: process.env.SESSION_SECRET || '3e7c1f4a0b7f1e5a9d4c2e8f7b6a3d1c9f8e4b2a7c5d0f6e1a4c8b9d7f2a6e0',
     resave: false,
     saveUninitialized: true,
@@ -27,192 +66,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
       maxAge: 24 * 60 * 60 * 1000, // 24 hours
       sameSite: 'lax'
     }
-  }));
-
-  // Create HTTP server
-  const server = createServer(app);
-  
-  // WebSocket server for live logs - use path to avoid Vite HMR conflicts
-  const wss = new WebSocketServer({ 
-    server,
-    path: '/api/logs-ws' // Specific path to avoid conflicts with Vite HMR
-  });
-  
-  // Store active log streams
-  const activeStreams = new Map<string, Set<any>>();
-
-  // WebSocket connection handler
-  wss.on('connection', (ws, req) => {
-    console.log('WebSocket client connected to logs endpoint');
-    
-    ws.on('message', (message) => {
-      try {
-        const data = JSON.parse(message.toString());
-        if (data.type === 'subscribe' && data.deploymentId) {
-          // Subscribe to deployment logs
-          if (!activeStreams.has(data.deploymentId)) {
-            activeStreams.set(data.deploymentId, new Set());
-          }
-          activeStreams.get(data.deploymentId)!.add(ws);
-          console.log(`Client subscribed to deployment: ${data.deploymentId}`);
-          
-          // Start streaming logs for this deployment
-          startLogStreaming(data.deploymentId);
-        }
-      } catch (error) {
-        console.error('Error parsing WebSocket message:', error);
-      }
-    });
-    
-    ws.on('close', () => {
-      // Remove from all active streams
-      activeStreams.forEach((clients, deploymentId) => {
-        clients.delete(ws);
-        if (clients.size === 0) {
-          activeStreams.delete(deploymentId);
-        }
-      });
-      console.log('WebSocket client disconnected from logs endpoint');
-    });
-    
-    ws.on('error', (error) => {
-      console.error('WebSocket error:', error);
-    });
   });
+  app.use(sessionMiddleware);
 
-  // Function to fetch GitHub Actions workflow run logs
-  async function fetchWorkflowLogs(deploymentId: string, token: string) {
-    try {
-      const deployment = await storage.getDeployment(deploymentId);
-      if (!deployment || !deployment.workflowUrl) return [];
-
-      // Extract repo and workflow info from workflow URL
-      const repoMatch = deployment.workflowUrl.match(/github\.com\/([^/]+)\/([^/]+)/);
-      if (!repoMatch) return [];
-
-      const [, owner, repo] = repoMatch;
-      
-      // Get workflow runs
-      const runs = await makeGitHubRequest('GET', `repos/${owner}/${repo}/actions/runs?per_page=10`, null, token);
-      if (!runs || !runs.workflow_runs || runs.workflow_runs.length === 0) return [];
-
-      const latestRun = runs.workflow_runs[0];
-      if (!latestRun) return [];
-
-      // Get jobs for the latest run
-      const jobs = await makeGitHubRequest('GET', `repos/${owner}/${repo}/actions/runs/${latestRun.id}/jobs`, null, token);
-      if (!jobs || !jobs.jobs || jobs.jobs.length === 0) return [];
-
-      const logs = [];
-      for (const job of jobs.jobs) {
-        if (job.steps) {
-          for (const step of job.steps) {
-            if (step.conclusion !== null || step.status === 'in_progress') {
-              logs.push({
-                id: `${job.id}-${step.number}`,
-                timestamp: step.started_at || step.created_at,
-                step: step.name,
-                status: step.conclusion || step.status || 'pending',
-                message: `Step: ${step.name}`,
-                runId: latestRun.id,
-                jobId: job.id,
-                stepNumber: step.number
-              });
-            }
-          }
-        }
-      }
-
-      return logs.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-    } catch (error) {
-      console.error('Error fetching workflow logs:', error);
-      return [];
-    }
-  }
-
-  // Function to start log streaming for a deployment
-  async function startLogStreaming(deploymentId: string) {
-    const deployment = await storage.getDeployment(deploymentId);
-    if (!deployment) {
-      console.log(`Deployment ${deploymentId} not found for log streaming`);
-      return;
-    }
-
-    const clients = activeStreams.get(deploymentId);
-    if (!clients || clients.size === 0) {
-      console.log(`No clients connected for deployment ${deploymentId}`);
-      return;
-    }
-
-    console.log(`Starting log streaming for deployment: ${deploymentId}, status: ${deployment.status}`);
-
-    // Get the user's GitHub token from deployment data
-    const token = deployment.githubToken;
-    
-    if (!token) {
-      console.error(`No GitHub token found for deployment ${deploymentId}`);
-      return;
-    }
-    
-    console.log('Using user GitHub token for log streaming');
-
-    const streamLogs = async () => {
-      try {
-        // Refresh deployment status each time
-        const currentDeployment = await storage.getDeployment(deploymentId);
-        if (!currentDeployment) {
-          console.log(`Deployment ${deploymentId} no longer exists, stopping log stream`);
-          return;
-        }
-
-        const logs = await fetchWorkflowLogs(deploymentId, token);
-        console.log(`Fetched ${logs.length} logs for deployment ${deploymentId}`);
-        
-        // Broadcast logs to all connected clients for this deployment
-        const message = JSON.stringify({
-          type: 'logs',
-          deploymentId,
-          logs,
-          timestamp: new Date().toISOString()
-        });
+  await ensureDefaultTemplate();
 
-        const currentClients = activeStreams.get(deploymentId);
-        if (currentClients && currentClients.size > 0) {
-          currentClients.forEach(client => {
-            if (client.readyState === 1) { // WebSocket.OPEN
-              console.log(`Sending ${logs.length} logs to client for deployment ${deploymentId}`);
-              client.send(message);
-            }
-          });
-        }
+  // Pick up deployments that were queued or interrupted before a restart
+  await deploymentQueue.start();
 
-        // Continue streaming if deployment is still running and we have clients
-        const stillHasClients = activeStreams.get(deploymentId)?.size ?? 0 > 0;
-        if ((currentDeployment.status === 'running' || currentDeployment.status === 'pending') && stillHasClients) {
-          setTimeout(streamLogs, 3000); // Poll every 3 seconds for more responsive updates
-        } else {
-          console.log(`Stopping log stream for ${deploymentId}. Status: ${currentDeployment.status}, Clients: ${stillHasClients}`);
-        }
-      } catch (error) {
-        console.error('Error in log streaming:', error);
-        // Retry after error
-        const currentClients = activeStreams.get(deploymentId);
-        if (currentClients && currentClients.size > 0) {
-          setTimeout(streamLogs, 5000);
-        }
-      }
-    };
+  // Keep deployment statuses in step with GitHub in the background
+  deploymentReconciler.start();
 
-    // Start streaming immediately
-    streamLogs();
-  }
+  // Create HTTP server
+  const server = createServer(app);
+  
+  // Live deployment logs over WebSocket
+  setupLogsSocket(server, sessionMiddleware);
 
   const GITHUB_CLIENT_ID = process.env.GITHUB_CLIENT_ID || process.env.VITE_GITHUB_CLIENT_ID;
   const GITHUB_CLIENT_SECRET = process.env.GITHUB_CLIENT_SECRET || process.env.VITE_GITHUB_CLIENT_SECRET;
-  const REPO_OWNER = process.env.REPO_OWNER || 'DAV-EX';
-  const REPO_NAME = process.env.REPO_NAME || 'XYLO-MD';
-  const MAIN_BRANCH = process.env.MAIN_BRANCH || 'main';
-  const WORKFLOW_FILE = process.env.WORKFLOW_FILE || 'deploy.yml';
 
   // Get callback URL dynamically
   const getCallbackUrl = (req: Request) => {
@@ -221,43 +93,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     return `${protocol}://${host}/api/auth/callback`;
   };
 
-  async function makeGitHubRequest(method: string, endpoint: string, data: any, token: string) {
-    const url = `https://api.github.com/${endpoint}`;
-    try {
-      console.log(`GitHub API ${method} ${endpoint}`, data ? { hasData: true, keys: Object.keys(data) } : { hasData: false });
-      
-      const response = await axios({
-        method,
-        url,
-        headers: {
-          'Authorization': `token ${token}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'xylo-md-deployment'
-        },
-        data
-      });
-      return response.data;
-    } catch (error: any) {
-      console.error(`GitHub API Error ${method} ${endpoint}:`, {
-        status: error.response?.status,
-        statusText: error.response?.statusText,
-        message: error.response?.data?.message,
-        errors: error.response?.data?.errors,
-        originalError: error.message
-      });
-      
-      if (error.response?.status === 404) return null;
-      
-      // Provide more specific error messages
-      const errorMsg = error.response?.data?.message || error.message;
-      if (errorMsg.includes('sha')) {
-        throw new Error(`File update failed: ${errorMsg}. This usually means the file was modified since we last checked it.`);
-      }
-      
-      throw new Error(errorMsg);
-    }
-  }
-
   // GitHub OAuth initiation
   app.get('/api/auth', (req: Request, res: Response) => {
     const state = Math.random().toString(36).substring(2, 15);
@@ -268,11 +103,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.log('OAuth init - session ID:', req.session.id);
     
     const callbackUrl = getCallbackUrl(req);
-    res.redirect(`https://github.com/login/oauth/authorize?client_id=${GITHUB_CLIENT_ID}&redirect_uri=${encodeURIComponent(callbackUrl)}&state=${state}&scope=repo,workflow`);
+    res.redirect(`${GITHUB_URL}/login/oauth/authorize?client_id=${GITHUB_CLIENT_ID}&redirect_uri=${encodeURIComponent(callbackUrl)}&state=${state}&scope=repo,workflow`);
   });
 
   // GitHub OAuth callback
-  app.get('/api/auth/callback', async (req: Request, res: Response) => {
+  app.get('/api/auth/callback', auditRoute('auth.login'), async (req: Request, res: Response) => {
     const { code, state } = req.query;
     
     // Debug logging for state validation
@@ -282,6 +117,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     if (state !== req.session.state) {
       console.error('State mismatch - possible session issue');
+      noteAudit(res, { result: 'failure', message: 'OAuth state mismatch' });
       const protocol = req.headers['x-forwarded-proto'] || 'http';
       const host = req.headers.host;
       return res.redirect(`${protocol}://${host}/?error=${encodeURIComponent('Authentication failed. Please try again.')}`);
@@ -289,7 +125,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     try {
       const callbackUrl = getCallbackUrl(req);
-      const response = await axios.post('https://github.com/login/oauth/access_token', {
+      const response = await axios.post(`${GITHUB_URL}/login/oauth/access_token`, {
         client_id: GITHUB_CLIENT_ID,
         client_secret: GITHUB_CLIENT_SECRET,
         code,
@@ -304,7 +140,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Get user info
-      const userResponse = await makeGitHubRequest('GET', 'user', null, accessToken);
+      const userResponse = await new GitHubClient(accessToken).getAuthenticatedUser();
       
       req.session.githubToken = accessToken;
       req.session.githubUsername = userResponse.login;
@@ -315,6 +151,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.redirect(`${protocol}://${host}/deployments?authenticated=true`);
     } catch (error: any) {
       console.error('OAuth error:', error);
+      noteAudit(res, { result: 'failure', message: error.message });
       const protocol = req.headers['x-forwarded-proto'] || 'http';
       const host = req.headers.host;
       res.redirect(`${protocol}://${host}/?error=${encodeURIComponent(error.message)}`);
@@ -326,7 +163,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     if (req.session.githubToken && req.session.githubUsername) {
       res.json({ 
         authenticated: true, 
-        username: req.session.githubUsername 
+        username: req.session.githubUsername,
+        isAdmin: isAdmin(req.session.githubUsername)
       });
     } else {
       res.json({ authenticated: false });
@@ -334,7 +172,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Logout
-  app.post('/api/auth/logout', (req: Request, res: Response) => {
+  app.post('/api/auth/logout', auditRoute('auth.logout'), (req: Request, res: Response) => {
     req.session.destroy((err) => {
       if (err) {
         return res.status(500).json({ error: 'Failed to logout' });
@@ -343,8 +181,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // The logged-in user's audit log, newest first, `pageSize` events per `page`
+  app.get('/api/audit', async (req: Request, res: Response) => {
+    const username = req.session.githubUsername;
+    if (!username) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const parsed = auditQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid page' });
+    }
+
+    try {
+      const { page, pageSize } = parsed.data;
+      const { events, total } = await storage.getAuditEvents(username, { limit: pageSize, offset: (page - 1) * pageSize });
+      const auditPage: AuditPage = { events, page, pageSize, total };
+      res.json(auditPage);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // Repository setup endpoint (fork creation)
-  app.post('/api/setup', async (req: Request, res: Response) => {
+  app.post('/api/setup', auditRoute('setup'), async (req: Request, res: Response) => {
     try {
       const token = req.session.githubToken;
       const username = req.session.githubUsername;
@@ -353,23 +213,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ error: 'Not authenticated' });
       }
 
+      const template = await resolveTemplate(req.body?.templateId || DEFAULT_TEMPLATE_ID);
+      const github = new GitHubClient(token);
+      noteAudit(res, { targetRepo: upstreamName(template) });
+
       // Check if fork already exists
-      let fork = null;
-      try {
-        fork = await makeGitHubRequest('GET', `repos/${username}/${REPO_NAME}`, null, token);
-        if (fork.fork && fork.parent.full_name === `${REPO_OWNER}/${REPO_NAME}`) {
-          return res.json({ 
-            success: true, 
-            message: 'Repository already exists and ready.',
-            alreadyExists: true
-          });
-        }
-      } catch (error) {
-        // Fork doesn't exist, proceed with creation
+      const existing = await findFork(github, username, template);
+      if (existing) {
+        noteAudit(res, { targetRepo: existing.fork.full_name });
+        return res.json({ 
+          success: true, 
+          message: 'Repository already exists and ready.',
+          alreadyExists: true
+        });
       }
 
       // Create fork
-      fork = await makeGitHubRequest('POST', `repos/${REPO_OWNER}/${REPO_NAME}/forks`, {}, token);
+      const fork = await github.createFork(template.owner, template.repo);
+      noteAudit(res, { targetRepo: fork.full_name });
       
       // Wait a moment for fork to be ready
       await new Promise(resolve => setTimeout(resolve, 2000));
@@ -382,6 +243,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     } catch (error: any) {
       console.error('Setup error:', error);
+      if (error instanceof TemplateNotFoundError || error instanceof ForkConflictError) {
+        return res.status(400).json({ error: error.message });
+      }
       res.status(500).json({ 
         error: error.message || 'Setup failed. Please try again.' 
       });
@@ -402,39 +266,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const existingDeployments = await storage.getDeploymentsByUser(username);
       const isFirstDeployment = existingDeployments.length === 0;
 
+      // ?template=<id> checks the fork of that bot template
+      const templateId = typeof req.query.template === 'string' ? req.query.template : DEFAULT_TEMPLATE_ID;
+      const template = await resolveTemplate(templateId);
+      const repo = template.repo;
+      const github = new GitHubClient(token);
+
       // Check if user has a fork
-      let fork = null;
+      let fork;
       try {
-        fork = await makeGitHubRequest('GET', `repos/${username}/${REPO_NAME}`, null, token);
-        if (!fork.fork || fork.parent.full_name !== `${REPO_OWNER}/${REPO_NAME}`) {
+        fork = await findFork(github, username, template);
+        if (!fork) {
           return res.json({ 
             hasFork: false, 
             workflowsEnabled: false,
             needsFork: true,
             githubUsername: username,
             isFirstDeployment,
-            message: 'Repository fork required. Will be created during deployment.' 
+            message: `Fork of ${upstreamName(template)} required. Will be created during deployment.` 
           });
         }
-      } catch (error) {
+      } catch (error: any) {
         return res.json({ 
           hasFork: false, 
           workflowsEnabled: false,
-          needsFork: true,
+          needsFork: !(error instanceof ForkConflictError),
           githubUsername: username,
           isFirstDeployment,
-          message: 'Repository fork required. Will be created during deployment.' 
+          message: error instanceof ForkConflictError ? error.message : `Fork of ${upstreamName(template)} required. Will be created during deployment.` 
         });
       }
 
+      // How far the fork's default branch is behind the template; deploys sync
+      // it first. Forks from elsewhere in the network are not compared.
+      const upstream = { upstream: upstreamName(template), behindBy: null as number | null };
+      if (fork.fromTemplate) {
+        try {
+          upstream.behindBy = (await compareFork(github, username, template)).behind_by;
+        } catch (error: any) {
+          console.log('Fork comparison failed:', error.message);
+        }
+      }
+
       // Check if workflows are enabled
       try {
-        const actionsPermissions = await makeGitHubRequest('GET', `repos/${username}/${REPO_NAME}/actions/permissions`, null, token);
+        const actionsPermissions = await github.getActionsPermissions(username, repo);
         
         // Check if actions are explicitly enabled and accessible
         if (actionsPermissions && actionsPermissions.enabled === true) {
           return res.json({ 
             hasFork: true, 
+            ...upstream,
             workflowsEnabled: true,
             needsFork: false,
             githubUsername: username,
@@ -444,11 +326,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         } else {
           return res.json({ 
             hasFork: true, 
+            ...upstream,
             workflowsEnabled: false,
             needsFork: false,
             githubUsername: username,
             isFirstDeployment,
-            enableUrl: `https://github.com/${username}/${REPO_NAME}/actions`,
+            enableUrl: `${GITHUB_URL}/${username}/${repo}/actions`,
             message: 'Repository fork exists but workflows need to be enabled manually.' 
           });
         }
@@ -456,617 +339,547 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Any error means workflows are not enabled or accessible
         return res.json({ 
           hasFork: true, 
+          ...upstream,
           workflowsEnabled: false,
           needsFork: false,
           githubUsername: username,
           isFirstDeployment,
-          enableUrl: `https://github.com/${username}/${REPO_NAME}/actions`,
+          enableUrl: `${GITHUB_URL}/${username}/${repo}/actions`,
           message: 'Repository fork exists but workflows need to be enabled manually.' 
         });
       }
     } catch (error: any) {
       console.error('Workflow verification error:', error);
+      if (error instanceof TemplateNotFoundError) {
+        return res.status(400).json({ error: error.message });
+      }
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Deploy endpoint with live logging
-  app.post('/api/deploy', async (req: Request, res: Response) => {
-    let deployment: any = null;
-    
+  // Check a session ID before deploying with it
+  app.post('/api/session/validate', (req: Request, res: Response) => {
+    if (!req.session.githubUsername) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const sessionId = typeof req.body?.sessionId === 'string' ? req.body.sessionId : '';
+    res.json(validateSessionId(sessionId));
+  });
+
+  // Deploy endpoint - queues the deployment and returns immediately.
+  // Progress is reported through deployment logs and the logs WebSocket.
+  // Each deploy from here starts a new bot instance; redeploying an existing
+  // one goes through /api/instances/:id/deploy.
+  app.post('/api/deploy', auditRoute('deploy'), async (req: Request, res: Response) => {
+    const token = req.session.githubToken;
+    const username = req.session.githubUsername;
+
+    if (!token || !username) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const parsed = deploymentRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message || 'Invalid deploy request' });
+    }
+    const { name, templateId, sessionId, sessionMode, branchName, ref, target, workflow } = parsed.data;
+
     try {
-      const { sessionId, branchName } = deploymentRequestSchema.parse(req.body);
-      const token = req.session.githubToken;
-      const username = req.session.githubUsername;
+      if (!isTargetEnabled(target)) {
+        return res.status(400).json({ success: false, error: `Deployment target '${target}' is not available` });
+      }
 
-      if (!token || !username) {
-        return res.status(401).json({ error: 'Not authenticated' });
+      const session = validateSessionId(sessionId);
+      if (!session.valid) {
+        return res.status(400).json({ success: false, error: session.error });
       }
 
-      // Create initial deployment record
-      deployment = await storage.createDeployment({
-        sessionId,
-        branchName: branchName || null,
+      const template = await resolveTemplate(templateId);
+
+      if (name && await findInstanceByName(username, name)) {
+        return res.status(409).json({ success: false, error: `A bot named '${name}' already exists, deploy it from the Bots page` });
+      }
+
+      const instance = await storage.createBotInstance({
         githubUsername: username,
-        repositoryName: REPO_NAME,
-        githubToken: token, // Store user's GitHub token for log access
-        status: 'running',
-        message: 'Deployment started'
+        name: name || await nextInstanceName(username),
+        templateId: template.id,
+        sessionId,
+        sessionMode,
+        target,
+        workflowOptions: workflow ?? null,
       });
+      const deployment = await deployInstance(instance, token, { branchName, ref });
+      noteAudit(res, auditDeployment(deployment));
 
-      // Helper function to log deployment steps
-      const logStep = async (step: string, status: string, message: string) => {
-        await storage.createDeploymentLog({
-          deploymentId: deployment.id,
-          step,
-          status,
-          message
-        });
-      };
+      res.status(202).json({ 
+        success: true, 
+        message: 'Deployment queued', 
+        deploymentId: deployment.id,
+        instanceId: instance.id
+      });
 
-      // Check if this is a first deployment for optimization
-      const existingDeployments = await storage.getDeploymentsByUser(username);
-      const isFirstDeployment = existingDeployments.length === 0;
-      
-      // Step 1: Get user info
-      await logStep('init', 'running', 'Getting user information...');
-      const user = await makeGitHubRequest('GET', 'user', null, token);
-      await logStep('init', 'success', `Connected as ${user.login}`);
-      
-      // Step 2: Check/Create fork (optimized for subsequent deployments)
-      if (isFirstDeployment) {
-        await logStep('fork', 'running', 'Setting up XYLO server infrastructure...');
-      } else {
-        await logStep('fork', 'running', 'Connecting to existing XYLO server setup...');
-      }
-      
-      let fork = null;
-      try {
-        fork = await makeGitHubRequest('GET', `repos/${user.login}/${REPO_NAME}`, null, token);
-        if (!fork.fork || fork.parent.full_name !== `${REPO_OWNER}/${REPO_NAME}`) {
-          fork = null;
-        }
-      } catch (error) {
-        // Fork doesn't exist
-      }
-      
-      // Pre-check: If fork exists, verify XYLO servers are ready (skip detailed checks for repeat deployments)
-      if (fork && !isFirstDeployment) {
-        await logStep('actions-check', 'running', 'Verifying XYLO server readiness...');
-        try {
-          // Quick check for subsequent deployments
-          await makeGitHubRequest('GET', `repos/${user.login}/${REPO_NAME}/actions/permissions`, null, token);
-          await logStep('actions-check', 'success', 'XYLO servers operational - fast-track deployment enabled');
-        } catch (actionsError: any) {
-          await logStep('actions-check', 'warning', 'XYLO server verification skipped - proceeding with deployment');
-        }
-      } else if (fork) {
-        await logStep('actions-check', 'running', 'Performing initial XYLO server verification...');
-        try {
-          // Try to get Actions permissions - this will fail if Actions are disabled
-          await makeGitHubRequest('GET', `repos/${user.login}/${REPO_NAME}/actions/permissions`, null, token);
-          await logStep('actions-check', 'success', 'XYLO servers are enabled and accessible');
-        } catch (actionsError: any) {
-          if (actionsError.response?.status === 404) {
-            await logStep('actions-check', 'warning', `XYLO servers may need manual activation. Visit: https://github.com/${user.login}/${REPO_NAME}/settings/actions`);
-          } else {
-            await logStep('actions-check', 'warning', 'Could not verify XYLO server status - proceeding with deployment');
-          }
-        }
+    } catch (error: any) {
+      console.error('Deployment error:', error);
+      res.status(error instanceof TemplateNotFoundError ? 400 : 500).json({ 
+        success: false, 
+        error: error.message 
+      });
+    }
+  });
+
+  async function findInstanceByName(githubUsername: string, name: string, exceptId?: string) {
+    const instances = await storage.getBotInstancesByUser(githubUsername);
+    return instances.find((instance) => instance.id !== exceptId && instance.name.toLowerCase() === name.toLowerCase());
+  }
+
+  // The user's bot instances with their latest deployment
+  app.get('/api/instances', async (req: Request, res: Response) => {
+    if (!req.session.githubUsername) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const instances = await storage.getBotInstancesByUser(req.session.githubUsername);
+      res.json(await Promise.all(instances.map(summarizeInstance)));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Create a bot instance without deploying it
+  app.post('/api/instances', auditRoute('instance.create'), async (req: Request, res: Response) => {
+    const username = req.session.githubUsername;
+    if (!username) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const parsed = botInstanceRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message || 'Invalid bot instance' });
+    }
+    const { name, templateId, sessionId, sessionMode, target, workflow } = parsed.data;
+
+    try {
+      if (!isTargetEnabled(target)) {
+        return res.status(400).json({ success: false, error: `Deployment target '${target}' is not available` });
       }
 
-      if (!fork) {
-        await logStep('fork', 'running', 'Creating XYLO server instance...');
-        fork = await makeGitHubRequest('POST', `repos/${REPO_OWNER}/${REPO_NAME}/forks`, {}, token);
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        await logStep('fork', 'success', 'XYLO server instance created successfully');
-        
-        // Add important note about server activation for new setups
-        await logStep('fork-info', 'warning', `⚠️ New XYLO server instance created. Server activation required for first deployment.`);
-      } else {
-        if (isFirstDeployment) {
-          await logStep('fork', 'success', 'Using existing XYLO server instance');
-          await logStep('fork-info', 'info', `🔄 XYLO server instance ready. First deployment may require manual activation.`);
-        } else {
-          await logStep('fork', 'success', 'Connected to existing XYLO server instance');
-          await logStep('fork-info', 'info', `⚡ Fast deployment mode enabled - skipping initial setup checks.`);
-        }
+      const session = validateSessionId(sessionId);
+      if (!session.valid) {
+        return res.status(400).json({ success: false, error: session.error });
       }
-      
-      // XYLO server activation check (optimized for repeat deployments)
-      if (isFirstDeployment) {
-        await logStep('actions-check', 'running', 'Verifying XYLO server activation...');
-        try {
-          const actionsPermissions = await makeGitHubRequest('GET', `repos/${user.login}/${REPO_NAME}/actions/permissions`, null, token);
-          
-          if (actionsPermissions && actionsPermissions.enabled === false) {
-            // Actions are disabled, let's enable them automatically
-            await logStep('actions-enable', 'running', 'XYLO servers need activation. Auto-activating now...');
-            
-            await makeGitHubRequest('PUT', `repos/${user.login}/${REPO_NAME}/actions/permissions`, {
-              enabled: true,
-              allowed_actions: 'all'
-            }, token);
-            
-            await logStep('actions-enable', 'success', '✅ XYLO servers have been automatically activated!');
-          } else {
-            await logStep('actions-check', 'success', 'XYLO servers are already activated and ready');
-          }
-        } catch (actionsError: any) {
-          if (actionsError.response?.status === 404) {
-            // Likely means Actions are disabled entirely - try to enable them
-            await logStep('actions-enable', 'running', 'XYLO servers appear inactive. Attempting auto-activation...');
-            
-            try {
-              await makeGitHubRequest('PUT', `repos/${user.login}/${REPO_NAME}/actions/permissions`, {
-                enabled: true,
-                allowed_actions: 'all'
-              }, token);
-              
-              await logStep('actions-enable', 'success', '✅ XYLO servers have been automatically activated!');
-            } catch (enableError: any) {
-              await logStep('actions-enable', 'failed', `Failed to auto-activate servers (${enableError.response?.status}). Manual activation required at: https://github.com/${user.login}/${REPO_NAME}/settings/actions`);
-            }
-          } else {
-            await logStep('actions-check', 'warning', `Could not verify server status (${actionsError.response?.status}). Proceeding with deployment...`);
-          }
-        }
-      } else {
-        // Skip detailed server checks for subsequent deployments
-        await logStep('actions-check', 'success', '⚡ Fast deployment: XYLO servers pre-verified - activation checks skipped');
+
+      const template = await resolveTemplate(templateId);
+
+      if (await findInstanceByName(username, name)) {
+        return res.status(409).json({ success: false, error: `A bot named '${name}' already exists` });
       }
 
-      // Step 3: Generate and create branch
-      const finalBranchName = branchName && branchName.trim() ? 
-        branchName.trim() : 
-        `xylo-${Math.random().toString(36).substring(2, 8)}`;
+      const instance = await storage.createBotInstance({
+        githubUsername: username,
+        name,
+        templateId: template.id,
+        sessionId,
+        sessionMode,
+        target,
+        workflowOptions: workflow ?? null,
+      });
+      res.status(201).json(await summarizeInstance(instance));
+    } catch (error: any) {
+      res.status(error instanceof TemplateNotFoundError ? 400 : 500).json({ success: false, error: error.message });
+    }
+  });
 
-      await logStep('branch', 'running', `Creating branch: ${finalBranchName}...`);
+  app.get('/api/instances/:id', async (req: Request, res: Response) => {
+    if (!req.session.githubUsername) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
 
-      // Check if branch exists
-      const branchExists = await makeGitHubRequest('GET', `repos/${user.login}/${REPO_NAME}/git/ref/heads/${finalBranchName}`, null, token);
-      if (branchExists) {
-        await logStep('branch', 'failed', `Branch '${finalBranchName}' already exists`);
-        throw new Error(`Branch '${finalBranchName}' already exists. Please choose a different name.`);
+    try {
+      const instance = await storage.getBotInstance(req.params.id);
+      if (!instance || instance.githubUsername !== req.session.githubUsername) {
+        return res.status(404).json({ error: 'Bot not found' });
       }
 
-      // Get main branch reference and create new branch
-      const mainRef = await makeGitHubRequest('GET', `repos/${user.login}/${REPO_NAME}/git/ref/heads/${MAIN_BRANCH}`, null, token);
-      await makeGitHubRequest('POST', `repos/${user.login}/${REPO_NAME}/git/refs`, {
-        ref: `refs/heads/${finalBranchName}`,
-        sha: mainRef.object.sha
-      }, token);
+      res.json(await summarizeInstance(instance));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-      await logStep('branch', 'success', `Branch '${finalBranchName}' created successfully`);
+  // Rename the instance or change what its next deploy uses
+  app.patch('/api/instances/:id', auditRoute('instance.update'), async (req: Request, res: Response) => {
+    const username = req.session.githubUsername;
+    if (!username) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
 
-      // Step 4: Update config file
-      await logStep('config', 'running', 'Updating configuration file...');
-      let configSha;
-      let existingConfigContent = '';
-      
-      try {
-        const fileData = await makeGitHubRequest('GET', `repos/${user.login}/${REPO_NAME}/contents/config.js?ref=${finalBranchName}`, null, token);
-        configSha = fileData.sha;
-        existingConfigContent = Buffer.from(fileData.content, 'base64').toString('utf-8');
-        console.log('Existing config content:', existingConfigContent);
-      } catch (error) {
-        // File doesn't exist, create with default structure
-        existingConfigContent = `module.exports = {\n  SESSION_ID: 'session id here'\n};`;
-        console.log('Config file not found, using default structure');
+    const parsed = botInstanceUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message || 'Invalid bot instance' });
+    }
+    const { workflow, ...updates } = parsed.data;
+
+    try {
+      const instance = await storage.getBotInstance(req.params.id);
+      if (!instance || instance.githubUsername !== username) {
+        return res.status(404).json({ error: 'Bot not found' });
       }
 
-      // Parse and update the existing config, preserving all other settings
-      let updatedConfigContent;
-      try {
-        // Handle ES6 module config that reads SESSION_ID from environment variables
-        if (existingConfigContent.includes('process.env.SESSION_ID')) {
-          // Replace the fallback value in the SESSION_ID getter
-          updatedConfigContent = existingConfigContent.replace(
-            /get SESSION_ID\(\)\s*{\s*return\s+process\.env\.SESSION_ID\s*\|\|\s*['"`][^'"`]*['"`]\s*}/g,
-            `get SESSION_ID() { return process.env.SESSION_ID || '${sessionId}' }`
-          );
-          
-          // Also handle single line format
-          if (updatedConfigContent === existingConfigContent) {
-            updatedConfigContent = existingConfigContent.replace(
-              /(get SESSION_ID\(\)\s*{\s*return\s+process\.env\.SESSION_ID\s*\|\|\s*)['"`][^'"`]*['"`]/g,
-              `$1'${sessionId}'`
-            );
-          }
-        } else if (existingConfigContent.includes('SESSION_ID')) {
-          // Handle other SESSION_ID formats (legacy support)
-          const lines = existingConfigContent.split('\n');
-          const updatedLines = lines.map(line => {
-            if (line.includes('SESSION_ID')) {
-              if (line.includes(':')) {
-                return line.replace(/(\s*SESSION_ID\s*:\s*).*$/, `$1"${sessionId}"`);
-              } else if (line.includes('=')) {
-                return line.replace(/(\s*SESSION_ID\s*=\s*).*$/, `$1"${sessionId}"`);
-              }
-            }
-            return line;
-          });
-          updatedConfigContent = updatedLines.join('\n');
-        } else {
-          // Add SESSION_ID if it doesn't exist - create .env file instead
-          console.log('SESSION_ID not found in config, will create .env file');
-          updatedConfigContent = existingConfigContent; // Keep config unchanged
-        }
-        
-        // Ensure content actually changed for env-based configs
-        if (updatedConfigContent === existingConfigContent && existingConfigContent.includes('process.env.SESSION_ID')) {
-          console.log('Environment-based config detected, forcing fallback value update...');
-          // More aggressive replacement for environment configs
-          updatedConfigContent = existingConfigContent.replace(
-            /(process\.env\.SESSION_ID\s*\|\|\s*)['"`][^'"`]*['"`]/g,
-            `$1'${sessionId}'`
-          );
+      if (updates.target && !isTargetEnabled(updates.target)) {
+        return res.status(400).json({ success: false, error: `Deployment target '${updates.target}' is not available` });
+      }
+
+      if (updates.sessionId) {
+        const session = validateSessionId(updates.sessionId);
+        if (!session.valid) {
+          return res.status(400).json({ success: false, error: session.error });
         }
-      } catch (error) {
-        console.log('Error in config processing:', error);
-        updatedConfigContent = existingConfigContent;
       }
 
-      console.log('Session ID being written:', sessionId);
-      console.log('Updated config content:', updatedConfigContent);
+      if (updates.name && await findInstanceByName(username, updates.name, instance.id)) {
+        return res.status(409).json({ success: false, error: `A bot named '${updates.name}' already exists` });
+      }
 
-      const configUpdateData: any = {
-        message: `Update config.js for ${finalBranchName}`,
-        content: Buffer.from(updatedConfigContent).toString('base64'),
-        branch: finalBranchName
-      };
-      
-      if (configSha) {
-        configUpdateData.sha = configSha;
-        console.log('Using SHA for config.js update:', configSha);
-      } else {
-        console.log('No SHA provided - creating new config.js file');
+      const updated = await storage.updateBotInstance(instance.id, {
+        ...updates,
+        ...(workflow ? { workflowOptions: workflow } : {}),
+      });
+      res.json(await summarizeInstance(updated!));
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // Deploy the instance again on its branch, replacing its running deployment.
+  // A `ref` in the body deploys that upstream version on a new branch instead.
+  app.post('/api/instances/:id/deploy', auditRoute('instance.deploy'), async (req: Request, res: Response) => {
+    const token = req.session.githubToken;
+    const username = req.session.githubUsername;
+
+    if (!token || !username) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const parsed = instanceDeployRequestSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message || 'Invalid deploy request' });
+    }
+
+    try {
+      const instance = await storage.getBotInstance(req.params.id);
+      if (!instance || instance.githubUsername !== username) {
+        return res.status(404).json({ error: 'Bot not found' });
       }
-      
-      await makeGitHubRequest('PUT', `repos/${user.login}/${REPO_NAME}/contents/config.js`, configUpdateData, token);
 
-      // Also create/update .env file for environment variables
-      try {
-        let envSha;
-        let existingEnvContent = '';
-        
-        try {
-          const envFileData = await makeGitHubRequest('GET', `repos/${user.login}/${REPO_NAME}/contents/.env?ref=${finalBranchName}`, null, token);
-          envSha = envFileData.sha;
-          existingEnvContent = Buffer.from(envFileData.content, 'base64').toString('utf-8');
-        } catch (error) {
-          // .env file doesn't exist, will create new
-          console.log('.env file not found, creating new one');
-        }
+      if (!isTargetEnabled(instance.target)) {
+        return res.status(400).json({ success: false, error: `Deployment target '${instance.target}' is not available` });
+      }
 
-        // Update or add SESSION_ID in .env file
-        let updatedEnvContent;
-        if (existingEnvContent.includes('SESSION_ID')) {
-          // Replace existing SESSION_ID in .env
-          updatedEnvContent = existingEnvContent.replace(
-            /SESSION_ID\s*=\s*.*/g,
-            `SESSION_ID=${sessionId}`
-          );
-        } else {
-          // Add SESSION_ID to existing .env content
-          updatedEnvContent = existingEnvContent + (existingEnvContent ? '\n' : '') + `SESSION_ID=${sessionId}`;
+      const deployments = await storage.getDeploymentsByUser(username, instance.id);
+      for (const deployment of deployments) {
+        if (await hasActiveJob(deployment.id)) {
+          return res.status(409).json({ error: 'A deployment of this bot is still being processed, try again once it finishes' });
         }
+      }
 
-        const envUpdateData: any = {
-          message: `Update .env with session ID for ${finalBranchName}`,
-          content: Buffer.from(updatedEnvContent).toString('base64'),
-          branch: finalBranchName
-        };
-        
-        if (envSha) {
-          envUpdateData.sha = envSha;
-          console.log('Using SHA for .env update:', envSha);
-        } else {
-          console.log('No SHA provided - creating new .env file');
-        }
-        
-        await makeGitHubRequest('PUT', `repos/${user.login}/${REPO_NAME}/contents/.env`, envUpdateData, token);
+      const deployment = await deployInstance(instance, token, { ref: parsed.data.ref });
+      noteAudit(res, auditDeployment(deployment));
 
-        console.log('.env file updated with SESSION_ID');
-      } catch (error) {
-        console.log('Error updating .env file:', error);
-        // Continue even if .env update fails, since we updated the config fallback
-      }
+      res.status(202).json({ 
+        success: true, 
+        message: 'Deployment queued', 
+        deploymentId: deployment.id,
+        instanceId: instance.id
+      });
+    } catch (error: any) {
+      res.status(error instanceof TemplateNotFoundError ? 400 : 500).json({ 
+        success: false, 
+        error: error.message 
+      });
+    }
+  });
 
-      await logStep('config', 'success', 'Configuration file updated with session ID');
+  // Delete the instance along with every deployment of it, newest first so the
+  // branch goes with the deployment that created it. Pass ?force=true to remove
+  // deployments whose cleanup fails, as for a single deployment.
+  app.delete('/api/instances/:id', auditRoute('instance.delete'), async (req: Request, res: Response) => {
+    const token = req.session.githubToken;
+    const username = req.session.githubUsername;
 
-      // Step 5: Create workflow
-      await logStep('workflow', 'running', 'Creating GitHub Actions workflow...');
-      
-      const workflowContent = `name: XYLO-MD-DEPLOY
-on:
-  workflow_dispatch:
-jobs:
-  deploy:
-    runs-on: ubuntu-latest
-    steps:
-      - name: Checkout Code
-        uses: actions/checkout@v3
-        
-      - name: Setup Node.js
-        uses: actions/setup-node@v3
-        with:
-          node-version: '20'
-          
-      - name: Debug Environment
-        run: |
-          echo "=== ENVIRONMENT DEBUG ==="
-          echo "Node version: \$(node --version)"
-          echo "NPM version: \$(npm --version)"
-          echo "Working directory: \$(pwd)"
-          echo "Files in current directory:"
-          ls -la
-          echo "=== SESSION ID CHECK ==="
-          if [ -f ".env" ]; then
-            echo ".env file found:"
-            cat .env
-          else
-            echo "No .env file found"
-          fi
-          echo "=== CONFIG FILE CHECK ==="
-          if [ -f "config.js" ]; then
-            echo "config.js content:"
-            cat config.js
-          else
-            echo "No config.js found"
-          fi
-          
-      - name: Install Dependencies
-        run: |
-          echo "=== INSTALLING DEPENDENCIES ==="
-          npm install --verbose
-          echo "=== DEPENDENCY TREE ==="
-          npm list --depth=0
-          
-      - name: Pre-run Checks
-        run: |
-          echo "=== PRE-RUN CHECKS ==="
-          echo "Checking package.json scripts:"
-          cat package.json | grep -A 10 '"scripts"'
-          echo "=== CHECKING FOR MAIN FILES ==="
-          if [ -f "index.js" ]; then echo "✓ index.js found"; else echo "✗ index.js missing"; fi
-          if [ -f "app.js" ]; then echo "✓ app.js found"; else echo "✗ app.js missing"; fi
-          if [ -f "main.js" ]; then echo "✓ main.js found"; else echo "✗ main.js missing"; fi
-          
-      - name: Run Bot with Detailed Logging
-        run: |
-          echo "=== STARTING XYLO-MD BOT ==="
-          echo "Timestamp: \$(date)"
-          echo "Starting bot with detailed logging..."
-          
-          # Function to run bot with logging
-          run_bot() {
-            echo ">>> Attempting to start bot..."
-            npm start 2>&1 | while IFS= read -r line; do
-              echo "[\$(date '+%Y-%m-%d %H:%M:%S')] \$line"
-            done
-            echo ">>> Bot process ended with exit code: \$?"
-          }
-          
-          # Run bot in loop with detailed error handling
-          timeout 18000 bash -c '
-            attempt=1
-            while true; do
-              echo "=== ATTEMPT #\$attempt ==="
-              run_bot() {
-                echo ">>> Starting bot attempt #\$attempt at \$(date)"
-                npm start 2>&1 | while IFS= read -r line; do
-                  echo "[\$(date +"%H:%M:%S")] \$line"
-                done
-                exit_code=\$?
-                echo ">>> Bot stopped with exit code: \$exit_code at \$(date)"
-                return \$exit_code
-              }
-              
-              if run_bot; then
-                echo "Bot exited normally, restarting in 5 seconds..."
-              else
-                echo "Bot crashed, analyzing error and restarting in 10 seconds..."
-                echo "=== ERROR ANALYSIS ==="
-                echo "Checking system resources:"
-                free -h
-                df -h
-                echo "Recent system messages:"
-                dmesg | tail -5 2>/dev/null || echo "No system messages available"
-              fi
-              
-              attempt=\$((attempt + 1))
-              if [ \$attempt -gt 1 ]; then
-                echo "Waiting before restart..."
-                sleep 10
-              else
-                sleep 5
-              fi
-            done
-          ' || echo "Timeout reached after 5 hours"
-          
-      - name: Post-Run Analysis
-        if: always()
-        run: |
-          echo "=== POST-RUN ANALYSIS ==="
-          echo "Final timestamp: \$(date)"
-          echo "Checking for any log files:"
-          find . -name "*.log" -type f 2>/dev/null || echo "No log files found"
-          echo "=== FINAL SYSTEM STATE ==="
-          free -h
-          df -h
-          
-      - name: Re-Trigger Workflow
-        if: always()
-        run: |
-          echo "=== AUTO-RESTART ==="
-          echo "Preparing to restart workflow at \$(date)"
-          sleep 30
-          curl -X POST \\
-            -H "Authorization: Bearer \${{ secrets.GITHUB_TOKEN }}" \\
-            -H "Accept: application/vnd.github.v3+json" \\
-            https://api.github.com/repos/\${{ github.repository }}/actions/workflows/${WORKFLOW_FILE}/dispatches \\
-            -d '{"ref":"${finalBranchName}"}'
-          echo "Restart triggered successfully"
-`;
-
-      // Check if workflow file already exists to get SHA for update
-      let workflowSha;
-      try {
-        const existingWorkflow = await makeGitHubRequest('GET', `repos/${user.login}/${REPO_NAME}/contents/.github/workflows/${WORKFLOW_FILE}?ref=${finalBranchName}`, null, token);
-        workflowSha = existingWorkflow?.sha;
-        console.log('Existing workflow file found, will update with SHA:', workflowSha);
-      } catch (error) {
-        console.log('No existing workflow file found, creating new one');
+    if (!token || !username) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const instance = await storage.getBotInstance(req.params.id);
+      if (!instance || instance.githubUsername !== username) {
+        return res.status(404).json({ error: 'Bot not found' });
       }
-      
-      const workflowUpdateData: any = {
-        message: `Create workflow for ${finalBranchName}`,
-        content: Buffer.from(workflowContent).toString('base64'),
-        branch: finalBranchName
-      };
-      
-      if (workflowSha) {
-        workflowUpdateData.sha = workflowSha;
+
+      const deployments = (await storage.getDeploymentsByUser(username, instance.id))
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+      for (const deployment of deployments) {
+        if (await hasActiveJob(deployment.id)) {
+          return res.status(409).json({ error: 'A deployment of this bot is still being processed, try again once it finishes' });
+        }
       }
-      
-      await makeGitHubRequest('PUT', `repos/${user.login}/${REPO_NAME}/contents/.github/workflows/${WORKFLOW_FILE}`, workflowUpdateData, token);
 
-      await logStep('workflow', 'success', 'GitHub Actions workflow created');
+      const steps: CleanupStepResult[] = [];
+      let remaining = 0;
+      for (const deployment of deployments) {
+        const cleanup = await cleanupDeployment(deployment, token, { force: req.query.force === 'true' });
+        steps.push(...cleanup.steps);
+        if (!cleanup.removed) remaining++;
+      }
 
-      // Step 6: Trigger deployment (only if workflow was created successfully)
-      await logStep('deploy', 'running', 'Triggering deployment workflow...');
-      
-      // Wait for GitHub to process the new workflow file and Actions enablement
-      console.log('Waiting for GitHub to process workflow file and Actions settings...');
-      await new Promise(resolve => setTimeout(resolve, 8000)); // Extended wait time for Actions enablement
-      
-      try {
-        // First verify the workflow file was created
-        console.log('Verifying workflow file exists...');
-        const workflowCheck = await makeGitHubRequest('GET', `repos/${user.login}/${REPO_NAME}/contents/.github/workflows/${WORKFLOW_FILE}?ref=${finalBranchName}`, null, token);
-        
-        if (!workflowCheck) {
-          throw new Error('Workflow file was not created successfully. Please add the workflow file manually to your repository.');
-        }
-        
-        // Check if GitHub Actions are enabled on this repository
-        console.log('Checking if GitHub Actions are enabled...');
-        try {
-          const repoInfo = await makeGitHubRequest('GET', `repos/${user.login}/${REPO_NAME}`, null, token);
-          const actionsEnabled = await makeGitHubRequest('GET', `repos/${user.login}/${REPO_NAME}/actions/permissions`, null, token);
-          console.log('Repository Actions permissions:', actionsEnabled);
-        } catch (actionsError: any) {
-          console.warn('Could not check Actions permissions:', actionsError.message);
-        }
-        
-        console.log('Workflow file verified, triggering workflow...');
-        console.log(`Triggering workflow: repos/${user.login}/${REPO_NAME}/actions/workflows/${WORKFLOW_FILE}/dispatches`);
-        console.log(`Branch: ${finalBranchName}`);
-        
-        const dispatchResult = await makeGitHubRequest('POST', `repos/${user.login}/${REPO_NAME}/actions/workflows/${WORKFLOW_FILE}/dispatches`, {
-          ref: finalBranchName
-        }, token);
-        
-        console.log('Workflow dispatch result:', dispatchResult);
-        
-        // Update deployment status to running since workflow was triggered
-        await storage.updateDeployment(deployment.id, {
-          status: 'running',
-          message: 'Bot deployment workflow is now running'
-        });
-        
-        await logStep('deploy', 'success', '✅ Deployment workflow triggered successfully! Check GitHub Actions tab to see progress.');
-      } catch (dispatchError: any) {
-        console.error('Workflow dispatch failed:', dispatchError);
-        console.error('Dispatch error details:', {
-          status: dispatchError.response?.status,
-          statusText: dispatchError.response?.statusText,
-          data: dispatchError.response?.data,
-          message: dispatchError.message
-        });
-        
-        // Check if this is a fork to provide more specific guidance
-        const isFork = fork && fork.fork === true;
-        
-        let errorMessage = 'Failed to trigger workflow';
-        let instructions = '';
-        
-        if (dispatchError.response?.status === 404) {
-          if (isFork) {
-            errorMessage = '🔒 Fork workflows need manual enablement (one-time setup)';
-            instructions = `GitHub automatically disables workflows on forked repositories for security.
-
-🔧 QUICK FIX (30 seconds):
-1. Open: https://github.com/${user.login}/${REPO_NAME}/actions
-2. Click: "I understand my workflows, go ahead and enable them" 
-3. Return here and deploy again
-
-✨ GOOD NEWS: This is only needed once! After enabling, all future deployments will work automatically.
-
-This is a GitHub security requirement that cannot be bypassed via API.`;
-          } else {
-            errorMessage = 'Workflow not found or Actions disabled';
-            instructions = `Please check:
-1. Actions are enabled: https://github.com/${user.login}/${REPO_NAME}/settings/actions
-2. Workflow file exists: https://github.com/${user.login}/${REPO_NAME}/blob/${finalBranchName}/.github/workflows/${WORKFLOW_FILE}`;
-          }
-        } else if (dispatchError.response?.status === 403) {
-          errorMessage = 'Insufficient permissions to trigger GitHub Actions';
-          instructions = 'Please ensure you have admin or write access to the repository and try again.';
-        } else {
-          errorMessage = `Workflow dispatch failed: ${dispatchError.message}`;
-          instructions = `Please manually trigger the workflow:
-1. Go to https://github.com/${user.login}/${REPO_NAME}/actions
-2. Click on "XYLO-MD-DEPLOY" workflow
-3. Click "Run workflow" and select branch: ${finalBranchName}`;
-        }
-        
-        await logStep('deploy', 'failed', `${errorMessage}. ${instructions}`);
-        
-        // Update deployment with specific instructions
-        await storage.updateDeployment(deployment.id, {
-          status: 'failed',
-          message: `${errorMessage}\n\n${instructions}`
+      if (remaining > 0) {
+        return res.status(502).json({ 
+          success: false, 
+          message: `Cleanup incomplete, ${remaining} deployment(s) of ${instance.name} were kept`, 
+          steps
         });
-        
-        throw new Error(errorMessage);
       }
 
-      const workflowUrl = `https://github.com/${user.login}/${REPO_NAME}/actions`;
+      await storage.deleteBotInstance(instance.id);
+      res.json({ 
+        success: true, 
+        message: `Deleted ${instance.name}`, 
+        steps
+      });
+    } catch (error: any) {
+      res.status(500).json({ 
+        success: false, 
+        error: error.message 
+      });
+    }
+  });
+
+  // Resume a failed deployment from the step that failed
+  app.post('/api/deployments/:id/resume', auditRoute('deployment.resume'), async (req: Request, res: Response) => {
+    const token = req.session.githubToken;
+    const username = req.session.githubUsername;
+
+    if (!token || !username) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const deployment = await storage.getDeployment(req.params.id);
+      if (!deployment || deployment.githubUsername !== username) {
+        return res.status(404).json({ error: 'Deployment not found' });
+      }
+      noteAudit(res, auditDeployment(deployment));
+
+      if (deployment.status !== 'failed') {
+        return res.status(409).json({ error: 'Only failed deployments can be resumed' });
+      }
+
+      const steps = await storage.getDeploymentSteps(deployment.id);
+      const failedStep = steps.find((step) => !isScopedStep(step) && step.status !== 'success');
 
-      // Update deployment with workflow URL (status already set to 'running' above)
       await storage.updateDeployment(deployment.id, {
-        branchName: finalBranchName,
-        workflowUrl
+        githubToken: sealToken(token),
+        status: 'pending',
+        message: 'Resume queued'
+      });
+      await storage.createDeploymentLog({
+        deploymentId: deployment.id,
+        step: 'resume',
+        status: 'pending',
+        message: failedStep ? `Resuming from step: ${failedStep.name}` : 'Resuming deployment'
+      });
+
+      await deploymentQueue.enqueue({ deploymentId: deployment.id, githubUsername: username, kind: 'deploy' });
+
+      res.status(202).json({ 
+        success: true, 
+        message: 'Resume queued', 
+        deploymentId: deployment.id
+      });
+    } catch (error: any) {
+      res.status(500).json({ 
+        success: false, 
+        error: error.message 
+      });
+    }
+  });
+
+  // Stop the bot on its target. On GitHub Actions this cancels its workflow
+  // runs so the re-trigger step never fires.
+  app.post('/api/deployments/:id/stop', auditRoute('deployment.stop'), async (req: Request, res: Response) => {
+    const token = req.session.githubToken;
+    const username = req.session.githubUsername;
+
+    if (!token || !username) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const deployment = await storage.getDeployment(req.params.id);
+      if (!deployment || deployment.githubUsername !== username) {
+        return res.status(404).json({ error: 'Deployment not found' });
+      }
+      noteAudit(res, auditDeployment(deployment));
+
+      if (await hasActiveJob(deployment.id)) {
+        return res.status(409).json({ error: 'Deployment is still being processed, try again once it finishes' });
+      }
+
+      await stopOnTarget(getDeploymentTarget(deployment.target), createTargetContext(deployment, token));
+
+      await storage.updateDeployment(deployment.id, {
+        githubToken: sealToken(token),
+        status: 'stopped',
+        message: 'Deployment stopped'
       });
 
       res.json({ 
         success: true, 
-        message: 'Deployment successful!', 
-        deploymentId: deployment.id,
-        branch: finalBranchName, 
-        repository: `${user.login}/${REPO_NAME}`,
-        workflowUrl
+        message: 'Deployment stopped', 
+        deploymentId: deployment.id
       });
+    } catch (error: any) {
+      res.status(500).json({ 
+        success: false, 
+        error: error.message 
+      });
+    }
+  });
+
+  // Deploy the bot instance again at the upstream commit its previous
+  // deployment ran, on a new branch cut from that commit
+  app.post('/api/deployments/:id/rollback', auditRoute('deployment.rollback'), async (req: Request, res: Response) => {
+    const token = req.session.githubToken;
+    const username = req.session.githubUsername;
+
+    if (!token || !username) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const deployment = await storage.getDeployment(req.params.id);
+      if (!deployment || deployment.githubUsername !== username) {
+        return res.status(404).json({ error: 'Deployment not found' });
+      }
+      noteAudit(res, auditDeployment(deployment));
+
+      const instance = deployment.instanceId ? await storage.getBotInstance(deployment.instanceId) : undefined;
+      if (!instance) {
+        return res.status(409).json({ error: 'Deployment does not belong to a bot, so there is nothing to roll back to' });
+      }
+      if (!isTargetEnabled(instance.target)) {
+        return res.status(400).json({ success: false, error: `Deployment target '${instance.target}' is not available` });
+      }
+
+      const previous = await previousCommitDeployment(deployment);
+      if (!previous) {
+        return res.status(409).json({ error: `${instance.name} has no earlier deployment of a different commit to roll back to` });
+      }
 
+      for (const other of await storage.getDeploymentsByUser(username, instance.id)) {
+        if (await hasActiveJob(other.id)) {
+          return res.status(409).json({ error: 'A deployment of this bot is still being processed, try again once it finishes' });
+        }
+      }
+
+      const rollback = await deployInstance(instance, token, { ref: previous.commitSha });
+      noteAudit(res, auditDeployment(rollback));
+
+      res.status(202).json({ 
+        success: true, 
+        message: `Rollback to ${previous.commitSha!.slice(0, 7)} queued`, 
+        deploymentId: rollback.id,
+        instanceId: instance.id
+      });
     } catch (error: any) {
-      console.error('Deployment error:', error);
-      
-      if (deployment) {
-        await storage.updateDeployment(deployment.id, {
-          status: 'failed',
-          message: error.message
-        });
-        
-        await storage.createDeploymentLog({
-          deploymentId: deployment.id,
-          step: 'error',
-          status: 'failed',
-          message: error.message
-        });
+      res.status(error instanceof TemplateNotFoundError ? 400 : 500).json({ 
+        success: false, 
+        error: error.message 
+      });
+    }
+  });
+
+  // Restart the bot on its existing branch
+  app.post('/api/deployments/:id/restart', auditRoute('deployment.restart'), async (req: Request, res: Response) => {
+    await queueControlJob(req, res, 'restart');
+  });
+
+  // Refresh config and workflow from upstream, then restart the bot
+  app.post('/api/deployments/:id/redeploy', auditRoute('deployment.redeploy'), async (req: Request, res: Response) => {
+    await queueControlJob(req, res, 'redeploy');
+  });
+
+  async function queueControlJob(req: Request, res: Response, kind: 'restart' | 'redeploy') {
+    const token = req.session.githubToken;
+    const username = req.session.githubUsername;
+
+    if (!token || !username) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const deployment = await storage.getDeployment(req.params.id);
+      if (!deployment || deployment.githubUsername !== username) {
+        return res.status(404).json({ error: 'Deployment not found' });
+      }
+      noteAudit(res, auditDeployment(deployment));
+
+      if (!deployment.branchName) {
+        return res.status(409).json({ error: 'Deployment has no branch yet, resume it instead' });
+      }
+
+      if (await hasActiveJob(deployment.id)) {
+        return res.status(409).json({ error: 'Deployment is still being processed, try again once it finishes' });
+      }
+
+      const label = kind === 'restart' ? 'Restart' : 'Redeploy';
+      await enqueueControlJob(deployment, token, kind, label);
+
+      res.status(202).json({ 
+        success: true, 
+        message: `${label} queued`, 
+        deploymentId: deployment.id
+      });
+    } catch (error: any) {
+      res.status(500).json({ 
+        success: false, 
+        error: error.message 
+      });
+    }
+  }
+
+  // Delete a deployment and clean up what it created on its target and on
+  // GitHub. Pass ?force=true to remove the records even if a step fails.
+  app.delete('/api/deployments/:id', auditRoute('deployment.delete'), async (req: Request, res: Response) => {
+    const token = req.session.githubToken;
+    const username = req.session.githubUsername;
+
+    if (!token || !username) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const deployment = await storage.getDeployment(req.params.id);
+      if (!deployment || deployment.githubUsername !== username) {
+        return res.status(404).json({ error: 'Deployment not found' });
       }
+      noteAudit(res, auditDeployment(deployment));
 
+      if (await hasActiveJob(deployment.id)) {
+        return res.status(409).json({ error: 'Deployment is still being processed, try again once it finishes' });
+      }
+
+      const { removed, steps } = await cleanupDeployment(deployment, token, { force: req.query.force === 'true' });
+
+      res.status(removed ? 200 : 502).json({ 
+        success: removed, 
+        message: removed ? 'Deployment deleted' : 'Cleanup incomplete', 
+        steps
+      });
+    } catch (error: any) {
       res.status(500).json({ 
         success: false, 
         error: error.message 
@@ -1074,6 +887,287 @@ This is a GitHub security requirement that cannot be bypassed via API.`;
     }
   });
 
+  // Workflow templates a deployment's `workflow.template` can name
+  app.get('/api/workflows/templates', async (req: Request, res: Response) => {
+    try {
+      res.json(await listWorkflowTemplates());
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Marks the deployment pending and queues a job that works on the running bot
+  async function enqueueControlJob(deployment: Deployment, token: string, kind: 'restart' | 'redeploy' | 'reconfigure', label: string) {
+    await storage.updateDeployment(deployment.id, {
+      githubToken: sealToken(token),
+      status: 'pending',
+      message: `${label} queued`
+    });
+    await storage.createDeploymentLog({
+      deploymentId: deployment.id,
+      step: kind,
+      status: 'pending',
+      message: `${label} requested`
+    });
+
+    await deploymentQueue.enqueue({ deploymentId: deployment.id, githubUsername: deployment.githubUsername, kind });
+  }
+
+  // Settings from the bot's config.js and .env on its branch
+  app.get('/api/deployments/:id/config', async (req: Request, res: Response) => {
+    const token = req.session.githubToken;
+    const username = req.session.githubUsername;
+
+    if (!token || !username) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const deployment = await storage.getDeployment(req.params.id);
+      if (!deployment || deployment.githubUsername !== username) {
+        return res.status(404).json({ error: 'Deployment not found' });
+      }
+
+      if (!deployment.branchName) {
+        return res.status(409).json({ error: 'Deployment has no branch yet' });
+      }
+
+      res.json(await readBotConfig(new GitHubClient(token), deployment));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Commit changed settings to the bot's branch, optionally restarting it so
+  // they take effect
+  app.put('/api/deployments/:id/config', auditRoute('deployment.config'), async (req: Request, res: Response) => {
+    const token = req.session.githubToken;
+    const username = req.session.githubUsername;
+
+    if (!token || !username) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const parsed = botConfigUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message || 'Invalid settings' });
+    }
+
+    try {
+      const deployment = await storage.getDeployment(req.params.id);
+      if (!deployment || deployment.githubUsername !== username) {
+        return res.status(404).json({ error: 'Deployment not found' });
+      }
+      noteAudit(res, auditDeployment(deployment));
+
+      if (!deployment.branchName) {
+        return res.status(409).json({ error: 'Deployment has no branch yet' });
+      }
+
+      if (await hasActiveJob(deployment.id)) {
+        return res.status(409).json({ error: 'Deployment is still being processed, try again once it finishes' });
+      }
+
+      const updated = await updateBotConfig(new GitHubClient(token), deployment, parsed.data.values);
+      if (updated.length > 0) {
+        await storage.createDeploymentLog({
+          deploymentId: deployment.id,
+          step: 'config',
+          status: 'success',
+          message: `Settings updated: ${updated.join(', ')}`
+        });
+      }
+
+      const restarting = parsed.data.restart && updated.length > 0;
+      if (restarting) {
+        await enqueueControlJob(deployment, token, 'reconfigure', 'Restart with new settings');
+      }
+
+      res.json({
+        success: true,
+        message: updated.length === 0
+          ? 'No settings changed'
+          : restarting ? 'Settings saved, restarting the bot' : 'Settings saved',
+        updated
+      });
+    } catch (error: any) {
+      const status = error instanceof BotConfigError ? 400 : 500;
+      res.status(status).json({ success: false, error: error.message });
+    }
+  });
+
+  // Targets new deployments can be sent to
+  app.get('/api/targets', (req: Request, res: Response) => {
+    res.json(listEnabledTargets());
+  });
+
+  // Bot templates new deployments can be made from. Admins also see disabled ones.
+  app.get('/api/templates', async (req: Request, res: Response) => {
+    try {
+      const templates = await storage.getBotTemplates();
+      res.json(isAdmin(req.session.githubUsername) ? templates : templates.filter((template) => template.enabled));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Releases and tags of a template's upstream repository, for pinning a
+  // deployment to one of them
+  app.get('/api/templates/:id/refs', async (req: Request, res: Response) => {
+    const token = req.session.githubToken;
+    if (!token) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const template = await resolveTemplate(req.params.id);
+      const github = new GitHubClient(token);
+      const [releases, tags] = await Promise.all([
+        github.listReleases(template.owner, template.repo),
+        github.listTags(template.owner, template.repo),
+      ]);
+      const refs: TemplateRefs = {
+        defaultBranch: template.defaultBranch,
+        releases: releases
+          .filter((release) => !release.draft)
+          .map((release) => ({
+            tag: release.tag_name,
+            name: release.name || release.tag_name,
+            prerelease: release.prerelease,
+            publishedAt: release.published_at,
+          })),
+        tags: tags.map((tag) => ({ name: tag.name, sha: tag.commit.sha })),
+      };
+      res.json(refs);
+    } catch (error: any) {
+      res.status(error instanceof TemplateNotFoundError ? 404 : 500).json({ error: error.message });
+    }
+  });
+
+  // Checks an admin's template against the workflow templates on disk and the
+  // upstream repository on GitHub
+  async function checkTemplate(token: string, template: { owner: string; repo: string; defaultBranch: string; workflowTemplate: string }) {
+    if (!(await listWorkflowTemplates()).includes(template.workflowTemplate)) {
+      return `Workflow template '${template.workflowTemplate}' does not exist`;
+    }
+    const branch = await ifExists(new GitHubClient(token).getBranch(template.owner, template.repo, template.defaultBranch));
+    if (!branch) {
+      return `${template.owner}/${template.repo} has no branch '${template.defaultBranch}'`;
+    }
+    return null;
+  }
+
+  app.post('/api/templates', auditRoute('template.create'), async (req: Request, res: Response) => {
+    const token = req.session.githubToken;
+    if (!token || !isAdmin(req.session.githubUsername)) {
+      return res.status(403).json({ error: 'Only admins can manage bot templates' });
+    }
+
+    const parsed = botTemplateRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid bot template' });
+    }
+
+    noteAudit(res, { targetRepo: upstreamName(parsed.data) });
+
+    try {
+      if (await storage.getBotTemplate(parsed.data.id)) {
+        return res.status(409).json({ error: `A template with ID '${parsed.data.id}' already exists` });
+      }
+
+      const problem = await checkTemplate(token, parsed.data);
+      if (problem) {
+        return res.status(400).json({ error: problem });
+      }
+
+      res.status(201).json(await storage.createBotTemplate(parsed.data));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Changes apply to the next deploy of every bot made from the template
+  app.patch('/api/templates/:id', auditRoute('template.update'), async (req: Request, res: Response) => {
+    const token = req.session.githubToken;
+    if (!token || !isAdmin(req.session.githubUsername)) {
+      return res.status(403).json({ error: 'Only admins can manage bot templates' });
+    }
+
+    const parsed = botTemplateUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid bot template' });
+    }
+
+    try {
+      const template = await storage.getBotTemplate(req.params.id);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+      noteAudit(res, { targetRepo: upstreamName({ ...template, ...parsed.data }) });
+
+      const problem = await checkTemplate(token, { ...template, ...parsed.data });
+      if (problem) {
+        return res.status(400).json({ error: problem });
+      }
+
+      res.json(await storage.updateBotTemplate(template.id, parsed.data));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Templates that bots were made from can only be disabled, since their
+  // deployments still read the upstream and config path from them
+  app.delete('/api/templates/:id', auditRoute('template.delete'), async (req: Request, res: Response) => {
+    if (!isAdmin(req.session.githubUsername)) {
+      return res.status(403).json({ error: 'Only admins can manage bot templates' });
+    }
+
+    try {
+      const template = await storage.getBotTemplate(req.params.id);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+      noteAudit(res, { targetRepo: upstreamName(template) });
+      if (template.id === DEFAULT_TEMPLATE_ID) {
+        return res.status(409).json({ error: 'The default template cannot be deleted, disable it instead' });
+      }
+
+      const inUse = (await storage.getAllDeployments()).some((deployment) => deployment.templateId === template.id);
+      if (inUse) {
+        return res.status(409).json({ error: `${template.name} has deployments, disable it instead` });
+      }
+
+      await storage.deleteBotTemplate(template.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Recent output of the bot, read from its target
+  app.get('/api/deployments/:id/output', async (req: Request, res: Response) => {
+    const token = req.session.githubToken;
+    const username = req.session.githubUsername;
+
+    if (!token || !username) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const deployment = await storage.getDeployment(req.params.id);
+      if (!deployment || deployment.githubUsername !== username) {
+        return res.status(404).json({ error: 'Deployment not found' });
+      }
+
+      const tail = Math.min(parseInt(String(req.query.tail || '200'), 10) || 200, 1000);
+      const lines = await getDeploymentTarget(deployment.target).logs(createTargetContext(deployment, token), { tail });
+      res.json({ lines });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // Get user deployments
   app.get('/api/deployments', async (req: Request, res: Response) => {
     if (!req.session.githubUsername) {
@@ -1081,8 +1175,10 @@ This is a GitHub security requirement that cannot be bypassed via API.`;
     }
 
     try {
-      const deployments = await storage.getDeploymentsByUser(req.session.githubUsername);
-      res.json(deployments);
+      // ?instance=<id> narrows the list to one bot instance's history
+      const instanceId = typeof req.query.instance === 'string' ? req.query.instance : undefined;
+      const deployments = await storage.getDeploymentsByUser(req.session.githubUsername, instanceId);
+      res.json(deployments.map(toPublicDeployment));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -1119,7 +1215,7 @@ This is a GitHub security requirement that cannot be bypassed via API.`;
         return res.status(404).json({ error: 'Deployment not found' });
       }
 
-      res.json(deployment);
+      res.json(toPublicDeployment(deployment));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -0,0 +1,28 @@
+import { FakeGitHub } from "../github/fake-server";
+import { REPO_OWNER, REPO_NAME } from "../config";
+
+// Usage:
+//   npm run github:fake
+//
+// Starts the fake GitHub on FAKE_GITHUB_PORT (default 4010) with one user and
+// a copy of the upstream bot repo. Run the app against it with:
+//   GITHUB_URL=http://127.0.0.1:4010 GITHUB_API_URL=http://127.0.0.1:4010 npm run dev
+
+const token = process.env.FAKE_GITHUB_TOKEN || 'fake-token';
+const login = process.env.FAKE_GITHUB_LOGIN || 'octocat';
+
+const fake = new FakeGitHub({
+  users: { [token]: login },
+  repos: {
+    [`${REPO_OWNER}/${REPO_NAME}`]: {
+      'config.js': `module.exports = {\n  get SESSION_ID() { return process.env.SESSION_ID || 'session id here' }\n};\n`,
+      'package.json': JSON.stringify({ name: 'xylo-md', scripts: { start: 'node index.js' } }, null, 2),
+      'index.js': `console.log('bot running');\n`,
+    },
+  },
+  runStartDelay: 2000,
+});
+
+fake.listen(parseInt(process.env.FAKE_GITHUB_PORT || '4010', 10)).then((url) => {
+  console.log(`Fake GitHub listening on ${url} - sign in as ${login} (token ${token})`);
+});
@@ -0,0 +1,48 @@
+import { storage } from "../storage";
+import { openToken } from "../token-crypto";
+import { migrateSessionToSecret } from "../session-migration";
+
+// Usage:
+//   npm run sessions:migrate  - move deployments that committed SESSION_ID to their
+//                               fork over to `secret` session mode
+//
+// For GitHub Actions deployments this stores the session ID as an Actions
+// secret and rewrites the workflow to read it; every deployment then has the
+// value removed from config.js and .env. Earlier commits still contain it, so
+// users should replace their session afterwards.
+
+async function main() {
+  if (!process.env.DATABASE_URL) {
+    console.error('DATABASE_URL is not set - in-memory storage has nothing to migrate');
+    process.exit(1);
+  }
+
+  const deployments = await storage.getAllDeployments();
+  let migrated = 0;
+  let failed = 0;
+
+  for (const deployment of deployments) {
+    if (deployment.sessionMode !== 'committed') continue;
+    if (!deployment.githubToken) {
+      console.error(`Skipping deployment ${deployment.id}: no GitHub token stored`);
+      failed++;
+      continue;
+    }
+
+    try {
+      await migrateSessionToSecret(deployment, openToken(deployment.githubToken));
+      migrated++;
+    } catch (error: any) {
+      console.error(`Failed to migrate deployment ${deployment.id}:`, error.message);
+      failed++;
+    }
+  }
+
+  console.log(`Checked ${deployments.length} deployments: ${migrated} migrated, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
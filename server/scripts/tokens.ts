@@ -0,0 +1,50 @@
+import { storage } from "../storage";
+import { isSealedToken, needsResealing, resealToken } from "../token-crypto";
+
+// Usage:
+//   npm run tokens:migrate  - encrypt tokens stored in plaintext before encryption existed
+//   npm run tokens:rotate   - re-wrap every token under the current TOKEN_ENCRYPTION_KEY
+//
+// To rotate, move the old key into TOKEN_ENCRYPTION_OLD_KEYS, set the new one as
+// TOKEN_ENCRYPTION_KEY, run the rotate command, then drop the old key.
+
+async function main() {
+  const mode = process.argv[2];
+  if (mode !== 'migrate' && mode !== 'rotate') {
+    console.error('Usage: tsx server/scripts/tokens.ts <migrate|rotate>');
+    process.exit(1);
+  }
+
+  if (!process.env.DATABASE_URL) {
+    console.error('DATABASE_URL is not set - in-memory storage has nothing to migrate');
+    process.exit(1);
+  }
+
+  const deployments = await storage.getAllDeployments();
+  let updated = 0;
+  let failed = 0;
+
+  for (const deployment of deployments) {
+    const token = deployment.githubToken;
+    if (!token) continue;
+
+    const shouldUpdate = mode === 'migrate' ? !isSealedToken(token) : needsResealing(token);
+    if (!shouldUpdate) continue;
+
+    try {
+      await storage.updateDeployment(deployment.id, { githubToken: resealToken(token) });
+      updated++;
+    } catch (error: any) {
+      console.error(`Failed to update token for deployment ${deployment.id}:`, error.message);
+      failed++;
+    }
+  }
+
+  console.log(`Checked ${deployments.length} deployments: ${updated} updated, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
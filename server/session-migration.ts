@@ -0,0 +1,40 @@
+import type { Deployment } from "@shared/schema";
+import { storage } from "./storage";
+import { Pipeline } from "./pipeline";
+import { type DeployState, sessionSecretStep, scrubSessionStep, workflowStep } from "./deploy-pipeline";
+import { createTargetContext } from "./deployment-runner";
+
+// Workflows need the secret and the new workflow in place before the session
+// ID leaves the repository, or a re-triggered run starts without one
+const githubActionsMigration = new Pipeline<DeployState>([
+  sessionSecretStep,
+  workflowStep,
+  scrubSessionStep,
+], 'session-migration');
+
+// Other targets already pass SESSION_ID to the bot as an environment variable
+const environmentMigration = new Pipeline<DeployState>([
+  scrubSessionStep,
+], 'session-migration');
+
+// Moves a deployment from `committed` to `secret` session mode, removing the
+// session ID from its branch. The running bot picks the change up on its next
+// restart.
+export async function migrateSessionToSecret(deployment: Deployment, token: string) {
+  if (!deployment.branchName) {
+    await storage.updateDeployment(deployment.id, { sessionMode: 'secret' });
+    return;
+  }
+
+  const migrated = { ...deployment, sessionMode: 'secret' };
+  const pipeline = deployment.target === 'github-actions' ? githubActionsMigration : environmentMigration;
+  await pipeline.run(createTargetContext(migrated, token), {
+    login: deployment.githubUsername,
+    branchName: deployment.branchName,
+  });
+  await storage.updateDeployment(deployment.id, { sessionMode: 'secret' });
+  // So the instance's next deploy does not commit the session ID again
+  if (deployment.instanceId) {
+    await storage.updateBotInstance(deployment.instanceId, { sessionMode: 'secret' });
+  }
+}
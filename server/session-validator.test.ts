@@ -0,0 +1,95 @@
+import { gzipSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { validateSessionId } from "./session-validator";
+
+const CREDS = {
+  noiseKey: { private: 'a', public: 'b' },
+  signedIdentityKey: { private: 'c', public: 'd' },
+  signedPreKey: { keyId: 1 },
+  registrationId: 42,
+  advSecretKey: 'secret',
+  me: { id: '2348012345678:12@s.whatsapp.net', name: 'Alice' },
+  registered: true,
+};
+
+function encode(data: unknown, gzip = false) {
+  const json = Buffer.from(JSON.stringify(data));
+  return (gzip ? gzipSync(json) : json).toString('base64');
+}
+
+describe('validateSessionId', () => {
+  describe('accepts', () => {
+    it('base64 creds.json behind a known prefix', () => {
+      expect(validateSessionId(`XYLO-MD~${encode(CREDS)}`)).toEqual({
+        valid: true,
+        format: 'creds',
+        prefix: 'XYLO-MD',
+        account: '+234•••••••678',
+        warnings: [],
+      });
+    });
+
+    it('gzipped, URL-safe and wrapped creds with any prefix separator', () => {
+      const urlSafe = encode({ creds: CREDS, keys: {} }, true).replace(/\+/g, '-').replace(/\//g, '_');
+
+      expect(validateSessionId(`xylo;;;${urlSafe}`)).toMatchObject({ valid: true, format: 'creds', prefix: 'xylo' });
+      expect(validateSessionId(`  XYLO:${encode(CREDS, true)}\n`)).toMatchObject({ valid: true, format: 'creds' });
+    });
+
+    it('paste-service ids and MEGA file handles', () => {
+      expect(validateSessionId('XYLO-MD~abc123def456')).toEqual({
+        valid: true,
+        format: 'paste',
+        prefix: 'XYLO-MD',
+        warnings: ['Session is stored on a paste service; the bot downloads it on start, so it is not checked here'],
+      });
+      expect(validateSessionId(`XYLO-MD~AbCd1234#${'k'.repeat(43)}`)).toEqual({ valid: true, format: 'mega', prefix: 'XYLO-MD', warnings: [] });
+    });
+
+    it('a session without a prefix or registration, with warnings', () => {
+      const result = validateSessionId(encode({ ...CREDS, registered: false }));
+
+      expect(result).toMatchObject({ valid: true, format: 'creds', prefix: undefined });
+      expect(result.warnings).toEqual([
+        "Session ID has no prefix; XYLO-MD session IDs usually start with 'XYLO-MD~'",
+        'Session was not marked as registered; if the bot logs out, pair it again',
+      ]);
+    });
+  });
+
+  describe('rejects', () => {
+    const gzipped = encode(CREDS, true);
+    const json = encode(CREDS);
+
+    it.each([
+      { problem: 'an empty session ID', input: '   ', error: 'Session ID is required' },
+      { problem: 'a session ID that is too long', input: `XYLO-MD~${'A'.repeat(20000)}`, error: 'Session ID is longer than 20000 characters' },
+      { problem: 'line breaks in the middle', input: `XYLO-MD~${json.slice(0, 40)}\n${json.slice(40)}`, error: 'Session ID contains spaces or line breaks. Paste it as a single line.' },
+      { problem: "another bot's prefix", input: `OTHER-MD~${json}`, error: "Session ID starts with 'OTHER-MD', which is for a different bot. XYLO-MD expects 'XYLO-MD~' or 'XYLO~'." },
+      { problem: 'characters outside base64', input: `XYLO-MD~${json.slice(0, 60)}!!`, error: 'Session ID contains characters that are not valid base64. Copy it again without extra text.' },
+      { problem: 'an impossible base64 length', input: `XYLO-MD~${json.slice(0, 61)}`, error: 'Session ID looks truncated: its base64 length is impossible. Copy the whole ID.' },
+      { problem: 'truncated gzip', input: `XYLO-MD~${gzipped.slice(0, 60)}`, error: 'Session ID is compressed but does not decompress, it is probably truncated. Copy the whole ID.' },
+      { problem: 'truncated JSON', input: `XYLO-MD~${json.slice(0, 80)}`, error: 'Session ID decodes to incomplete JSON, it is probably truncated. Copy the whole ID.' },
+      { problem: 'base64 of something else', input: `XYLO-MD~${Buffer.from('just some text, not a session at all').toString('base64')}`, error: 'Session ID does not decode to session credentials.' },
+      { problem: 'a JSON array', input: `XYLO-MD~${encode([CREDS, CREDS])}`, error: 'Session ID does not decode to session credentials.' },
+    ])('$problem', ({ input, error }) => {
+      expect(validateSessionId(input)).toMatchObject({ valid: false, error, warnings: [] });
+    });
+
+    it('credentials from an unknown generator or an expired pairing', () => {
+      const { signedPreKey, advSecretKey, ...partial } = CREDS;
+      expect(validateSessionId(`XYLO-MD~${encode(partial)}`)).toEqual({
+        valid: false,
+        error: 'Session credentials are missing signedPreKey, advSecretKey. Generate a new session ID.',
+        prefix: 'XYLO-MD',
+        warnings: [],
+      });
+
+      const { me, ...unlinked } = CREDS;
+      expect(validateSessionId(`XYLO-MD~${encode(unlinked)}`)).toMatchObject({
+        valid: false,
+        error: 'Session credentials are not linked to a WhatsApp account yet. Finish pairing, then copy the session ID.',
+      });
+    });
+  });
+});
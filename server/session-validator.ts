@@ -0,0 +1,115 @@
+import { gunzipSync } from "zlib";
+import type { SessionValidation } from "@shared/schema";
+import { SESSION_PREFIXES } from "./config";
+
+// Checks a pasted session ID before anything is deployed with it. XYLO-MD
+// accepts, behind an optional `PREFIX~` (or `PREFIX;;;`, `PREFIX:`):
+//
+//   - base64 of the Baileys creds.json, optionally gzipped
+//   - a paste-service id the bot downloads creds.json from
+//   - a MEGA file handle with its key, `<handle>#<key>`
+
+const MAX_LENGTH = 20000;
+const PREFIXED = /^([A-Za-z][A-Za-z0-9-]*)(~|;;;|:)(.+)$/;
+const PASTE_ID = /^[A-Za-z0-9_-]{6,40}$/;
+const MEGA_FILE = /^[A-Za-z0-9_-]{8}#[A-Za-z0-9_-]{43}$/;
+const BASE64 = /^[A-Za-z0-9+/_-]+={0,2}$/;
+
+// Keys every linked Baileys creds.json has
+const REQUIRED_CREDS = ['noiseKey', 'signedIdentityKey', 'signedPreKey', 'registrationId', 'advSecretKey'];
+
+function invalid(error: string, extra: Partial<SessionValidation> = {}): SessionValidation {
+  return { valid: false, error, warnings: [], ...extra };
+}
+
+function maskAccount(jid: string) {
+  const number = jid.split(/[:@]/)[0];
+  if (number.length <= 6) return number;
+  return `+${number.slice(0, 3)}${'•'.repeat(number.length - 6)}${number.slice(-3)}`;
+}
+
+function decodeCreds(payload: string): { creds?: any; error?: string } {
+  if (!BASE64.test(payload)) {
+    return { error: 'Session ID contains characters that are not valid base64. Copy it again without extra text.' };
+  }
+  if (payload.replace(/=+$/, '').length % 4 === 1) {
+    return { error: 'Session ID looks truncated: its base64 length is impossible. Copy the whole ID.' };
+  }
+
+  let bytes = Buffer.from(payload.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    try {
+      bytes = gunzipSync(bytes);
+    } catch {
+      return { error: 'Session ID is compressed but does not decompress, it is probably truncated. Copy the whole ID.' };
+    }
+  }
+
+  try {
+    return { creds: JSON.parse(bytes.toString('utf-8')) };
+  } catch {
+    const text = bytes.toString('utf-8');
+    return {
+      error: text.trimStart().startsWith('{')
+        ? 'Session ID decodes to incomplete JSON, it is probably truncated. Copy the whole ID.'
+        : 'Session ID does not decode to session credentials.',
+    };
+  }
+}
+
+export function validateSessionId(input: string): SessionValidation {
+  const sessionId = input.trim();
+  if (!sessionId) return invalid('Session ID is required');
+  if (sessionId.length > MAX_LENGTH) return invalid(`Session ID is longer than ${MAX_LENGTH} characters`);
+  if (/\s/.test(sessionId)) return invalid('Session ID contains spaces or line breaks. Paste it as a single line.');
+
+  const warnings: string[] = [];
+  let payload = sessionId;
+  let prefix: string | undefined;
+
+  const prefixed = sessionId.match(PREFIXED);
+  if (prefixed) {
+    prefix = prefixed[1];
+    payload = prefixed[3];
+    const accepted = SESSION_PREFIXES.find((known) => known.toLowerCase() === prefix!.toLowerCase());
+    if (!accepted) {
+      return invalid(
+        `Session ID starts with '${prefix}', which is for a different bot. XYLO-MD expects ${SESSION_PREFIXES.map((known) => `'${known}~'`).join(' or ')}.`,
+        { prefix },
+      );
+    }
+  } else if (SESSION_PREFIXES.length > 0) {
+    warnings.push(`Session ID has no prefix; XYLO-MD session IDs usually start with '${SESSION_PREFIXES[0]}~'`);
+  }
+
+  if (MEGA_FILE.test(payload)) {
+    return { valid: true, format: 'mega', prefix, warnings };
+  }
+  if (PASTE_ID.test(payload)) {
+    warnings.push('Session is stored on a paste service; the bot downloads it on start, so it is not checked here');
+    return { valid: true, format: 'paste', prefix, warnings };
+  }
+
+  const { creds, error } = decodeCreds(payload);
+  if (error) return invalid(error, { prefix });
+  if (!creds || typeof creds !== 'object' || Array.isArray(creds)) {
+    return invalid('Session ID does not decode to session credentials.', { prefix });
+  }
+
+  // Some generators wrap creds.json as { creds: {...}, keys: {...} }
+  const data = creds.creds && typeof creds.creds === 'object' ? creds.creds : creds;
+  const missing = REQUIRED_CREDS.filter((key) => data[key] === undefined);
+  if (missing.length > 0) {
+    return invalid(`Session credentials are missing ${missing.join(', ')}. Generate a new session ID.`, { prefix });
+  }
+
+  const jid = data.me?.id;
+  if (typeof jid !== 'string') {
+    return invalid('Session credentials are not linked to a WhatsApp account yet. Finish pairing, then copy the session ID.', { prefix });
+  }
+  if (data.registered === false) {
+    warnings.push('Session was not marked as registered; if the bot logs out, pair it again');
+  }
+
+  return { valid: true, format: 'creds', prefix, account: maskAccount(jid), warnings };
+}
@@ -0,0 +1,289 @@
+import { createRequire } from "module";
+import { randomBytes } from "crypto";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { getTableName, isTable, sql } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import { DbStorage, MemStorage, type IStorage } from "./storage";
+import { createDb, type Database } from "./db";
+
+// The IStorage contract, run against both backends. DbStorage runs on an
+// in-process PGlite database, or on the Postgres at TEST_DATABASE_URL in a
+// throwaway schema that is dropped afterwards.
+
+// drizzle-kit's ESM build cannot load its own dependencies, so use the CJS one
+const { generateDrizzleJson, generateMigration } =
+  createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+const tableNames = Object.values(schema).filter(isTable).map((table) => getTableName(table));
+
+interface TestDatabase {
+  db: Database;
+  close(): Promise<void>;
+}
+
+async function openTestDatabase(): Promise<TestDatabase> {
+  const url = process.env.TEST_DATABASE_URL;
+  if (!url) {
+    const client = new PGlite();
+    return { db: drizzle({ client, schema }) as unknown as Database, close: () => client.close() };
+  }
+
+  const schemaName = `storage_test_${randomBytes(4).toString('hex')}`;
+  const admin = createDb(url);
+  await admin.execute(sql.raw(`CREATE SCHEMA "${schemaName}"`));
+  const scoped = new URL(url);
+  scoped.searchParams.set('options', `-c search_path=${schemaName}`);
+  const db = createDb(scoped.toString());
+  return {
+    db,
+    async close() {
+      await admin.execute(sql.raw(`DROP SCHEMA "${schemaName}" CASCADE`));
+      await Promise.all([admin, db].map((handle) => (handle as unknown as { $client: { end(): Promise<void> } }).$client.end()));
+    },
+  };
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+const deploymentFields = {
+  sessionId: 'XYLO~session',
+  githubUsername: 'alice',
+  repositoryName: 'XYLO-MD',
+};
+
+describe.each([
+  { name: 'MemStorage', db: false },
+  { name: 'DbStorage', db: true },
+])('$name', ({ db: usesDb }) => {
+  let database: TestDatabase | undefined;
+  let storage: IStorage;
+
+  beforeAll(async () => {
+    if (!usesDb) return;
+    database = await openTestDatabase();
+    const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+    for (const statement of statements) {
+      await database.db.execute(sql.raw(statement));
+    }
+  });
+
+  afterAll(async () => {
+    await database?.close();
+  });
+
+  beforeEach(async () => {
+    if (!database) {
+      storage = new MemStorage();
+      return;
+    }
+    await database.db.execute(sql.raw(`TRUNCATE ${tableNames.map((name) => `"${name}"`).join(', ')} RESTART IDENTITY`));
+    storage = new DbStorage(database.db);
+  });
+
+  describe('users', () => {
+    it('finds users by id and username', async () => {
+      const user = await storage.createUser({ username: 'alice', password: 'secret' });
+
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByUsername('alice')).toEqual(user);
+      expect(await storage.getUserByUsername('bob')).toBeUndefined();
+    });
+  });
+
+  describe('bot templates', () => {
+    const template = { id: 'xylo', name: 'XYLO-MD', owner: 'DAV-EX', repo: 'XYLO-MD' };
+
+    it('fills in defaults and lists templates oldest first', async () => {
+      const created = await storage.createBotTemplate(template);
+      await tick();
+      await storage.createBotTemplate({ ...template, id: 'other', name: 'Other' });
+
+      expect(created).toMatchObject({ defaultBranch: 'main', configPath: 'config.js', workflowTemplate: 'default', enabled: true, description: null });
+      expect((await storage.getBotTemplates()).map((t) => t.id)).toEqual(['xylo', 'other']);
+    });
+
+    it('rejects a second template with the same id', async () => {
+      await storage.createBotTemplate(template);
+      await expect(storage.createBotTemplate(template)).rejects.toThrow();
+    });
+
+    it('updates and deletes templates', async () => {
+      await storage.createBotTemplate(template);
+
+      expect(await storage.updateBotTemplate('xylo', { enabled: false })).toMatchObject({ id: 'xylo', enabled: false });
+      expect(await storage.updateBotTemplate('missing', { enabled: false })).toBeUndefined();
+      expect(await storage.deleteBotTemplate('xylo')).toBe(true);
+      expect(await storage.deleteBotTemplate('xylo')).toBe(false);
+      expect(await storage.getBotTemplate('xylo')).toBeUndefined();
+    });
+  });
+
+  describe('bot instances', () => {
+    const instance = { githubUsername: 'alice', name: 'Bot 1', sessionId: 'XYLO~session' };
+
+    it('lists a user\'s instances oldest first', async () => {
+      const first = await storage.createBotInstance(instance);
+      await tick();
+      await storage.createBotInstance({ ...instance, name: 'Bot 2' });
+      await storage.createBotInstance({ ...instance, githubUsername: 'bob' });
+
+      expect(first).toMatchObject({ templateId: 'default', sessionMode: 'secret', target: 'github-actions', branchName: null, workflowOptions: null });
+      expect((await storage.getBotInstancesByUser('alice')).map((i) => i.name)).toEqual(['Bot 1', 'Bot 2']);
+    });
+
+    it('rejects a second instance with the same name for a user', async () => {
+      await storage.createBotInstance(instance);
+      await expect(storage.createBotInstance(instance)).rejects.toThrow();
+    });
+
+    it('updates and deletes instances', async () => {
+      const created = await storage.createBotInstance(instance);
+
+      expect(await storage.updateBotInstance(created.id, { branchName: 'xylo-abc' })).toMatchObject({ branchName: 'xylo-abc' });
+      expect(await storage.deleteBotInstance(created.id)).toBe(true);
+      expect(await storage.getBotInstance(created.id)).toBeUndefined();
+      expect(await storage.deleteBotInstance(created.id)).toBe(false);
+    });
+  });
+
+  describe('deployments', () => {
+    it('fills in defaults', async () => {
+      const deployment = await storage.createDeployment(deploymentFields);
+
+      expect(deployment).toMatchObject({
+        instanceId: null,
+        templateId: 'default',
+        sessionMode: 'committed',
+        target: 'github-actions',
+        status: 'pending',
+        branchName: null,
+        sourceRef: null,
+        commitSha: null,
+        workflowRunId: null,
+        workflowOptions: null,
+      });
+      expect(await storage.getDeployment(deployment.id)).toEqual(deployment);
+    });
+
+    it('filters by user, instance and status', async () => {
+      const a = await storage.createDeployment({ ...deploymentFields, instanceId: 'one', status: 'running' });
+      const b = await storage.createDeployment({ ...deploymentFields, instanceId: 'two' });
+      const c = await storage.createDeployment({ ...deploymentFields, githubUsername: 'bob', status: 'failed' });
+      const ids = (deployments: { id: string }[]) => deployments.map((d) => d.id).sort();
+
+      expect(ids(await storage.getDeploymentsByUser('alice'))).toEqual(ids([a, b]));
+      expect(ids(await storage.getDeploymentsByUser('alice', 'two'))).toEqual([b.id]);
+      expect(ids(await storage.getDeploymentsByStatus(['running', 'failed']))).toEqual(ids([a, c]));
+      expect(ids(await storage.getAllDeployments())).toEqual(ids([a, b, c]));
+    });
+
+    it('updates deployments and moves updatedAt forward', async () => {
+      const deployment = await storage.createDeployment(deploymentFields);
+      await tick();
+      const updated = await storage.updateDeployment(deployment.id, { status: 'running', workflowRunId: 42 });
+
+      expect(updated).toMatchObject({ status: 'running', workflowRunId: 42 });
+      expect(updated!.updatedAt.getTime()).toBeGreaterThan(deployment.updatedAt.getTime());
+      expect(await storage.updateDeployment('missing', { status: 'running' })).toBeUndefined();
+    });
+
+    it('deletes a deployment with its logs, steps and jobs only', async () => {
+      const doomed = await storage.createDeployment(deploymentFields);
+      const kept = await storage.createDeployment(deploymentFields);
+      for (const deployment of [doomed, kept]) {
+        await storage.createDeploymentLog({ deploymentId: deployment.id, step: 'init', status: 'success', message: 'ok' });
+        await storage.saveDeploymentStep({ deploymentId: deployment.id, name: 'init', position: 0, status: 'success' });
+        await storage.createDeploymentJob({ deploymentId: deployment.id, githubUsername: 'alice', kind: 'deploy' });
+      }
+
+      expect(await storage.deleteDeployment(doomed.id)).toBe(true);
+      expect(await storage.getDeployment(doomed.id)).toBeUndefined();
+      expect(await storage.getDeploymentLogs(doomed.id)).toEqual([]);
+      expect(await storage.getDeploymentSteps(doomed.id)).toEqual([]);
+      expect((await storage.getUnfinishedDeploymentJobs()).map((job) => job.deploymentId)).toEqual([kept.id]);
+      expect(await storage.getDeploymentLogs(kept.id)).toHaveLength(1);
+      expect(await storage.getDeploymentSteps(kept.id)).toHaveLength(1);
+      expect(await storage.deleteDeployment(doomed.id)).toBe(false);
+    });
+  });
+
+  describe('deployment logs', () => {
+    it('numbers logs across deployments and replays after a cursor', async () => {
+      const a = await storage.createDeployment(deploymentFields);
+      const b = await storage.createDeployment(deploymentFields);
+      const first = await storage.createDeploymentLog({ deploymentId: a.id, step: 'fork', status: 'running', message: '1' });
+      const other = await storage.createDeploymentLog({ deploymentId: b.id, step: 'fork', status: 'running', message: 'b' });
+      const second = await storage.createDeploymentLog({ deploymentId: a.id, step: 'fork', status: 'success', message: '2' });
+      const third = await storage.createDeploymentLog({ deploymentId: a.id, step: 'branch', status: 'success', message: '3' });
+
+      expect(other.sequence).toBeGreaterThan(first.sequence);
+      expect(second.sequence).toBeGreaterThan(other.sequence);
+      expect((await storage.getDeploymentLogs(a.id)).map((log) => log.message)).toEqual(['1', '2', '3']);
+      expect((await storage.getDeploymentLogs(a.id, first.sequence)).map((log) => log.message)).toEqual(['2', '3']);
+      expect(await storage.getDeploymentLogs(a.id, third.sequence)).toEqual([]);
+    });
+  });
+
+  describe('deployment steps', () => {
+    it('upserts steps by deployment and name and lists them by position', async () => {
+      const deployment = await storage.createDeployment(deploymentFields);
+      const running = await storage.saveDeploymentStep({ deploymentId: deployment.id, name: 'fork', position: 1, status: 'running', input: { login: 'alice' } });
+      await storage.saveDeploymentStep({ deploymentId: deployment.id, name: 'init', position: 0, status: 'success', output: { login: 'alice' } });
+      const done = await storage.saveDeploymentStep({ deploymentId: deployment.id, name: 'fork', position: 1, status: 'failed', input: { login: 'alice' }, error: 'boom' });
+
+      expect(done.id).toBe(running.id);
+      const steps = await storage.getDeploymentSteps(deployment.id);
+      expect(steps.map((step) => [step.name, step.status])).toEqual([['init', 'success'], ['fork', 'failed']]);
+      expect(steps[0]).toMatchObject({ input: null, output: { login: 'alice' }, error: null });
+      expect(steps[1]).toMatchObject({ input: { login: 'alice' }, output: null, error: 'boom' });
+    });
+  });
+
+  describe('deployment jobs', () => {
+    it('lists queued and running jobs oldest first', async () => {
+      const first = await storage.createDeploymentJob({ deploymentId: 'a', githubUsername: 'alice', kind: 'deploy' });
+      await tick();
+      const second = await storage.createDeploymentJob({ deploymentId: 'b', githubUsername: 'alice', kind: 'restart' });
+      await tick();
+      const finished = await storage.createDeploymentJob({ deploymentId: 'c', githubUsername: 'alice', kind: 'deploy' });
+
+      expect(first).toMatchObject({ status: 'queued', attempts: 0, error: null });
+      await storage.updateDeploymentJob(first.id, { status: 'running', attempts: 1 });
+      await storage.updateDeploymentJob(finished.id, { status: 'completed' });
+      expect(await storage.updateDeploymentJob('missing', { status: 'failed' })).toBeUndefined();
+
+      const unfinished = await storage.getUnfinishedDeploymentJobs();
+      expect(unfinished.map((job) => [job.id, job.status])).toEqual([[first.id, 'running'], [second.id, 'queued']]);
+    });
+  });
+
+  describe('audit events', () => {
+    it('pages through a user\'s events newest first', async () => {
+      for (let i = 1; i <= 5; i++) {
+        await storage.createAuditEvent({ githubUsername: 'alice', actor: 'alice', action: `action-${i}`, result: 'success' });
+        await tick();
+      }
+      await storage.createAuditEvent({ githubUsername: 'bob', actor: 'bob', action: 'deploy', result: 'success' });
+      await storage.createAuditEvent({ githubUsername: null, actor: 'anonymous', action: 'auth.login', result: 'failure' });
+
+      const first = await storage.getAuditEvents('alice', { limit: 2, offset: 0 });
+      const last = await storage.getAuditEvents('alice', { limit: 2, offset: 4 });
+
+      expect(first.total).toBe(5);
+      expect(first.events.map((event) => event.action)).toEqual(['action-5', 'action-4']);
+      expect(last.events.map((event) => event.action)).toEqual(['action-1']);
+      expect((await storage.getAuditEvents('alice', { limit: 2, offset: 6 })).events).toEqual([]);
+    });
+
+    it('keeps the GitHub calls and fills in missing fields', async () => {
+      const calls = [{ method: 'POST', path: 'repos/DAV-EX/XYLO-MD/forks', status: 202 }];
+      const event = await storage.createAuditEvent({ githubUsername: 'alice', actor: 'alice', action: 'setup', result: 'success', githubCalls: calls });
+      const bare = await storage.createAuditEvent({ githubUsername: 'alice', actor: 'system', action: 'job.deploy', result: 'failure' });
+
+      expect(event.githubCalls).toEqual(calls);
+      expect(bare).toMatchObject({ targetRepo: null, deploymentId: null, message: null, githubCalls: [] });
+    });
+  });
+});
@@ -1,27 +1,63 @@
-import { type User, type InsertUser, type Deployment, type InsertDeployment, type DeploymentLog, type InsertDeploymentLog } from "@shared/schema";
+import { type User, type InsertUser, type BotTemplate, type InsertBotTemplate, type BotInstance, type InsertBotInstance, type Deployment, type InsertDeployment, type DeploymentLog, type InsertDeploymentLog, type DeploymentStep, type InsertDeploymentStep, type DeploymentJob, type InsertDeploymentJob, type AuditEvent, type InsertAuditEvent, users, botTemplates, botInstances, deployments, deploymentLogs, deploymentSteps, deploymentJobs, auditEvents } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, asc, count, desc, eq, gt, inArray, type SQL } from "drizzle-orm";
+import { createDb, type Database } from "./db";
+import { deploymentEvents } from "./events";
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getBotTemplate(id: string): Promise<BotTemplate | undefined>;
+  getBotTemplates(): Promise<BotTemplate[]>;
+  createBotTemplate(template: InsertBotTemplate): Promise<BotTemplate>;
+  updateBotTemplate(id: string, updates: Partial<InsertBotTemplate>): Promise<BotTemplate | undefined>;
+  deleteBotTemplate(id: string): Promise<boolean>;
+  getBotInstance(id: string): Promise<BotInstance | undefined>;
+  getBotInstancesByUser(githubUsername: string): Promise<BotInstance[]>;
+  createBotInstance(instance: InsertBotInstance): Promise<BotInstance>;
+  updateBotInstance(id: string, updates: Partial<InsertBotInstance>): Promise<BotInstance | undefined>;
+  deleteBotInstance(id: string): Promise<boolean>;
   getDeployment(id: string): Promise<Deployment | undefined>;
   createDeployment(deployment: InsertDeployment): Promise<Deployment>;
   updateDeployment(id: string, updates: Partial<InsertDeployment>): Promise<Deployment | undefined>;
-  getDeploymentsByUser(githubUsername: string): Promise<Deployment[]>;
+  deleteDeployment(id: string): Promise<boolean>;
+  // Pass an instance ID to only get that bot instance's deployments
+  getDeploymentsByUser(githubUsername: string, instanceId?: string): Promise<Deployment[]>;
+  getAllDeployments(): Promise<Deployment[]>;
+  getDeploymentsByStatus(statuses: string[]): Promise<Deployment[]>;
   createDeploymentLog(log: InsertDeploymentLog): Promise<DeploymentLog>;
-  getDeploymentLogs(deploymentId: string): Promise<DeploymentLog[]>;
+  getDeploymentLogs(deploymentId: string, afterSequence?: number): Promise<DeploymentLog[]>;
+  getDeploymentSteps(deploymentId: string): Promise<DeploymentStep[]>;
+  saveDeploymentStep(step: InsertDeploymentStep): Promise<DeploymentStep>;
+  createDeploymentJob(job: InsertDeploymentJob): Promise<DeploymentJob>;
+  updateDeploymentJob(id: string, updates: Partial<InsertDeploymentJob>): Promise<DeploymentJob | undefined>;
+  getUnfinishedDeploymentJobs(): Promise<DeploymentJob[]>;
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  // Newest first
+  getAuditEvents(githubUsername: string, page: { limit: number; offset: number }): Promise<{ events: AuditEvent[]; total: number }>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private botTemplates: Map<string, BotTemplate>;
+  private botInstances: Map<string, BotInstance>;
   private deployments: Map<string, Deployment>;
   private deploymentLogs: Map<string, DeploymentLog>;
+  private deploymentSteps: Map<string, DeploymentStep>;
+  private deploymentJobs: Map<string, DeploymentJob>;
+  private auditEvents: AuditEvent[];
+  private logSequence = 0;
 
   constructor() {
     this.users = new Map();
+    this.botTemplates = new Map();
+    this.botInstances = new Map();
     this.deployments = new Map();
     this.deploymentLogs = new Map();
+    this.deploymentSteps = new Map();
+    this.deploymentJobs = new Map();
+    this.auditEvents = [];
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -41,6 +77,105 @@ export class MemStorage implements IStorage {
     return user;
   }
 
+  async getBotTemplate(id: string): Promise<BotTemplate | undefined> {
+    return this.botTemplates.get(id);
+  }
+
+  async getBotTemplates(): Promise<BotTemplate[]> {
+    return Array.from(this.botTemplates.values())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createBotTemplate(insertTemplate: InsertBotTemplate): Promise<BotTemplate> {
+    if (this.botTemplates.has(insertTemplate.id)) {
+      throw new Error(`A template with ID '${insertTemplate.id}' already exists`);
+    }
+
+    const now = new Date();
+    const template: BotTemplate = {
+      ...insertTemplate,
+      description: insertTemplate.description ?? null,
+      defaultBranch: insertTemplate.defaultBranch || 'main',
+      configPath: insertTemplate.configPath || 'config.js',
+      workflowTemplate: insertTemplate.workflowTemplate || 'default',
+      enabled: insertTemplate.enabled ?? true,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.botTemplates.set(template.id, template);
+    return template;
+  }
+
+  async updateBotTemplate(id: string, updates: Partial<InsertBotTemplate>): Promise<BotTemplate | undefined> {
+    const template = this.botTemplates.get(id);
+    if (!template) return undefined;
+
+    const updatedTemplate: BotTemplate = {
+      ...template,
+      ...updates,
+      id,
+      updatedAt: new Date()
+    };
+    this.botTemplates.set(id, updatedTemplate);
+    return updatedTemplate;
+  }
+
+  async deleteBotTemplate(id: string): Promise<boolean> {
+    return this.botTemplates.delete(id);
+  }
+
+  async getBotInstance(id: string): Promise<BotInstance | undefined> {
+    return this.botInstances.get(id);
+  }
+
+  async getBotInstancesByUser(githubUsername: string): Promise<BotInstance[]> {
+    return Array.from(this.botInstances.values())
+      .filter((instance) => instance.githubUsername === githubUsername)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createBotInstance(insertInstance: InsertBotInstance): Promise<BotInstance> {
+    const taken = Array.from(this.botInstances.values()).some(
+      (instance) => instance.githubUsername === insertInstance.githubUsername && instance.name === insertInstance.name,
+    );
+    if (taken) {
+      throw new Error(`A bot named '${insertInstance.name}' already exists`);
+    }
+
+    const id = randomUUID();
+    const now = new Date();
+    const instance: BotInstance = {
+      ...insertInstance,
+      templateId: insertInstance.templateId || 'default',
+      sessionMode: insertInstance.sessionMode || 'secret',
+      target: insertInstance.target || 'github-actions',
+      branchName: insertInstance.branchName || null,
+      workflowOptions: insertInstance.workflowOptions ?? null,
+      id,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.botInstances.set(id, instance);
+    return instance;
+  }
+
+  async updateBotInstance(id: string, updates: Partial<InsertBotInstance>): Promise<BotInstance | undefined> {
+    const instance = this.botInstances.get(id);
+    if (!instance) return undefined;
+
+    const updatedInstance: BotInstance = {
+      ...instance,
+      ...updates,
+      updatedAt: new Date()
+    };
+    this.botInstances.set(id, updatedInstance);
+    return updatedInstance;
+  }
+
+  async deleteBotInstance(id: string): Promise<boolean> {
+    return this.botInstances.delete(id);
+  }
+
   async getDeployment(id: string): Promise<Deployment | undefined> {
     return this.deployments.get(id);
   }
@@ -50,11 +185,19 @@ export class MemStorage implements IStorage {
     const now = new Date();
     const deployment: Deployment = { 
       ...insertDeployment,
+      instanceId: insertDeployment.instanceId || null,
+      templateId: insertDeployment.templateId || 'default',
       status: insertDeployment.status || 'pending',
+      target: insertDeployment.target || 'github-actions',
+      sessionMode: insertDeployment.sessionMode || 'committed',
       branchName: insertDeployment.branchName || null,
+      sourceRef: insertDeployment.sourceRef || null,
+      commitSha: insertDeployment.commitSha || null,
       githubToken: insertDeployment.githubToken || null,
       message: insertDeployment.message || null,
       workflowUrl: insertDeployment.workflowUrl || null,
+      workflowRunId: insertDeployment.workflowRunId ?? null,
+      workflowOptions: insertDeployment.workflowOptions ?? null,
       id,
       createdAt: now,
       updatedAt: now
@@ -73,12 +216,40 @@ export class MemStorage implements IStorage {
       updatedAt: new Date()
     };
     this.deployments.set(id, updatedDeployment);
+    deploymentEvents.publishDeployment(updatedDeployment);
     return updatedDeployment;
   }
 
-  async getDeploymentsByUser(githubUsername: string): Promise<Deployment[]> {
+  // Removes the deployment along with its logs, step records and jobs
+  async deleteDeployment(id: string): Promise<boolean> {
+    if (!this.deployments.has(id)) return false;
+
+    this.deploymentLogs.forEach((log, key) => {
+      if (log.deploymentId === id) this.deploymentLogs.delete(key);
+    });
+    this.deploymentSteps.forEach((step, key) => {
+      if (step.deploymentId === id) this.deploymentSteps.delete(key);
+    });
+    this.deploymentJobs.forEach((job, key) => {
+      if (job.deploymentId === id) this.deploymentJobs.delete(key);
+    });
+    return this.deployments.delete(id);
+  }
+
+  async getDeploymentsByUser(githubUsername: string, instanceId?: string): Promise<Deployment[]> {
     return Array.from(this.deployments.values()).filter(
-      (deployment) => deployment.githubUsername === githubUsername,
+      (deployment) => deployment.githubUsername === githubUsername
+        && (instanceId === undefined || deployment.instanceId === instanceId),
+    );
+  }
+
+  async getAllDeployments(): Promise<Deployment[]> {
+    return Array.from(this.deployments.values());
+  }
+
+  async getDeploymentsByStatus(statuses: string[]): Promise<Deployment[]> {
+    return Array.from(this.deployments.values()).filter(
+      (deployment) => statuses.includes(deployment.status),
     );
   }
 
@@ -87,17 +258,299 @@ export class MemStorage implements IStorage {
     const log: DeploymentLog = {
       ...insertLog,
       id,
+      sequence: ++this.logSequence,
       timestamp: new Date()
     };
     this.deploymentLogs.set(id, log);
+    deploymentEvents.publishLog(log);
     return log;
   }
 
-  async getDeploymentLogs(deploymentId: string): Promise<DeploymentLog[]> {
+  async getDeploymentLogs(deploymentId: string, afterSequence = 0): Promise<DeploymentLog[]> {
     return Array.from(this.deploymentLogs.values())
-      .filter((log) => log.deploymentId === deploymentId)
-      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+      .filter((log) => log.deploymentId === deploymentId && log.sequence > afterSequence)
+      .sort((a, b) => a.sequence - b.sequence);
+  }
+
+  async getDeploymentSteps(deploymentId: string): Promise<DeploymentStep[]> {
+    return Array.from(this.deploymentSteps.values())
+      .filter((step) => step.deploymentId === deploymentId)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  async saveDeploymentStep(insertStep: InsertDeploymentStep): Promise<DeploymentStep> {
+    const existing = Array.from(this.deploymentSteps.values()).find(
+      (step) => step.deploymentId === insertStep.deploymentId && step.name === insertStep.name,
+    );
+    const step: DeploymentStep = {
+      ...insertStep,
+      input: insertStep.input ?? null,
+      output: insertStep.output ?? null,
+      error: insertStep.error ?? null,
+      id: existing?.id ?? randomUUID(),
+      updatedAt: new Date()
+    };
+    this.deploymentSteps.set(step.id, step);
+    return step;
+  }
+
+  async createDeploymentJob(insertJob: InsertDeploymentJob): Promise<DeploymentJob> {
+    const id = randomUUID();
+    const now = new Date();
+    const job: DeploymentJob = {
+      ...insertJob,
+      status: insertJob.status || 'queued',
+      attempts: insertJob.attempts ?? 0,
+      error: insertJob.error || null,
+      id,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.deploymentJobs.set(id, job);
+    return job;
+  }
+
+  async updateDeploymentJob(id: string, updates: Partial<InsertDeploymentJob>): Promise<DeploymentJob | undefined> {
+    const job = this.deploymentJobs.get(id);
+    if (!job) return undefined;
+
+    const updatedJob: DeploymentJob = {
+      ...job,
+      ...updates,
+      updatedAt: new Date()
+    };
+    this.deploymentJobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async getUnfinishedDeploymentJobs(): Promise<DeploymentJob[]> {
+    return Array.from(this.deploymentJobs.values())
+      .filter((job) => job.status === 'queued' || job.status === 'running')
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createAuditEvent(insertEvent: InsertAuditEvent): Promise<AuditEvent> {
+    const event: AuditEvent = {
+      ...insertEvent,
+      githubUsername: insertEvent.githubUsername || null,
+      targetRepo: insertEvent.targetRepo || null,
+      deploymentId: insertEvent.deploymentId || null,
+      message: insertEvent.message || null,
+      githubCalls: insertEvent.githubCalls ?? [],
+      id: randomUUID(),
+      createdAt: new Date()
+    };
+    this.auditEvents.push(event);
+    return event;
+  }
+
+  async getAuditEvents(githubUsername: string, { limit, offset }: { limit: number; offset: number }) {
+    // Events are appended in order, so reversing gives newest first
+    const events = this.auditEvents.filter((event) => event.githubUsername === githubUsername).reverse();
+    return { events: events.slice(offset, offset + limit), total: events.length };
+  }
+}
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getBotTemplate(id: string): Promise<BotTemplate | undefined> {
+    const [template] = await this.db.select().from(botTemplates).where(eq(botTemplates.id, id));
+    return template;
+  }
+
+  async getBotTemplates(): Promise<BotTemplate[]> {
+    return this.db.select().from(botTemplates).orderBy(asc(botTemplates.createdAt));
+  }
+
+  async createBotTemplate(insertTemplate: InsertBotTemplate): Promise<BotTemplate> {
+    const [template] = await this.db.insert(botTemplates).values(insertTemplate).returning();
+    return template;
+  }
+
+  async updateBotTemplate(id: string, updates: Partial<InsertBotTemplate>): Promise<BotTemplate | undefined> {
+    const [template] = await this.db
+      .update(botTemplates)
+      .set({ ...updates, id, updatedAt: new Date() })
+      .where(eq(botTemplates.id, id))
+      .returning();
+    return template;
+  }
+
+  async deleteBotTemplate(id: string): Promise<boolean> {
+    const removed = await this.db.delete(botTemplates).where(eq(botTemplates.id, id)).returning({ id: botTemplates.id });
+    return removed.length > 0;
+  }
+
+  async getBotInstance(id: string): Promise<BotInstance | undefined> {
+    const [instance] = await this.db.select().from(botInstances).where(eq(botInstances.id, id));
+    return instance;
+  }
+
+  async getBotInstancesByUser(githubUsername: string): Promise<BotInstance[]> {
+    return this.db
+      .select()
+      .from(botInstances)
+      .where(eq(botInstances.githubUsername, githubUsername))
+      .orderBy(asc(botInstances.createdAt));
+  }
+
+  async createBotInstance(insertInstance: InsertBotInstance): Promise<BotInstance> {
+    const [instance] = await this.db.insert(botInstances).values(insertInstance).returning();
+    return instance;
+  }
+
+  async updateBotInstance(id: string, updates: Partial<InsertBotInstance>): Promise<BotInstance | undefined> {
+    const [instance] = await this.db
+      .update(botInstances)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(botInstances.id, id))
+      .returning();
+    return instance;
+  }
+
+  async deleteBotInstance(id: string): Promise<boolean> {
+    const removed = await this.db.delete(botInstances).where(eq(botInstances.id, id)).returning({ id: botInstances.id });
+    return removed.length > 0;
+  }
+
+  async getDeployment(id: string): Promise<Deployment | undefined> {
+    const [deployment] = await this.db.select().from(deployments).where(eq(deployments.id, id));
+    return deployment;
+  }
+
+  async createDeployment(insertDeployment: InsertDeployment): Promise<Deployment> {
+    const [deployment] = await this.db.insert(deployments).values(insertDeployment).returning();
+    return deployment;
+  }
+
+  async updateDeployment(id: string, updates: Partial<InsertDeployment>): Promise<Deployment | undefined> {
+    const [deployment] = await this.db
+      .update(deployments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(deployments.id, id))
+      .returning();
+    if (deployment) deploymentEvents.publishDeployment(deployment);
+    return deployment;
+  }
+
+  async deleteDeployment(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(deploymentLogs).where(eq(deploymentLogs.deploymentId, id));
+      await tx.delete(deploymentSteps).where(eq(deploymentSteps.deploymentId, id));
+      await tx.delete(deploymentJobs).where(eq(deploymentJobs.deploymentId, id));
+      const removed = await tx.delete(deployments).where(eq(deployments.id, id)).returning({ id: deployments.id });
+      return removed.length > 0;
+    });
+  }
+
+  async getDeploymentsByUser(githubUsername: string, instanceId?: string): Promise<Deployment[]> {
+    const conditions: SQL[] = [eq(deployments.githubUsername, githubUsername)];
+    if (instanceId !== undefined) conditions.push(eq(deployments.instanceId, instanceId));
+    return this.db.select().from(deployments).where(and(...conditions));
+  }
+
+  async getAllDeployments(): Promise<Deployment[]> {
+    return this.db.select().from(deployments);
+  }
+
+  async getDeploymentsByStatus(statuses: string[]): Promise<Deployment[]> {
+    return this.db.select().from(deployments).where(inArray(deployments.status, statuses));
+  }
+
+  async createDeploymentLog(insertLog: InsertDeploymentLog): Promise<DeploymentLog> {
+    const [log] = await this.db.insert(deploymentLogs).values(insertLog).returning();
+    deploymentEvents.publishLog(log);
+    return log;
+  }
+
+  async getDeploymentLogs(deploymentId: string, afterSequence = 0): Promise<DeploymentLog[]> {
+    return this.db
+      .select()
+      .from(deploymentLogs)
+      .where(and(eq(deploymentLogs.deploymentId, deploymentId), gt(deploymentLogs.sequence, afterSequence)))
+      .orderBy(asc(deploymentLogs.sequence));
+  }
+
+  async getDeploymentSteps(deploymentId: string): Promise<DeploymentStep[]> {
+    return this.db
+      .select()
+      .from(deploymentSteps)
+      .where(eq(deploymentSteps.deploymentId, deploymentId))
+      .orderBy(asc(deploymentSteps.position));
+  }
+
+  async saveDeploymentStep(insertStep: InsertDeploymentStep): Promise<DeploymentStep> {
+    const [step] = await this.db
+      .insert(deploymentSteps)
+      .values(insertStep)
+      .onConflictDoUpdate({
+        target: [deploymentSteps.deploymentId, deploymentSteps.name],
+        set: { ...insertStep, updatedAt: new Date() },
+      })
+      .returning();
+    return step;
+  }
+
+  async createDeploymentJob(insertJob: InsertDeploymentJob): Promise<DeploymentJob> {
+    const [job] = await this.db.insert(deploymentJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async updateDeploymentJob(id: string, updates: Partial<InsertDeploymentJob>): Promise<DeploymentJob | undefined> {
+    const [job] = await this.db
+      .update(deploymentJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(deploymentJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async getUnfinishedDeploymentJobs(): Promise<DeploymentJob[]> {
+    return this.db
+      .select()
+      .from(deploymentJobs)
+      .where(inArray(deploymentJobs.status, ['queued', 'running']))
+      .orderBy(asc(deploymentJobs.createdAt));
+  }
+
+  async createAuditEvent(insertEvent: InsertAuditEvent): Promise<AuditEvent> {
+    const [event] = await this.db.insert(auditEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async getAuditEvents(githubUsername: string, { limit, offset }: { limit: number; offset: number }) {
+    const condition = eq(auditEvents.githubUsername, githubUsername);
+    const [events, [{ total }]] = await Promise.all([
+      this.db
+        .select()
+        .from(auditEvents)
+        .where(condition)
+        .orderBy(desc(auditEvents.createdAt))
+        .limit(limit)
+        .offset(offset),
+      this.db.select({ total: count() }).from(auditEvents).where(condition),
+    ]);
+    return { events, total };
   }
 }
 
-export const storage = new MemStorage();
+// Persist to Postgres when a database is provisioned, otherwise keep everything in memory
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DbStorage(createDb(process.env.DATABASE_URL))
+  : new MemStorage();
@@ -0,0 +1,44 @@
+import { spawn } from "child_process";
+import { promises as fs } from "fs";
+import path from "path";
+import { GITHUB_URL, LOCAL_TARGET_DIR } from "../config";
+
+// Output of setup commands included in their error when they fail
+const COMMAND_OUTPUT_LINES = 20;
+
+// Working copy of a deployment's branch, for targets that run the bot outside GitHub
+export function workdirFor(deploymentId: string) {
+  return path.join(LOCAL_TARGET_DIR, deploymentId);
+}
+
+// Runs a command to completion; a non-zero exit fails with the tail of its output
+export function runCommand(command: string, args: string[], cwd: string, env: NodeJS.ProcessEnv = process.env) {
+  return new Promise<void>((resolve, reject) => {
+    let output = '';
+    const child = spawn(command, args, { cwd, env });
+    child.stdout.on('data', (chunk) => { output += chunk; });
+    child.stderr.on('data', (chunk) => { output += chunk; });
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code === 0) return resolve();
+      const tail = output.split(/\r?\n/).filter(Boolean).slice(-COMMAND_OUTPUT_LINES).join('\n');
+      reject(new Error(`${command} ${args[0]} exited with code ${code}: ${tail}`));
+    });
+  });
+}
+
+// Replaces the deployment's working copy with a fresh shallow clone of its branch
+export async function cloneBranch(deploymentId: string, login: string, repo: string, branchName: string, token: string) {
+  const workdir = workdirFor(deploymentId);
+  await fs.rm(workdir, { recursive: true, force: true });
+  await fs.mkdir(LOCAL_TARGET_DIR, { recursive: true });
+
+  // Pass the token as a header so it is not written to the clone's .git/config
+  const auth = Buffer.from(`x-access-token:${token}`).toString('base64');
+  await runCommand('git', [
+    '-c', `http.extraHeader=Authorization: Basic ${auth}`,
+    'clone', '--depth', '1', '--branch', branchName,
+    `${GITHUB_URL}/${login}/${repo}.git`, workdir,
+  ], LOCAL_TARGET_DIR);
+  return workdir;
+}
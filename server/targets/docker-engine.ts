@@ -0,0 +1,196 @@
+import axios, { type Method } from "axios";
+import type { Readable } from "stream";
+import { DOCKER_SOCKET } from "../config";
+
+// A non-2xx response from the Docker Engine API
+export class DockerApiError extends Error {
+  constructor(message: string, public status: number, public method: string, public path: string) {
+    super(message);
+    this.name = 'DockerApiError';
+  }
+}
+
+export interface ContainerSummary {
+  Id: string;
+  Names: string[];
+  Image: string;
+  State: string; // created, running, restarting, exited, ...
+  Status: string;
+  Labels: Record<string, string>;
+}
+
+export interface ContainerInspect {
+  Id: string;
+  Name: string;
+  RestartCount: number;
+  State: {
+    Status: string;
+    Running: boolean;
+    Restarting: boolean;
+    ExitCode: number;
+    Error: string;
+    StartedAt: string;
+    FinishedAt: string;
+  };
+}
+
+export interface ContainerSpec {
+  Image: string;
+  Env?: string[];
+  Labels?: Record<string, string>;
+  HostConfig?: {
+    Memory?: number;
+    NanoCpus?: number;
+    PidsLimit?: number;
+    RestartPolicy?: { Name: 'no' | 'always' | 'on-failure' | 'unless-stopped'; MaximumRetryCount?: number };
+  };
+}
+
+interface RequestOptions {
+  body?: any;
+  query?: Record<string, string | number | boolean | undefined>;
+  headers?: Record<string, string>;
+  stream?: boolean;
+}
+
+async function readStream(stream: Readable) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks).toString();
+}
+
+export function isDockerNotFound(error: unknown) {
+  return error instanceof DockerApiError && error.status === 404;
+}
+
+// Minimal client for the Docker Engine API over its unix socket
+export class DockerEngine {
+  constructor(private socketPath = DOCKER_SOCKET) {}
+
+  async request<T>(method: Method, path: string, options: RequestOptions = {}): Promise<T> {
+    const query = Object.entries(options.query ?? {})
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(String(value))}`)
+      .join('&');
+
+    const response = await axios({
+      method,
+      socketPath: this.socketPath,
+      url: `http://docker/${path}${query ? `?${query}` : ''}`,
+      headers: options.headers,
+      data: options.body,
+      responseType: options.stream ? 'stream' : 'json',
+      // Build contexts are streamed and can be large
+      maxBodyLength: Infinity,
+      validateStatus: () => true,
+    });
+
+    if (response.status >= 200 && response.status < 300) {
+      return response.data as T;
+    }
+    // 304: the container was already started or stopped
+    if (response.status === 304) {
+      return undefined as T;
+    }
+
+    let data = response.data;
+    if (options.stream) {
+      data = await readStream(data);
+      try { data = JSON.parse(data); } catch {}
+    }
+    const message = (data && typeof data === 'object' && data.message) || (typeof data === 'string' && data) || `HTTP ${response.status}`;
+    throw new DockerApiError(message, response.status, method, path);
+  }
+
+  // Images
+
+  // Builds an image from a tar build context, passing build output to
+  // `onOutput`. Rejects with the builder's error if a step fails.
+  async buildImage(tag: string, context: Readable, options: { dockerfile?: string; onOutput?: (line: string) => void } = {}) {
+    const stream = await this.request<Readable>('POST', 'build', {
+      query: { t: tag, dockerfile: options.dockerfile, rm: true, forcerm: true },
+      headers: { 'Content-Type': 'application/x-tar' },
+      body: context,
+      stream: true,
+    });
+
+    // The response is a stream of JSON messages, one per line
+    let buffered = '';
+    let buildError: string | null = null;
+    for await (const chunk of stream) {
+      buffered += chunk.toString();
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          const message = JSON.parse(line);
+          if (message.error) buildError = message.error;
+          else if (message.stream?.trim()) options.onOutput?.(message.stream.trim());
+        } catch {
+          options.onOutput?.(line);
+        }
+      }
+    }
+
+    if (buildError) {
+      throw new DockerApiError(`Image build failed: ${buildError}`, 500, 'POST', 'build');
+    }
+  }
+
+  removeImage(image: string) {
+    return this.request<void>('DELETE', `images/${encodeURIComponent(image)}`, { query: { force: true } });
+  }
+
+  // Containers
+
+  listContainers(labels: string[]) {
+    return this.request<ContainerSummary[]>('GET', 'containers/json', {
+      query: { all: true, filters: JSON.stringify({ label: labels }) },
+    });
+  }
+
+  createContainer(name: string, spec: ContainerSpec) {
+    return this.request<{ Id: string }>('POST', 'containers/create', { query: { name }, body: spec });
+  }
+
+  inspectContainer(id: string) {
+    return this.request<ContainerInspect>('GET', `containers/${id}/json`);
+  }
+
+  startContainer(id: string) {
+    return this.request<void>('POST', `containers/${id}/start`);
+  }
+
+  stopContainer(id: string, timeoutSeconds = 10) {
+    return this.request<void>('POST', `containers/${id}/stop`, { query: { t: timeoutSeconds } });
+  }
+
+  removeContainer(id: string) {
+    return this.request<void>('DELETE', `containers/${id}`, { query: { force: true } });
+  }
+
+  // Raw log stream. Without a TTY stdout and stderr are multiplexed, see demuxLogs().
+  containerLogs(id: string, options: { follow?: boolean; since?: number; tail?: number } = {}) {
+    return this.request<Readable>('GET', `containers/${id}/logs`, {
+      query: { stdout: true, stderr: true, follow: options.follow, since: options.since, tail: options.tail },
+      stream: true,
+    });
+  }
+}
+
+// Splits a multiplexed log stream into stdout and stderr payloads. Each frame
+// is an 8 byte header (stream type, 3 unused bytes, big-endian size) followed
+// by the payload; frames may span chunks.
+export async function demuxLogs(stream: Readable, onFrame: (stream: 'stdout' | 'stderr', payload: Buffer) => void) {
+  let buffered = Buffer.alloc(0);
+  for await (const chunk of stream) {
+    buffered = Buffer.concat([buffered, Buffer.from(chunk)]);
+    while (buffered.length >= 8) {
+      const size = buffered.readUInt32BE(4);
+      if (buffered.length < 8 + size) break;
+      onFrame(buffered[0] === 2 ? 'stderr' : 'stdout', buffered.subarray(8, 8 + size));
+      buffered = buffered.subarray(8 + size);
+    }
+  }
+}
@@ -0,0 +1,363 @@
+import { execFileSync } from "child_process";
+import express, { type Response } from "express";
+import { existsSync, mkdtempSync, promises as fs } from "fs";
+import type { Server } from "http";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Readable } from "stream";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+
+// Bot code is cloned from a bare repository standing in for the user's fork,
+// and the Engine API is a stub listening on its own socket
+const root = mkdtempSync(join(tmpdir(), 'xylo-docker-'));
+process.env.DOCKER_SOCKET = join(root, 'docker.sock');
+process.env.GITHUB_URL = `file://${join(root, 'github')}`;
+process.env.LOCAL_TARGET_DIR = join(root, 'bots');
+
+const { storage } = await import("../storage");
+const { createTargetContext } = await import("../deployment-runner");
+const { DockerApiError, DockerEngine, demuxLogs } = await import("./docker-engine");
+const { dockerTarget } = await import("./docker");
+
+function frame(stream: 1 | 2, text: string) {
+  const header = Buffer.alloc(8);
+  header[0] = stream;
+  header.writeUInt32BE(Buffer.byteLength(text), 4);
+  return Buffer.concat([header, Buffer.from(text)]);
+}
+
+interface StubContainer {
+  id: string;
+  name: string;
+  spec: any;
+  running: boolean;
+  exitCode: number;
+  restartCount: number;
+  output: Buffer[];
+  followers: Response[];
+}
+
+// Just enough of the Docker Engine API for the target
+class StubEngine {
+  readonly app = express();
+  readonly builds: { query: any; context: Buffer }[] = [];
+  readonly images = new Set<string>();
+  readonly containers = new Map<string, StubContainer>();
+  output: Buffer[] = [];
+  private server: Server | null = null;
+  private nextId = 1;
+
+  constructor() {
+    this.app.post('/build', (req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk) => chunks.push(chunk));
+      req.on('end', () => {
+        this.builds.push({ query: req.query, context: Buffer.concat(chunks) });
+        this.images.add(String(req.query.t));
+        res.write(`${JSON.stringify({ stream: 'Step 1/7 : FROM node:20-alpine\n' })}\n`);
+        res.end(`${JSON.stringify({ stream: 'Successfully built\n' })}\n`);
+      });
+    });
+    this.app.delete('/images/:name', (req, res) => {
+      if (!this.images.delete(req.params.name)) return res.status(404).json({ message: 'No such image' });
+      res.json([{ Untagged: req.params.name }]);
+    });
+
+    this.app.get('/containers/json', (req, res) => {
+      const labels: string[] = JSON.parse(String(req.query.filters)).label;
+      const matching = Array.from(this.containers.values()).filter((container) =>
+        labels.every((label) => {
+          const [name, value] = label.split('=');
+          return container.spec.Labels?.[name] === value;
+        }));
+      res.json(matching.map((container) => ({
+        Id: container.id,
+        Names: [`/${container.name}`],
+        Image: container.spec.Image,
+        State: container.running ? 'running' : 'exited',
+        Status: container.running ? 'Up' : `Exited (${container.exitCode})`,
+        Labels: container.spec.Labels,
+      })));
+    });
+    this.app.post('/containers/create', express.json(), (req, res) => {
+      const id = `c${this.nextId++}`.padEnd(64, '0');
+      this.containers.set(id, {
+        id, name: String(req.query.name), spec: req.body, running: false, exitCode: 0, restartCount: 0, output: this.output, followers: [],
+      });
+      res.status(201).json({ Id: id });
+    });
+    this.app.use('/containers/:id', (req, res, next) => {
+      res.locals.container = this.containers.get(req.params.id);
+      if (!res.locals.container) return res.status(404).json({ message: `No such container: ${req.params.id}` });
+      next();
+    });
+    this.app.post('/containers/:id/start', (_req, res) => {
+      res.locals.container.running = true;
+      res.status(204).end();
+    });
+    this.app.get('/containers/:id/json', (_req, res) => {
+      const container: StubContainer = res.locals.container;
+      res.json({
+        Id: container.id,
+        Name: `/${container.name}`,
+        RestartCount: container.restartCount,
+        State: { Status: container.running ? 'running' : 'exited', Running: container.running, Restarting: false, ExitCode: container.exitCode },
+      });
+    });
+    this.app.get('/containers/:id/logs', (req, res) => {
+      const container: StubContainer = res.locals.container;
+      const tail = req.query.tail ? Number(req.query.tail) : Infinity;
+      res.write(Buffer.concat(container.output.slice(-tail)));
+      if (req.query.follow === 'true' && container.running) {
+        container.followers.push(res);
+      } else {
+        res.end();
+      }
+    });
+    this.app.post('/containers/:id/stop', (_req, res) => {
+      this.exit(res.locals.container, 0);
+      res.status(204).end();
+    });
+    this.app.delete('/containers/:id', (_req, res) => {
+      this.exit(res.locals.container, 0);
+      this.containers.delete(res.locals.container.id);
+      res.status(204).end();
+    });
+  }
+
+  // The bot process ends and Docker gives up restarting it
+  exit(container: StubContainer, code: number, restarts = 0) {
+    if (!container.running) return;
+    Object.assign(container, { running: false, exitCode: code, restartCount: restarts });
+    container.followers.splice(0).forEach((res) => res.end());
+  }
+
+  async listen(socketPath: string) {
+    await new Promise<void>((resolve) => { this.server = this.app.listen(socketPath, resolve); });
+  }
+
+  async close() {
+    this.containers.forEach((container) => this.exit(container, 0));
+    await new Promise((resolve) => this.server?.close(resolve));
+  }
+}
+
+const engine = new StubEngine();
+let deploymentCount = 0;
+
+function git(args: string[], cwd: string) {
+  execFileSync('git', ['-c', 'user.name=Alice', '-c', 'user.email=alice@example.com', ...args], { cwd, stdio: 'pipe' });
+}
+
+// A deployment whose branch holds a small bot
+async function deployment() {
+  const branchName = `xylo-bot-${++deploymentCount}`;
+  const created = await storage.createDeployment({
+    sessionId: 'XYLO-MD~abc123def456',
+    githubUsername: 'alice',
+    repositoryName: 'XYLO-MD',
+    target: 'docker',
+    status: 'running',
+    branchName,
+  });
+  git(['push', '-q', join(root, 'github', 'alice', 'XYLO-MD.git'), `HEAD:refs/heads/${branchName}`], join(root, 'upstream'));
+  return createTargetContext(created, 'gho_alice');
+}
+
+async function logMessages(deploymentId: string, step: string) {
+  return (await storage.getDeploymentLogs(deploymentId)).filter((log) => log.step === step).map((log) => [log.status, log.message]);
+}
+
+beforeAll(async () => {
+  const upstream = join(root, 'upstream');
+  await fs.mkdir(upstream);
+  await fs.writeFile(join(upstream, 'package.json'), '{ "name": "xylo-md", "scripts": { "start": "node index.js" } }');
+  await fs.writeFile(join(upstream, 'index.js'), "console.log('Bot started');\n");
+  git(['init', '-q'], upstream);
+  git(['add', '.'], upstream);
+  git(['commit', '-q', '-m', 'Bot'], upstream);
+  git(['init', '-q', '--bare', join(root, 'github', 'alice', 'XYLO-MD.git')], root);
+
+  await engine.listen(process.env.DOCKER_SOCKET!);
+});
+
+afterEach(() => {
+  engine.output = [];
+});
+
+afterAll(async () => {
+  await engine.close();
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('demuxLogs', () => {
+  async function demux(chunks: Buffer[]) {
+    const frames: [string, string][] = [];
+    await demuxLogs(Readable.from(chunks), (stream, payload) => frames.push([stream, payload.toString()]));
+    return frames;
+  }
+
+  it('splits stdout and stderr frames', async () => {
+    expect(await demux([Buffer.concat([frame(1, 'Bot started\n'), frame(2, 'warning\n'), frame(1, '')])])).toEqual([
+      ['stdout', 'Bot started\n'],
+      ['stderr', 'warning\n'],
+      ['stdout', ''],
+    ]);
+  });
+
+  it('joins frames split across chunks', async () => {
+    const stream = Buffer.concat([frame(1, 'Connected to WhatsApp\n'), frame(2, 'Reconnecting...\n')]);
+
+    // Inside the first header, inside the first payload, and inside the second header
+    expect(await demux([stream.subarray(0, 3), stream.subarray(3, 15), stream.subarray(15, 33), stream.subarray(33)])).toEqual([
+      ['stdout', 'Connected to WhatsApp\n'],
+      ['stderr', 'Reconnecting...\n'],
+    ]);
+  });
+
+  it('drops a frame the stream ends in the middle of', async () => {
+    expect(await demux([frame(1, 'complete\n'), frame(1, 'cut off\n').subarray(0, 12)])).toEqual([['stdout', 'complete\n']]);
+  });
+});
+
+describe('dockerTarget', () => {
+  it('builds the checked out branch into an image', async () => {
+    const ctx = await deployment();
+
+    expect(await dockerTarget.provision(ctx, { sync: true })).toEqual({});
+
+    const build = engine.builds.at(-1)!;
+    expect(build.query).toMatchObject({ t: `xylo-bot:${ctx.deployment.id}`, dockerfile: '.xylo-platform.Dockerfile', rm: 'true' });
+    const context = build.context.toString('latin1');
+    expect(context).toContain('./index.js');
+    expect(context).toContain('./.xylo-platform.Dockerfile');
+    expect(context).not.toContain('./.git/');
+    expect(await logMessages(ctx.deployment.id, 'image')).toEqual([
+      ['running', `Building image xylo-bot:${ctx.deployment.id} from node:20-alpine...`],
+      ['success', `Built image xylo-bot:${ctx.deployment.id}`],
+    ]);
+    expect((await storage.getDeploymentSteps(ctx.deployment.id)).map((step) => [step.name, step.status])).toEqual([
+      ['sync/checkout', 'success'],
+      ['sync/image', 'success'],
+    ]);
+  });
+
+  describe('fails the image step', () => {
+    const path = process.env.PATH;
+    const bin = join(root, 'bin');
+
+    afterEach(async () => {
+      process.env.PATH = path;
+      await fs.rm(bin, { recursive: true, force: true });
+    });
+
+    async function failedImage(ctx: Awaited<ReturnType<typeof deployment>>) {
+      const steps = await storage.getDeploymentSteps(ctx.deployment.id);
+      return steps.find((step) => step.name === 'sync/image');
+    }
+
+    it('when tar exits with an error', async () => {
+      await fs.mkdir(bin);
+      await fs.writeFile(join(bin, 'tar'), '#!/bin/sh\necho "tar: ./index.js: Cannot open" >&2\nexit 2\n', { mode: 0o755 });
+      process.env.PATH = `${bin}:${path}`;
+      const ctx = await deployment();
+
+      await expect(dockerTarget.provision(ctx, { sync: true })).rejects.toThrow('tar exited with code 2: tar: ./index.js: Cannot open');
+      expect(await failedImage(ctx)).toMatchObject({ status: 'failed', error: 'tar exited with code 2: tar: ./index.js: Cannot open' });
+      expect((await logMessages(ctx.deployment.id, 'image')).at(-1)?.[0]).toBe('failed');
+    });
+
+    it('when tar cannot be started', async () => {
+      // Only git is left on the PATH
+      await fs.mkdir(bin);
+      await fs.symlink(execFileSync('which', ['git']).toString().trim(), join(bin, 'git'));
+      process.env.PATH = bin;
+      const ctx = await deployment();
+
+      await expect(dockerTarget.provision(ctx, { sync: true })).rejects.toThrow('spawn tar ENOENT');
+      expect(await failedImage(ctx)).toMatchObject({ status: 'failed', error: 'spawn tar ENOENT' });
+    });
+  });
+
+  it('runs the bot in a limited container and streams its output', async () => {
+    const ctx = await deployment();
+    engine.output = [frame(1, 'Bot started\n'), frame(2, 'Session restored\n')];
+
+    await dockerTarget.start(ctx);
+
+    const [container] = Array.from(engine.containers.values()).filter((container) => container.name === `xylo-${ctx.deployment.id}`);
+    expect(container.spec).toEqual({
+      Image: `xylo-bot:${ctx.deployment.id}`,
+      Env: ['SESSION_ID=XYLO-MD~abc123def456'],
+      Labels: { 'xylo.deployment-id': ctx.deployment.id, 'xylo.github-username': 'alice' },
+      HostConfig: {
+        Memory: 512 * 1024 * 1024,
+        NanoCpus: 500000000,
+        PidsLimit: 256,
+        RestartPolicy: { Name: 'on-failure', MaximumRetryCount: 10 },
+      },
+    });
+    expect(container.running).toBe(true);
+    expect(await logMessages(ctx.deployment.id, 'container')).toEqual([
+      ['running', 'Starting the bot container...'],
+      ['success', `Bot container ${container.id.substring(0, 12)} started (512 MB, 0.5 CPU)`],
+    ]);
+
+    await vi.waitFor(async () => expect(await dockerTarget.logs(ctx)).toEqual(['Bot started', 'Session restored']));
+    expect(await dockerTarget.status(ctx)).toEqual({ state: 'running', message: 'Bot container is running (0 restart(s))' });
+
+    expect(await dockerTarget.stop(ctx)).toBe('Removed 1 container(s)');
+    expect(engine.containers.has(container.id)).toBe(false);
+    expect(await dockerTarget.stop(ctx)).toBe('No container was running');
+    expect(await dockerTarget.status(ctx)).toEqual({ state: 'missing', message: 'Bot container no longer exists' });
+    // Bot output was written to the deployment logs once the stream ended
+    expect(await logMessages(ctx.deployment.id, 'stdout')).toEqual([['info', 'Bot started']]);
+    expect(await logMessages(ctx.deployment.id, 'stderr')).toEqual([['info', 'Session restored']]);
+  });
+
+  it('replaces the container when started again', async () => {
+    const ctx = await deployment();
+    await dockerTarget.start(ctx);
+    await dockerTarget.start(ctx);
+
+    const containers = Array.from(engine.containers.values()).filter((container) => container.name === `xylo-${ctx.deployment.id}`);
+    expect(containers).toHaveLength(1);
+    await dockerTarget.stop(ctx);
+  });
+
+  it('records a container Docker gave up restarting', async () => {
+    const ctx = await deployment();
+    await dockerTarget.start(ctx);
+    const [container] = Array.from(engine.containers.values()).filter((container) => container.name === `xylo-${ctx.deployment.id}`);
+
+    engine.exit(container, 1, 10);
+
+    await vi.waitFor(async () => {
+      expect(await storage.getDeployment(ctx.deployment.id)).toMatchObject({ status: 'failed', message: 'Bot container exited with code 1 after 10 restart(s)' });
+    });
+    expect((await logMessages(ctx.deployment.id, 'container')).at(-1)).toEqual(['failed', 'Bot container exited with code 1 after 10 restart(s)']);
+    expect(await dockerTarget.status(ctx)).toEqual({ state: 'failed', message: 'Bot container exited with code 1' });
+    await dockerTarget.stop(ctx);
+  });
+
+  it('releases the container, image and build context', async () => {
+    const ctx = await deployment();
+    await dockerTarget.provision(ctx, { sync: true });
+    await dockerTarget.start(ctx);
+
+    expect(await dockerTarget.release!(ctx)).toBe(`Removed container, image xylo-bot:${ctx.deployment.id} and build context`);
+    expect(Array.from(engine.containers.values()).some((container) => container.name === `xylo-${ctx.deployment.id}`)).toBe(false);
+    expect(engine.images.has(`xylo-bot:${ctx.deployment.id}`)).toBe(false);
+    expect(existsSync(join(root, 'bots', ctx.deployment.id))).toBe(false);
+
+    // Nothing left is not an error
+    await expect(dockerTarget.release!(ctx)).resolves.toBeDefined();
+  });
+
+  it('reports Engine errors with their status and message', async () => {
+    const error = await new DockerEngine().inspectContainer('missing').catch((error) => error);
+
+    expect(error).toBeInstanceOf(DockerApiError);
+    expect(error).toMatchObject({ message: 'No such container: missing', status: 404, method: 'GET', path: 'containers/missing/json' });
+  });
+});
@@ -0,0 +1,298 @@
+import { spawn } from "child_process";
+import { promises as fs } from "fs";
+import path from "path";
+import type { Readable } from "stream";
+import { storage } from "../storage";
+import { Pipeline, type PipelineStep } from "../pipeline";
+import { type DeployState, initStep, forkStep, syncStep, branchStep, configStep } from "../deploy-pipeline";
+import { DOCKER_BASE_IMAGE, DOCKER_CPUS, DOCKER_MEMORY_MB, DOCKER_PIDS_LIMIT } from "../config";
+import { cloneBranch, workdirFor } from "./checkout";
+import { DockerEngine, demuxLogs, isDockerNotFound, type ContainerInspect } from "./docker-engine";
+import { OutputRecorder } from "./output-recorder";
+import type { DeploymentTarget } from "./types";
+
+// Label linking a container to its deployment; cleanup finds containers by it
+const DEPLOYMENT_LABEL = 'xylo.deployment-id';
+const DOCKERFILE = '.xylo-platform.Dockerfile';
+// Docker restarts crashed bots itself, doubling the delay between attempts
+const MAX_RESTARTS = parseInt(process.env.DOCKER_MAX_RESTARTS || '10', 10);
+
+const docker = new DockerEngine();
+
+interface LogFollower {
+  recorder: OutputRecorder;
+  stream: Readable | null;
+}
+
+const followers = new Map<string, LogFollower>();
+
+function imageFor(deploymentId: string) {
+  return `xylo-bot:${deploymentId}`;
+}
+
+function containerName(deploymentId: string) {
+  return `xylo-${deploymentId}`;
+}
+
+function buildDockerfile() {
+  return `FROM ${DOCKER_BASE_IMAGE}
+WORKDIR /app
+COPY package*.json ./
+RUN npm install --omit=dev
+COPY . .
+ENV NODE_ENV=production
+CMD ["npm", "start"]
+`;
+}
+
+async function findContainers(deploymentId: string) {
+  return docker.listContainers([`${DEPLOYMENT_LABEL}=${deploymentId}`]);
+}
+
+async function removeContainers(deploymentId: string) {
+  stopFollowing(deploymentId);
+  const containers = await findContainers(deploymentId);
+  for (const container of containers) {
+    // Give the bot a chance to shut down cleanly before the container goes
+    if (container.State === 'running') await docker.stopContainer(container.Id);
+    await docker.removeContainer(container.Id);
+  }
+  return containers.length;
+}
+
+// Streams container output into the deployment logs. The stream ends whenever
+// the container stops; it is picked up again if Docker restarts the bot.
+function follow(deploymentId: string, containerId: string, since?: number) {
+  let follower = followers.get(deploymentId);
+  if (follower?.stream) return;
+  if (!follower) {
+    follower = { recorder: new OutputRecorder(deploymentId), stream: null };
+    followers.set(deploymentId, follower);
+  }
+  const current = follower;
+
+  (async () => {
+    try {
+      current.stream = await docker.containerLogs(containerId, { follow: true, since });
+      await demuxLogs(current.stream, (stream, payload) => current.recorder.capture(stream, payload));
+    } catch (error: any) {
+      console.error(`Log stream for deployment ${deploymentId} ended:`, error.message);
+    } finally {
+      current.stream = null;
+      await current.recorder.flush();
+    }
+
+    // Stopped on purpose
+    if (followers.get(deploymentId) !== current) return;
+
+    const inspect = await docker.inspectContainer(containerId).catch(() => null);
+    if (inspect?.State.Running || inspect?.State.Restarting) {
+      setTimeout(() => follow(deploymentId, containerId, Math.floor(Date.now() / 1000)), 1000);
+    } else if (inspect) {
+      await recordExit(deploymentId, inspect);
+    }
+  })().catch((error) => {
+    console.error(`Error following logs of deployment ${deploymentId}:`, error);
+  });
+}
+
+function stopFollowing(deploymentId: string) {
+  const follower = followers.get(deploymentId);
+  followers.delete(deploymentId);
+  follower?.stream?.destroy();
+}
+
+// Records a container that gave up on the deployment, unless the deployment
+// was stopped or a job is working on it
+async function recordExit(deploymentId: string, inspect: ContainerInspect) {
+  const deployment = await storage.getDeployment(deploymentId);
+  if (!deployment || deployment.status !== 'running') return;
+  const jobs = await storage.getUnfinishedDeploymentJobs();
+  if (jobs.some((job) => job.deploymentId === deploymentId)) return;
+
+  const succeeded = inspect.State.ExitCode === 0;
+  const message = succeeded
+    ? 'Bot container exited'
+    : `Bot container exited with code ${inspect.State.ExitCode} after ${inspect.RestartCount} restart(s)`;
+  await storage.updateDeployment(deploymentId, { status: succeeded ? 'success' : 'failed', message });
+  await storage.createDeploymentLog({ deploymentId, step: 'container', status: succeeded ? 'success' : 'failed', message });
+}
+
+// Streams the working copy as a tar build context. `packed` rejects if tar
+// cannot be started or exits non-zero, and the stream is aborted with it so a
+// partial archive is not built.
+function packBuildContext(workdir: string) {
+  const tar = spawn('tar', ['-c', '--exclude=.git', '-C', workdir, '.']);
+  let errors = '';
+  tar.stderr.on('data', (chunk) => { errors += chunk; });
+  const packed = new Promise<void>((resolve, reject) => {
+    tar.on('error', reject);
+    tar.on('close', (code) => {
+      if (code === 0) return resolve();
+      reject(new Error(`tar exited with code ${code}: ${errors.trim()}`));
+    });
+  }).catch((error) => {
+    tar.stdout.destroy(error);
+    throw error;
+  });
+  return { stream: tar.stdout, packed };
+}
+
+const checkoutStep: PipelineStep<DeployState> = {
+  name: 'checkout',
+  async run({ login, branchName }, { deployment, token, logStep }) {
+    await logStep('checkout', 'running', `Checking out ${login}/${deployment.repositoryName}@${branchName}...`);
+    await cloneBranch(deployment.id, login!, deployment.repositoryName, branchName!, token);
+    await logStep('checkout', 'success', 'Bot code checked out');
+  },
+};
+
+const imageStep: PipelineStep<DeployState> = {
+  name: 'image',
+  async run(_input, { deployment, logStep }) {
+    const workdir = workdirFor(deployment.id);
+    const tag = imageFor(deployment.id);
+
+    await logStep('image', 'running', `Building image ${tag} from ${DOCKER_BASE_IMAGE}...`);
+    await fs.writeFile(path.join(workdir, DOCKERFILE), buildDockerfile());
+
+    const context = packBuildContext(workdir);
+    const output: string[] = [];
+    try {
+      await Promise.all([
+        docker.buildImage(tag, context.stream, {
+          dockerfile: DOCKERFILE,
+          onOutput: (line) => output.push(line),
+        }),
+        context.packed,
+      ]);
+    } catch (error: any) {
+      await logStep('image', 'failed', [error.message, ...output.slice(-10)].join('\n'));
+      throw error;
+    }
+
+    await logStep('image', 'success', `Built image ${tag}`);
+  },
+};
+
+const provisionPipeline = new Pipeline<DeployState>([
+  initStep,
+  forkStep,
+  syncStep,
+  branchStep,
+  configStep,
+  checkoutStep,
+  imageStep,
+]);
+
+const refreshPipeline = new Pipeline<DeployState>([
+  configStep,
+  checkoutStep,
+  imageStep,
+], 'refresh');
+
+const syncPipeline = new Pipeline<DeployState>([
+  checkoutStep,
+  imageStep,
+], 'sync');
+
+// Builds the bot into an image on the platform host's Docker Engine and runs
+// it in a resource-limited container labelled with the deployment id.
+export const dockerTarget: DeploymentTarget = {
+  id: 'docker',
+  label: 'Docker',
+  description: 'Builds the bot into an image and runs it in a container on the platform host',
+
+  async provision(ctx, options = {}) {
+    const { deployment } = ctx;
+    if (options.refresh || options.sync) {
+      await (options.refresh ? refreshPipeline : syncPipeline).run(ctx, {
+        login: deployment.githubUsername,
+        branchName: deployment.branchName ?? undefined,
+        refreshConfig: options.refresh,
+      });
+      return {};
+    }
+
+    const state = await provisionPipeline.run(ctx, { requestedBranch: deployment.branchName }, options);
+    return { branchName: state.branchName };
+  },
+
+  async start({ deployment, logStep }) {
+    await logStep('container', 'running', 'Starting the bot container...');
+    await removeContainers(deployment.id);
+
+    const container = await docker.createContainer(containerName(deployment.id), {
+      Image: imageFor(deployment.id),
+      Env: [`SESSION_ID=${deployment.sessionId}`],
+      Labels: {
+        [DEPLOYMENT_LABEL]: deployment.id,
+        'xylo.github-username': deployment.githubUsername,
+      },
+      HostConfig: {
+        Memory: DOCKER_MEMORY_MB * 1024 * 1024,
+        NanoCpus: Math.round(DOCKER_CPUS * 1e9),
+        PidsLimit: DOCKER_PIDS_LIMIT,
+        RestartPolicy: { Name: 'on-failure', MaximumRetryCount: MAX_RESTARTS },
+      },
+    });
+    await docker.startContainer(container.Id);
+    follow(deployment.id, container.Id);
+
+    await logStep('container', 'success', `Bot container ${container.Id.substring(0, 12)} started (${DOCKER_MEMORY_MB} MB, ${DOCKER_CPUS} CPU)`);
+    return {};
+  },
+
+  async stop({ deployment }) {
+    const removed = await removeContainers(deployment.id);
+    return removed > 0 ? `Removed ${removed} container(s)` : 'No container was running';
+  },
+
+  async status({ deployment }) {
+    const [container] = await findContainers(deployment.id);
+    if (!container) {
+      return deployment.status === 'running'
+        ? { state: 'missing', message: 'Bot container no longer exists' }
+        : null;
+    }
+
+    const inspect = await docker.inspectContainer(container.Id);
+    if (inspect.State.Running) {
+      // Picks the log stream back up after a platform restart
+      follow(deployment.id, container.Id, Math.floor(Date.now() / 1000));
+      return { state: 'running', message: `Bot container is running (${inspect.RestartCount} restart(s))` };
+    }
+    if (inspect.State.Restarting) {
+      return { state: 'running', message: `Bot container is restarting (${inspect.RestartCount} restart(s))` };
+    }
+
+    await recordExit(deployment.id, inspect);
+    return {
+      state: inspect.State.ExitCode === 0 ? 'stopped' : 'failed',
+      message: `Bot container exited with code ${inspect.State.ExitCode}`,
+    };
+  },
+
+  async logs({ deployment }, options = {}) {
+    const follower = followers.get(deployment.id);
+    if (follower && follower.recorder.lines.length > 0) return follower.recorder.tail(options.tail);
+
+    const [container] = await findContainers(deployment.id);
+    if (!container) return [];
+
+    const lines: string[] = [];
+    await demuxLogs(await docker.containerLogs(container.Id, { tail: options.tail ?? 200 }), (_stream, payload) => {
+      lines.push(...payload.toString().split(/\r?\n/).filter(Boolean));
+    });
+    return lines;
+  },
+
+  async release({ deployment }) {
+    await removeContainers(deployment.id);
+    await docker.removeImage(imageFor(deployment.id)).catch((error) => {
+      if (!isDockerNotFound(error)) throw error;
+    });
+    await fs.rm(workdirFor(deployment.id), { recursive: true, force: true });
+    return `Removed container, image ${imageFor(deployment.id)} and build context`;
+  },
+};
@@ -0,0 +1,147 @@
+import { ifExists } from "../github";
+import { Pipeline } from "../pipeline";
+import {
+  type DeployState,
+  initStep,
+  forkStep,
+  actionsCheckStep,
+  syncStep,
+  branchStep,
+  configStep,
+  sessionSecretStep,
+  workflowStep,
+  deployStep,
+  trackRunStep,
+  sessionSecretName,
+} from "../deploy-pipeline";
+import { cancelDeploymentRuns, syncDeploymentRun } from "../workflow-runs";
+import { parseLogLine } from "../workflow-logs";
+import type { DeploymentTarget } from "./types";
+
+// How long a deployment may go without a matching workflow run before it is considered stale
+const MISSING_RUN_GRACE = 15 * 60 * 1000;
+
+const provisionPipeline = new Pipeline<DeployState>([
+  initStep,
+  forkStep,
+  actionsCheckStep,
+  syncStep,
+  branchStep,
+  configStep,
+  sessionSecretStep,
+  workflowStep,
+]);
+
+// Rewrites config and workflow from upstream on the existing branch
+const refreshPipeline = new Pipeline<DeployState>([
+  configStep,
+  sessionSecretStep,
+  workflowStep,
+], 'refresh');
+
+const startPipeline = new Pipeline<DeployState>([
+  deployStep,
+  trackRunStep,
+]);
+
+// Runs the bot inside a workflow on the user's fork. The workflow re-dispatches
+// itself before the job time limit, so the bot keeps running.
+export const githubActionsTarget: DeploymentTarget = {
+  id: 'github-actions',
+  label: 'GitHub Actions',
+  description: 'Runs the bot in a workflow on your fork, restarted automatically before each run times out',
+
+  async provision(ctx, options = {}) {
+    const { deployment } = ctx;
+    // Every run checks the branch out afresh
+    if (options.sync) return {};
+    if (options.refresh) {
+      await refreshPipeline.run(ctx, {
+        login: deployment.githubUsername,
+        branchName: deployment.branchName ?? undefined,
+        refreshConfig: true,
+      });
+      return {};
+    }
+
+    const state = await provisionPipeline.run(ctx, { requestedBranch: deployment.branchName }, options);
+    return { branchName: state.branchName };
+  },
+
+  async start(ctx, options = {}) {
+    const { deployment } = ctx;
+    const state = await startPipeline.run(ctx, {
+      login: deployment.githubUsername,
+      branchName: deployment.branchName ?? undefined,
+    }, options);
+    return { workflowUrl: state.workflowUrl, workflowRunId: state.workflowRunId };
+  },
+
+  async stop({ deployment, github }) {
+    const cancelled = await cancelDeploymentRuns(github, deployment);
+    return cancelled > 0 ? `Cancelled ${cancelled} workflow run(s)` : 'No workflow run was active';
+  },
+
+  async status({ deployment, github }) {
+    const owner = deployment.githubUsername;
+    const repo = deployment.repositoryName;
+
+    if (deployment.branchName) {
+      const branch = await ifExists(github.getBranch(owner, repo, deployment.branchName));
+      if (!branch) {
+        return { state: 'missing', message: `Branch ${deployment.branchName} no longer exists in ${owner}/${repo}` };
+      }
+    }
+
+    const run = await syncDeploymentRun(github, deployment);
+    if (!run) {
+      if (deployment.workflowRunId) {
+        return { state: 'missing', message: `Workflow run ${deployment.workflowRunId} no longer exists` };
+      }
+      if (Date.now() - new Date(deployment.updatedAt).getTime() > MISSING_RUN_GRACE) {
+        return { state: 'missing', message: 'No workflow run was found for this deployment' };
+      }
+      return null;
+    }
+
+    if (run.status !== 'completed') {
+      return { state: 'running', message: `Workflow run #${run.run_number} is ${run.status}` };
+    }
+    return {
+      state: run.conclusion === 'success' ? 'stopped' : 'failed',
+      message: `Workflow run #${run.run_number} finished with conclusion: ${run.conclusion}`,
+    };
+  },
+
+  async logs({ deployment, github }, options = {}) {
+    if (!deployment.workflowRunId) return [];
+
+    const owner = deployment.githubUsername;
+    const repo = deployment.repositoryName;
+    const jobs = await ifExists(github.listRunJobs(owner, repo, deployment.workflowRunId));
+    if (!jobs) return [];
+
+    const lines: string[] = [];
+    for (const job of jobs.jobs) {
+      const raw = await ifExists(github.downloadJobLogs(owner, repo, job.id));
+      if (!raw) continue;
+
+      let timestamp = '';
+      for (const rawLine of raw.split(/\r?\n/)) {
+        if (!rawLine) continue;
+        const line = parseLogLine(rawLine, timestamp);
+        timestamp = line.timestamp;
+        lines.push(line.text);
+      }
+    }
+    return lines.slice(-(options.tail ?? 200));
+  },
+
+  async release({ deployment, github }) {
+    if (deployment.sessionMode !== 'secret') return 'Nothing to release';
+
+    const name = sessionSecretName(deployment.id);
+    await ifExists(github.deleteActionsSecret(deployment.githubUsername, deployment.repositoryName, name));
+    return `Removed Actions secret ${name}`;
+  },
+};
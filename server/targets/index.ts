@@ -0,0 +1,31 @@
+import type { DeploymentTargetInfo } from "@shared/schema";
+import { ENABLED_TARGETS } from "../config";
+import { githubActionsTarget } from "./github-actions";
+import { localProcessTarget } from "./local-process";
+import { dockerTarget } from "./docker";
+import type { DeploymentTarget } from "./types";
+
+export type * from "./types";
+
+const targets: DeploymentTarget[] = [githubActionsTarget, localProcessTarget, dockerTarget];
+
+// Looks up the target a deployment was created with. Deployments keep working
+// if their target is later removed from ENABLED_TARGETS.
+export function getDeploymentTarget(id: string): DeploymentTarget {
+  const target = targets.find((t) => t.id === id);
+  if (!target) {
+    throw new Error(`Unknown deployment target: ${id}`);
+  }
+  return target;
+}
+
+export function isTargetEnabled(id: string) {
+  return ENABLED_TARGETS.includes(id) && targets.some((t) => t.id === id);
+}
+
+// Targets new deployments may use
+export function listEnabledTargets(): DeploymentTargetInfo[] {
+  return targets
+    .filter((target) => isTargetEnabled(target.id))
+    .map(({ id, label, description }) => ({ id, label, description }));
+}
@@ -0,0 +1,59 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.hoisted(() => {
+  process.env.LOCAL_RESTART_DELAY_MS = '500';
+});
+
+const { storage } = await import("../storage");
+const { createTargetContext } = await import("../deployment-runner");
+const { workdirFor } = await import("./checkout");
+const { localProcessTarget } = await import("./local-process");
+
+// Crashes on its first run, then stays up and records each start
+const BOT = `
+const fs = require('fs');
+fs.appendFileSync('starts', process.pid + '\\n');
+if (!fs.existsSync('crashed')) {
+  fs.writeFileSync('crashed', '');
+  process.exit(3);
+}
+setTimeout(() => process.exit(0), 5000);
+`;
+
+let ctx: ReturnType<typeof createTargetContext>;
+
+async function checkout() {
+  const deployment = await storage.createDeployment({ sessionId: 'XYLO~session', githubUsername: 'alice', repositoryName: 'XYLO-MD', target: 'local', status: 'running' });
+  const workdir = workdirFor(deployment.id);
+  await fs.mkdir(workdir, { recursive: true });
+  await fs.writeFile(join(workdir, 'package.json'), JSON.stringify({ name: 'bot', scripts: { start: 'node bot.js' } }));
+  await fs.writeFile(join(workdir, 'bot.js'), BOT);
+  ctx = createTargetContext(deployment, 'gho_alice');
+  return workdir;
+}
+
+afterEach(async () => {
+  await localProcessTarget.release!(ctx);
+});
+
+describe('localProcessTarget', () => {
+  it('replaces a bot waiting to restart instead of starting a second one', async () => {
+    const workdir = await checkout();
+    await localProcessTarget.start(ctx);
+    await vi.waitFor(async () => {
+      expect(await localProcessTarget.status(ctx)).toEqual({ state: 'running', message: 'Bot is restarting after 1 crash(es)' });
+    }, { timeout: 5000 });
+
+    await localProcessTarget.start(ctx);
+    await vi.waitFor(async () => {
+      expect((await localProcessTarget.status(ctx))?.message).toMatch(/^Bot process \d+ is running$/);
+    });
+    // Past the first supervisor's restart delay
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+
+    const starts = (await fs.readFile(join(workdir, 'starts'), 'utf8')).trim().split('\n');
+    expect(starts).toHaveLength(2);
+  }, 10000);
+});
@@ -0,0 +1,136 @@
+import { promises as fs } from "fs";
+import { Pipeline, type PipelineStep } from "../pipeline";
+import { type DeployState, initStep, forkStep, syncStep, branchStep, configStep } from "../deploy-pipeline";
+import { cloneBranch, runCommand, workdirFor } from "./checkout";
+import { BotSupervisor } from "./local-supervisor";
+import type { DeploymentTarget } from "./types";
+
+const supervisors = new Map<string, BotSupervisor>();
+
+// The bot only sees what it needs; platform secrets stay out of its environment
+function botEnv(sessionId: string): NodeJS.ProcessEnv {
+  return {
+    PATH: process.env.PATH,
+    HOME: process.env.HOME,
+    NODE_ENV: 'production',
+    SESSION_ID: sessionId,
+  };
+}
+
+const checkoutStep: PipelineStep<DeployState> = {
+  name: 'checkout',
+  async run({ login, branchName }, { deployment, token, logStep }) {
+    await logStep('checkout', 'running', `Checking out ${login}/${deployment.repositoryName}@${branchName}...`);
+    const workdir = await cloneBranch(deployment.id, login!, deployment.repositoryName, branchName!, token);
+
+    await logStep('checkout', 'running', 'Installing dependencies...');
+    await runCommand('npm', ['install', '--omit=dev'], workdir, botEnv(deployment.sessionId));
+    await logStep('checkout', 'success', 'Bot code checked out and dependencies installed');
+  },
+};
+
+const provisionPipeline = new Pipeline<DeployState>([
+  initStep,
+  forkStep,
+  syncStep,
+  branchStep,
+  configStep,
+  checkoutStep,
+]);
+
+const refreshPipeline = new Pipeline<DeployState>([
+  configStep,
+  checkoutStep,
+], 'refresh');
+
+const syncPipeline = new Pipeline<DeployState>([
+  checkoutStep,
+], 'sync');
+
+// Runs the bot as a supervised child process of the platform, from a checkout
+// of the deployment branch. Crashed bots are restarted with backoff; bots do
+// not survive a platform restart.
+export const localProcessTarget: DeploymentTarget = {
+  id: 'local',
+  label: 'This server',
+  description: 'Runs the bot as a process on the platform host, restarted automatically if it crashes',
+
+  async provision(ctx, options = {}) {
+    const { deployment } = ctx;
+    if (options.refresh || options.sync) {
+      await (options.refresh ? refreshPipeline : syncPipeline).run(ctx, {
+        login: deployment.githubUsername,
+        branchName: deployment.branchName ?? undefined,
+        refreshConfig: options.refresh,
+      });
+      return {};
+    }
+
+    const state = await provisionPipeline.run(ctx, { requestedBranch: deployment.branchName }, options);
+    return { branchName: state.branchName };
+  },
+
+  async start({ deployment, logStep }) {
+    const existing = supervisors.get(deployment.id);
+    if (existing?.pid) {
+      await logStep('launch', 'success', `Bot is already running (pid ${existing.pid})`);
+      return {};
+    }
+    // One waiting to restart a crashed bot would otherwise start a second copy
+    if (existing) await existing.stop();
+
+    await logStep('launch', 'running', 'Starting the bot...');
+    const supervisor = new BotSupervisor(deployment.id, 'npm', ['start'], {
+      cwd: workdirFor(deployment.id),
+      env: botEnv(deployment.sessionId),
+    });
+    supervisors.set(deployment.id, supervisor);
+    supervisor.start();
+
+    await logStep('launch', 'success', `Bot started (pid ${supervisor.pid})`);
+    return {};
+  },
+
+  async stop({ deployment }) {
+    const supervisor = supervisors.get(deployment.id);
+    supervisors.delete(deployment.id);
+    if (!supervisor) return 'Bot process was not running';
+
+    const { pid, state } = supervisor.status;
+    await supervisor.stop();
+    return pid ? `Stopped bot process ${pid}` : `Bot process was not running (${state})`;
+  },
+
+  async status({ deployment }) {
+    const supervisor = supervisors.get(deployment.id);
+    if (!supervisor) {
+      // Nothing to report until the deployment has started a process
+      return deployment.status === 'running'
+        ? { state: 'missing', message: 'Bot process is no longer running on this server' }
+        : null;
+    }
+
+    const { state, pid, exitCode, crashes } = supervisor.status;
+    switch (state) {
+      case 'running':
+        return { state: 'running', message: `Bot process ${pid} is running` };
+      case 'restarting':
+        return { state: 'running', message: `Bot is restarting after ${crashes} crash(es)` };
+      case 'exited':
+        return { state: 'stopped', message: 'Bot process exited' };
+      default:
+        return { state: 'failed', message: `Bot process exited with code ${exitCode}` };
+    }
+  },
+
+  async logs({ deployment }, options = {}) {
+    const supervisor = supervisors.get(deployment.id);
+    return supervisor ? supervisor.output.tail(options.tail) : [];
+  },
+
+  async release(ctx) {
+    await localProcessTarget.stop(ctx);
+    await fs.rm(workdirFor(ctx.deployment.id), { recursive: true, force: true });
+    return 'Removed the local checkout';
+  },
+};
@@ -0,0 +1,72 @@
+import { tmpdir } from "os";
+import { join } from "path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.hoisted(() => {
+  process.env.LOCAL_RESTART_DELAY_MS = '20';
+  process.env.LOCAL_MAX_RESTARTS = '2';
+});
+
+const { storage } = await import("../storage");
+const { BotSupervisor } = await import("./local-supervisor");
+
+let deploymentId: string;
+
+beforeEach(async () => {
+  const deployment = await storage.createDeployment({ sessionId: 'XYLO~session', githubUsername: 'alice', repositoryName: 'XYLO-MD' });
+  deploymentId = deployment.id;
+});
+
+async function processMessages() {
+  const logs = await storage.getDeploymentLogs(deploymentId);
+  return logs.filter((log) => log.step === 'process').map((log) => log.message);
+}
+
+function supervise(script: string, cwd = tmpdir()) {
+  return new BotSupervisor(deploymentId, process.execPath, ['-e', script], { cwd, env: process.env });
+}
+
+describe('BotSupervisor', () => {
+  it('reports a running bot and waits for it to stop', async () => {
+    const supervisor = supervise('setInterval(() => {}, 1000)');
+    supervisor.start();
+
+    await vi.waitFor(async () => expect(await processMessages()).toEqual([`Bot process ${supervisor.pid} is running`]));
+    await supervisor.stop();
+
+    expect(supervisor.status).toMatchObject({ state: 'stopped', pid: undefined, crashes: 0 });
+  });
+
+  it('restarts a crashing bot until it gives up', async () => {
+    const supervisor = supervise('process.exit(3)');
+    supervisor.start();
+
+    await vi.waitFor(() => expect(supervisor.status.state).toBe('crashed'));
+    const messages = await processMessages();
+    expect(messages.filter((message) => message.startsWith('Bot crashed with code 3, restarting'))).toHaveLength(2);
+    expect(messages.at(-1)).toBe('Bot crashed with code 3 3 times in a row, giving up');
+    expect((await storage.getDeployment(deploymentId))?.status).toBe('failed');
+  });
+
+  it('treats a bot that cannot be started as a crash', async () => {
+    const supervisor = supervise('', join(tmpdir(), 'missing-bot-directory'));
+    supervisor.start();
+
+    await vi.waitFor(() => expect(supervisor.status.state).toBe('crashed'));
+    const messages = await processMessages();
+    expect(messages.some((message) => message.includes('is running'))).toBe(false);
+    expect(messages[0]).toMatch(/^Bot could not be started \(spawn .* ENOENT\), restarting in 1s \(attempt 1 of 2\)$/);
+    expect(messages.at(-1)).toMatch(/^Bot could not be started 3 times in a row, giving up: /);
+    expect(supervisor.status.pid).toBeUndefined();
+  });
+
+  it('stops at once when the bot never started', async () => {
+    const supervisor = supervise('', join(tmpdir(), 'missing-bot-directory'));
+    supervisor.start();
+    await supervisor.stop();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(supervisor.status.state).toBe('stopped');
+    expect(await processMessages()).toEqual([]);
+  });
+});
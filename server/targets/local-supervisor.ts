@@ -0,0 +1,147 @@
+import { spawn, type ChildProcess } from "child_process";
+import { storage } from "../storage";
+import { OutputRecorder } from "./output-recorder";
+
+// How long a bot gets to exit after SIGTERM before it is killed
+const STOP_TIMEOUT = 10 * 1000;
+const RESTART_BASE_DELAY = parseInt(process.env.LOCAL_RESTART_DELAY_MS || '2000', 10);
+const MAX_RESTART_DELAY = 5 * 60 * 1000;
+// Consecutive crashes before the supervisor gives up on a bot
+const MAX_RESTARTS = parseInt(process.env.LOCAL_MAX_RESTARTS || '10', 10);
+// A bot that stayed up this long has its crash count reset
+const STABLE_AFTER = 60 * 1000;
+
+export type SupervisorState = 'running' | 'restarting' | 'exited' | 'crashed' | 'stopped';
+
+// Keeps one bot process alive: restarts it with exponential backoff when it
+// crashes, and mirrors its output and state onto the deployment.
+export class BotSupervisor {
+  readonly output: OutputRecorder;
+  private child: ChildProcess | null = null;
+  private state: SupervisorState = 'stopped';
+  private exitCode: number | null = null;
+  private crashes = 0;
+  private startedAt = 0;
+  private restartTimer: NodeJS.Timeout | null = null;
+  // Settles once the current process has exited or failed to start
+  private exited: Promise<void> = Promise.resolve();
+
+  constructor(
+    private deploymentId: string,
+    private command: string,
+    private args: string[],
+    private options: { cwd: string; env: NodeJS.ProcessEnv },
+  ) {
+    this.output = new OutputRecorder(deploymentId);
+  }
+
+  get pid() {
+    return this.child?.pid;
+  }
+
+  get status() {
+    return { state: this.state, pid: this.pid, exitCode: this.exitCode, crashes: this.crashes };
+  }
+
+  start() {
+    if (this.child) return;
+    this.crashes = 0;
+    this.spawn();
+  }
+
+  async stop() {
+    if (this.restartTimer) clearTimeout(this.restartTimer);
+    this.restartTimer = null;
+    this.state = 'stopped';
+
+    // A process that never started has nothing to wait for
+    const child = this.child;
+    if (child && child.pid !== undefined) {
+      const exited = this.exited;
+      const timeout = setTimeout(() => child.kill('SIGKILL'), STOP_TIMEOUT);
+      child.kill('SIGTERM');
+      await exited;
+      clearTimeout(timeout);
+    }
+    await this.output.flush();
+  }
+
+  private spawn() {
+    const child = spawn(this.command, this.args, this.options);
+    this.child = child;
+    this.state = 'running';
+    this.exitCode = null;
+    this.startedAt = Date.now();
+
+    let resolveExited!: () => void;
+    this.exited = new Promise((resolve) => { resolveExited = resolve; });
+    let finished = false;
+    const finish = (code: number | null, signal: NodeJS.Signals | null, startError?: Error) => {
+      if (finished) return;
+      finished = true;
+      this.child = null;
+      this.exitCode = code;
+      resolveExited();
+      this.onExit(code, signal, startError).catch((error) => {
+        console.error(`Error handling exit of deployment ${this.deploymentId}:`, error);
+      });
+    };
+
+    child.stdout?.on('data', (chunk) => this.output.capture('stdout', chunk));
+    child.stderr?.on('data', (chunk) => this.output.capture('stderr', chunk));
+    child.once('spawn', () => {
+      void this.record('running', `Bot process ${child.pid} is running`, 'running');
+    });
+    // A process that could not be started (e.g. missing working directory)
+    // emits `error` and `close` but never `exit`
+    child.on('error', (error) => {
+      this.output.capture('stderr', error.message);
+      if (child.pid === undefined) finish(null, null, error);
+    });
+    child.on('exit', (code, signal) => finish(code, signal));
+  }
+
+  private async onExit(code: number | null, signal: NodeJS.Signals | null, startError?: Error) {
+    await this.output.flush();
+    // Exits we asked for are reported by whoever stopped the bot
+    if (this.state === 'stopped') return;
+
+    const how = signal ? `signal ${signal}` : `code ${code}`;
+    if (code === 0) {
+      this.state = 'exited';
+      await this.record('success', `Bot process exited with ${how}`, 'success');
+      return;
+    }
+
+    if (Date.now() - this.startedAt >= STABLE_AFTER) this.crashes = 0;
+    this.crashes++;
+
+    if (this.crashes > MAX_RESTARTS) {
+      this.state = 'crashed';
+      const message = startError
+        ? `Bot could not be started ${MAX_RESTARTS + 1} times in a row, giving up: ${startError.message}`
+        : `Bot crashed with ${how} ${MAX_RESTARTS + 1} times in a row, giving up`;
+      await this.record('failed', message, 'failed');
+      return;
+    }
+
+    const delay = Math.min(RESTART_BASE_DELAY * 2 ** (this.crashes - 1), MAX_RESTART_DELAY);
+    this.state = 'restarting';
+    const failure = startError ? `Bot could not be started (${startError.message})` : `Bot crashed with ${how}`;
+    // The deployment stays running so it can still be stopped while waiting
+    await this.record('running', `${failure}, restarting in ${Math.ceil(delay / 1000)}s (attempt ${this.crashes} of ${MAX_RESTARTS})`, 'warning');
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      if (this.state === 'restarting') this.spawn();
+    }, delay);
+  }
+
+  private async record(status: string, message: string, logStatus: string) {
+    try {
+      await storage.updateDeployment(this.deploymentId, { status, message });
+      await storage.createDeploymentLog({ deploymentId: this.deploymentId, step: 'process', status: logStatus, message });
+    } catch (error) {
+      console.error(`Could not record state of deployment ${this.deploymentId}:`, error);
+    }
+  }
+}
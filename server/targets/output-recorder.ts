@@ -0,0 +1,58 @@
+import { storage } from "../storage";
+
+// Output kept in memory per bot for the logs endpoint
+const OUTPUT_LINES = 500;
+// Bot output is written to deployment logs in batches; a burst beyond this is only kept in memory
+const FLUSH_INTERVAL = 1000;
+const MAX_LINES_PER_FLUSH = 50;
+
+export type OutputStream = 'stdout' | 'stderr';
+
+// Mirrors a bot's stdout/stderr into its deployment logs, which the logs
+// WebSocket pushes to viewers, and keeps the latest lines in memory.
+export class OutputRecorder {
+  readonly lines: string[] = [];
+  private pending: { stream: OutputStream; text: string }[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(private deploymentId: string) {}
+
+  capture(stream: OutputStream, chunk: Buffer | string) {
+    for (const text of chunk.toString().split(/\r?\n/)) {
+      if (!text) continue;
+      this.lines.push(text);
+      this.pending.push({ stream, text });
+    }
+    if (this.lines.length > OUTPUT_LINES) this.lines.splice(0, this.lines.length - OUTPUT_LINES);
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flush().catch((error) => {
+          console.error(`Could not record output of deployment ${this.deploymentId}:`, error);
+        });
+      }, FLUSH_INTERVAL);
+    }
+  }
+
+  tail(count = 200) {
+    return this.lines.slice(-count);
+  }
+
+  async flush() {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+
+    const lines = this.pending.splice(0);
+    for (const line of lines.slice(0, MAX_LINES_PER_FLUSH)) {
+      await storage.createDeploymentLog({ deploymentId: this.deploymentId, step: line.stream, status: 'info', message: line.text });
+    }
+    if (lines.length > MAX_LINES_PER_FLUSH) {
+      await storage.createDeploymentLog({
+        deploymentId: this.deploymentId,
+        step: 'stdout',
+        status: 'warning',
+        message: `${lines.length - MAX_LINES_PER_FLUSH} more lines of output were not recorded, see the bot output`
+      });
+    }
+  }
+}
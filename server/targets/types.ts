@@ -0,0 +1,37 @@
+import type { DeploymentTargetId, InsertDeployment } from "@shared/schema";
+import type { StepContext } from "../pipeline";
+
+// Targets get the same context as the pipeline steps they are built from
+export type TargetContext = StepContext;
+
+export interface TargetStatus {
+  // `missing` means the bot's runtime is gone (deleted branch, lost process) and the deployment is stale
+  state: 'running' | 'stopped' | 'failed' | 'missing';
+  message: string;
+}
+
+// Fields a target wants recorded on the deployment once a lifecycle call succeeds
+export type TargetUpdate = Partial<Pick<InsertDeployment, 'branchName' | 'workflowUrl' | 'workflowRunId'>>;
+
+// Somewhere a bot can run. Provision and start are built from pipeline steps,
+// so a resumed deploy skips whatever already succeeded.
+export interface DeploymentTarget {
+  id: DeploymentTargetId;
+  label: string;
+  description: string;
+
+  // Prepares the bot's code and config. `refresh` rebuilds the config from
+  // upstream on an already provisioned deployment; `sync` only picks up what
+  // was committed to its branch since, e.g. by the config editor.
+  provision(ctx: TargetContext, options?: { resume?: boolean; refresh?: boolean; sync?: boolean }): Promise<TargetUpdate>;
+  start(ctx: TargetContext, options?: { resume?: boolean }): Promise<TargetUpdate>;
+  // Returns a short summary of what was stopped
+  stop(ctx: TargetContext): Promise<string>;
+  // Checks the runtime and records what it finds on the deployment; null when
+  // there is nothing to report yet
+  status(ctx: TargetContext): Promise<TargetStatus | null>;
+  // Most recent output of the bot, newest last
+  logs(ctx: TargetContext, options?: { tail?: number }): Promise<string[]>;
+  // Frees anything held for the deployment besides its branch, on delete
+  release?(ctx: TargetContext): Promise<string>;
+}
@@ -0,0 +1,97 @@
+import type { BotTemplate, Deployment } from "@shared/schema";
+import { storage } from "./storage";
+import { ifExists, type GitHubClient, type GitHubRepo } from "./github";
+import { ADMIN_USERS, MAIN_BRANCH, REPO_NAME, REPO_OWNER } from "./config";
+
+export const DEFAULT_TEMPLATE_ID = 'default';
+
+export class TemplateNotFoundError extends Error {
+  constructor(public templateId: string) {
+    super(`Bot template '${templateId}' is not available`);
+    this.name = 'TemplateNotFoundError';
+  }
+}
+
+// The user already has a repository under the template's name that is not in
+// its fork network, so GitHub cannot fork the template into their account
+export class ForkConflictError extends Error {
+  constructor(public repository: string, upstream: string) {
+    super(`${repository} already exists and is not a fork of ${upstream}. Rename or delete it to deploy ${upstream}.`);
+    this.name = 'ForkConflictError';
+  }
+}
+
+export function isAdmin(githubUsername: string | undefined) {
+  return !!githubUsername && ADMIN_USERS.includes(githubUsername.toLowerCase());
+}
+
+// Seeds the catalog with the upstream set through REPO_OWNER/REPO_NAME/MAIN_BRANCH,
+// so existing deployments keep pointing at the repository they were made from
+export async function ensureDefaultTemplate() {
+  if (await storage.getBotTemplate(DEFAULT_TEMPLATE_ID)) return;
+
+  await storage.createBotTemplate({
+    id: DEFAULT_TEMPLATE_ID,
+    name: REPO_NAME,
+    description: `${REPO_OWNER}/${REPO_NAME}`,
+    owner: REPO_OWNER,
+    repo: REPO_NAME,
+    defaultBranch: MAIN_BRANCH,
+    configPath: 'config.js',
+    workflowTemplate: 'default',
+    enabled: true,
+  });
+}
+
+// Template a new deployment is made from; disabled templates cannot be picked
+export async function resolveTemplate(templateId: string = DEFAULT_TEMPLATE_ID) {
+  const template = await storage.getBotTemplate(templateId);
+  if (!template || !template.enabled) {
+    throw new TemplateNotFoundError(templateId);
+  }
+  return template;
+}
+
+// Template an existing deployment was made from. Disabling a template does not
+// strand the bots already running from it.
+export async function templateFor(deployment: Pick<Deployment, 'templateId'>): Promise<BotTemplate> {
+  const template = await storage.getBotTemplate(deployment.templateId);
+  if (!template) {
+    throw new TemplateNotFoundError(deployment.templateId);
+  }
+  return template;
+}
+
+export function upstreamName(template: Pick<BotTemplate, 'owner' | 'repo'>) {
+  return `${template.owner}/${template.repo}`;
+}
+
+// The user's fork of the template's repository, or null when they have none.
+// GitHub keeps one fork per account in a fork network, so a fork of another
+// repository in the template's network (its parent, or another fork of it)
+// is used as well; `fromTemplate` is false then and branches have to be cut
+// from the template's commits rather than the fork's own.
+export async function findFork(github: GitHubClient, login: string, template: BotTemplate): Promise<{ fork: GitHubRepo; fromTemplate: boolean } | null> {
+  const fork = await ifExists(github.getRepo(login, template.repo));
+  if (!fork) return null;
+
+  const upstream = upstreamName(template);
+  if (fork.fork && fork.parent?.full_name === upstream) {
+    return { fork, fromTemplate: true };
+  }
+
+  if (fork.fork) {
+    const templateRepo = await github.getRepo(template.owner, template.repo);
+    const network = (repo: GitHubRepo) => (repo.source ?? repo.parent ?? repo).full_name;
+    if (network(fork) === network(templateRepo)) {
+      return { fork, fromTemplate: false };
+    }
+  }
+  throw new ForkConflictError(fork.full_name, upstream);
+}
+
+// How the user's fork's default branch compares with the template's.
+// `behind_by` counts the upstream commits the fork is missing.
+export function compareFork(github: GitHubClient, login: string, template: BotTemplate) {
+  return github.compareCommits(template.owner, template.repo, template.defaultBranch, `${login}:${template.defaultBranch}`);
+}
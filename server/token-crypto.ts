@@ -0,0 +1,124 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+// Envelope encryption for GitHub tokens stored on deployments. Every token is
+// encrypted with its own random data key, and that data key is wrapped with a
+// master key from the environment. Rotating the master key only requires
+// re-wrapping data keys, never touching GitHub.
+//
+// Sealed format: enc:v1:<keyId>:<wrapped data key>:<ciphertext>
+// where both payloads are base64(iv | authTag | encrypted bytes).
+
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+function parseKey(raw: string): MasterKey {
+  const value = raw.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+  if (key.length !== 32) {
+    throw new Error('Token encryption keys must be 32 bytes, encoded as hex or base64');
+  }
+  const id = createHash('sha256').update(key).digest('hex').substring(0, 8);
+  return { id, key };
+}
+
+let cachedKeys: { active: MasterKey; all: Map<string, MasterKey> } | null = null;
+
+function loadKeys() {
+  if (cachedKeys) return cachedKeys;
+
+  let active: MasterKey;
+  if (process.env.TOKEN_ENCRYPTION_KEY) {
+    active = parseKey(process.env.TOKEN_ENCRYPTION_KEY);
+  } else if (process.env.NODE_ENV === 'production') {
+    throw new Error('TOKEN_ENCRYPTION_KEY must be set to store GitHub tokens');
+  } else {
+    // Development only: tokens sealed with this key are unreadable after a restart
+    console.warn('TOKEN_ENCRYPTION_KEY not set, using an ephemeral key for this process');
+    active = parseKey(randomBytes(32).toString('hex'));
+  }
+
+  const all = new Map<string, MasterKey>([[active.id, active]]);
+  // Retired keys stay decrypt-only until `npm run tokens:rotate` has re-wrapped every row
+  for (const raw of (process.env.TOKEN_ENCRYPTION_OLD_KEYS || '').split(',')) {
+    if (!raw.trim()) continue;
+    const key = parseKey(raw);
+    all.set(key.id, key);
+  }
+
+  cachedKeys = { active, all };
+  return cachedKeys;
+}
+
+function encrypt(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64');
+}
+
+function decrypt(key: Buffer, payload: string): Buffer {
+  const data = Buffer.from(payload, 'base64');
+  const iv = data.subarray(0, IV_LENGTH);
+  const tag = data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+function parseSealed(sealed: string) {
+  const [keyId, wrappedKey, ciphertext] = sealed.substring(PREFIX.length).split(':');
+  if (!keyId || !wrappedKey || !ciphertext) {
+    throw new Error('Malformed encrypted token');
+  }
+  return { keyId, wrappedKey, ciphertext };
+}
+
+function unwrapDataKey(keyId: string, wrappedKey: string): Buffer {
+  const masterKey = loadKeys().all.get(keyId);
+  if (!masterKey) {
+    throw new Error(`Token was encrypted with unknown key ${keyId}`);
+  }
+  return decrypt(masterKey.key, wrappedKey);
+}
+
+export function isSealedToken(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+export function sealToken(token: string): string {
+  const { active } = loadKeys();
+  const dataKey = randomBytes(32);
+  return `${PREFIX}${active.id}:${encrypt(active.key, dataKey)}:${encrypt(dataKey, Buffer.from(token, 'utf-8'))}`;
+}
+
+export function openToken(value: string): string {
+  // Rows written before encryption was introduced hold the raw token
+  if (!isSealedToken(value)) return value;
+
+  const { keyId, wrappedKey, ciphertext } = parseSealed(value);
+  return decrypt(unwrapDataKey(keyId, wrappedKey), ciphertext).toString('utf-8');
+}
+
+export function needsResealing(value: string): boolean {
+  if (!isSealedToken(value)) return true;
+  return parseSealed(value).keyId !== loadKeys().active.id;
+}
+
+// Re-wraps the data key under the active master key; the token ciphertext is kept as-is
+export function resealToken(value: string): string {
+  if (!isSealedToken(value)) return sealToken(value);
+
+  const { keyId, wrappedKey, ciphertext } = parseSealed(value);
+  const { active } = loadKeys();
+  if (keyId === active.id) return value;
+
+  const dataKey = unwrapDataKey(keyId, wrappedKey);
+  return `${PREFIX}${active.id}:${encrypt(active.key, dataKey)}:${ciphertext}`;
+}
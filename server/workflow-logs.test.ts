@@ -0,0 +1,124 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { GitHubClient } from "./github";
+import { parseAnsi, parseJobLog, parseLogLine, type JobStep } from "./workflow-logs";
+
+const steps: JobStep[] = [
+  { number: 1, name: 'Set up job', started_at: '2024-05-01T10:00:00Z', completed_at: '2024-05-01T10:00:02Z' },
+  { number: 2, name: 'Install dependencies', started_at: '2024-05-01T10:00:03Z', completed_at: '2024-05-01T10:00:10Z' },
+  { number: 3, name: 'Run Bot with Detailed Logging', started_at: '2024-05-01T10:00:11Z', completed_at: null },
+];
+
+// As downloaded: a BOM, CRLF line ends and 7-digit fractions
+const jobLog = [
+  '﻿2024-05-01T10:00:00.1234567Z Current runner version: \'2.316.0\'\r',
+  '2024-05-01T10:00:01.9999999Z ##[group]Operating System\r',
+  '2024-05-01T10:00:02.5000000Z ##[endgroup]\r',
+  '2024-05-01T10:00:04.0000000Z ##[command]npm ci\r',
+  '2024-05-01T10:00:09.0000000Z added 312 packages in 5s\r',
+  '2024-05-01T10:00:11.0000000Z \u001b[32mBot started\u001b[0m\r',
+  'continued without a timestamp\r',
+  '2024-05-01T10:00:12.0000000Z ##[error]\u001b[1;31mConnection closed\u001b[0m\r',
+  '',
+].join('\n');
+
+describe('parseAnsi', () => {
+  it('splits text on colour and weight changes', () => {
+    expect(parseAnsi('plain \u001b[1;32mbold green\u001b[22m green\u001b[39m \u001b[94mbright\u001b[0m')).toEqual([
+      { text: 'plain ' },
+      { text: 'bold green', color: 'green', bold: true },
+      { text: ' green', color: 'green' },
+      { text: ' ' },
+      { text: 'bright', color: 'bright-blue' },
+    ]);
+  });
+
+  it('drops escape sequences that are not styles', () => {
+    expect(parseAnsi('\u001b[2K\u001b[1Gprogress 50%')).toEqual([{ text: 'progress 50%' }]);
+  });
+});
+
+describe('parseLogLine', () => {
+  it('reads the timestamp and workflow command', () => {
+    expect(parseLogLine('2024-05-01T10:00:00.1234567Z ##[warning]Node 16 is deprecated', '')).toEqual({
+      timestamp: '2024-05-01T10:00:00.1234567Z',
+      text: 'Node 16 is deprecated',
+      segments: [{ text: 'Node 16 is deprecated' }],
+      level: 'warning',
+    });
+  });
+
+  it('keeps the previous timestamp for lines without one', () => {
+    expect(parseLogLine('wrapped output', '2024-05-01T10:00:00Z')).toMatchObject({ timestamp: '2024-05-01T10:00:00Z', text: 'wrapped output' });
+  });
+});
+
+describe('parseJobLog', () => {
+  it('assigns lines to the step running at their timestamp', () => {
+    const logs = parseJobLog(7, jobLog, steps);
+
+    expect(logs.map((log) => [log.stepNumber, log.stepName, log.lines.map((line) => line.text)])).toEqual([
+      [1, 'Set up job', ["Current runner version: '2.316.0'", 'Operating System', '']],
+      [2, 'Install dependencies', ['npm ci', 'added 312 packages in 5s']],
+      [3, 'Run Bot with Detailed Logging', ['Bot started', 'continued without a timestamp', 'Connection closed']],
+    ]);
+    expect(logs.every((log) => log.jobId === 7)).toBe(true);
+    expect(logs[2].lines[2]).toMatchObject({ level: 'error', segments: [{ text: 'Connection closed', color: 'red', bold: true }] });
+  });
+
+  it('puts lines between steps with the step before them', () => {
+    const logs = parseJobLog(7, '2024-05-01T10:00:02.9000000Z cleaning up\n2024-05-01T10:00:10.5000000Z post step', steps);
+
+    expect(logs.map((log) => [log.stepNumber, log.lines.map((line) => line.text)])).toEqual([
+      [1, ['cleaning up']],
+      [2, ['post step']],
+    ]);
+  });
+
+  it('files everything under the job when it has no steps yet', () => {
+    expect(parseJobLog(7, 'no timestamp at all', [])).toEqual([
+      { jobId: 7, stepNumber: 0, stepName: 'Job output', lines: [expect.objectContaining({ timestamp: '', text: 'no timestamp at all' })] },
+    ]);
+  });
+});
+
+// Serves a job and its log like api.github.com does, including the redirect
+// to the log's download location
+describe('job logs from GitHub', () => {
+  let server: Server;
+  let github: GitHubClient;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      if (req.url === '/repos/alice/XYLO-MD/actions/runs/42/jobs') {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ total_count: 1, jobs: [{ id: 7, run_id: 42, name: 'deploy', status: 'in_progress', conclusion: null, steps }] }));
+      } else if (req.url === '/repos/alice/XYLO-MD/actions/jobs/7/logs') {
+        res.writeHead(302, { Location: '/blobs/job-7.txt' }).end();
+      } else if (req.url === '/blobs/job-7.txt') {
+        res.setHeader('Content-Type', 'text/plain');
+        res.end(jobLog);
+      } else {
+        res.writeHead(404, { 'Content-Type': 'application/json' }).end(JSON.stringify({ message: 'Not Found' }));
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    github = new GitHubClient('token', `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('downloads and parses the log of each job', async () => {
+    const { jobs } = await github.listRunJobs('alice', 'XYLO-MD', 42);
+    const raw = await github.downloadJobLogs('alice', 'XYLO-MD', jobs[0].id);
+
+    expect(parseJobLog(jobs[0].id, raw, jobs[0].steps || []).map((log) => [log.stepName, log.lines.length])).toEqual([
+      ['Set up job', 3],
+      ['Install dependencies', 2],
+      ['Run Bot with Detailed Logging', 3],
+    ]);
+  });
+});
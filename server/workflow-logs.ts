@@ -0,0 +1,138 @@
+import type { AnsiSegment, WorkflowLogLine, WorkflowStepLog } from "@shared/schema";
+
+// Parsing for the plain-text logs GitHub serves from
+// GET /repos/{owner}/{repo}/actions/jobs/{job_id}/logs
+//
+// Every line looks like `2024-05-01T10:00:00.1234567Z <output>`. The download
+// has no step markers, so lines are assigned to steps using the step start and
+// completion times reported by the jobs API.
+
+export interface JobStep {
+  number: number;
+  name: string;
+  started_at?: string | null;
+  completed_at?: string | null;
+}
+
+const TIMESTAMP_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z) ?(.*)$/;
+const ANSI_PATTERN = /\x1b\[([0-9;?]*)([A-Za-z])/g;
+const COMMAND_PATTERN = /^##\[(error|warning|notice|debug|group|endgroup|command)\]/;
+
+const COLORS = ['black', 'red', 'green', 'yellow', 'blue', 'magenta', 'cyan', 'white'];
+
+// Splits a line on ANSI SGR sequences into styled segments. Other escape
+// sequences (cursor movement, line clearing) are dropped.
+export function parseAnsi(input: string): AnsiSegment[] {
+  const segments: AnsiSegment[] = [];
+  let color: string | undefined;
+  let bold = false;
+  let lastIndex = 0;
+
+  const push = (text: string) => {
+    if (!text) return;
+    const segment: AnsiSegment = { text };
+    if (color) segment.color = color;
+    if (bold) segment.bold = true;
+    segments.push(segment);
+  };
+
+  ANSI_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ANSI_PATTERN.exec(input)) !== null) {
+    push(input.substring(lastIndex, match.index));
+    lastIndex = match.index + match[0].length;
+    if (match[2] !== 'm') continue;
+
+    const codes = match[1] ? match[1].split(';').map(Number) : [0];
+    for (const code of codes) {
+      if (code === 0) {
+        color = undefined;
+        bold = false;
+      } else if (code === 1) {
+        bold = true;
+      } else if (code === 22) {
+        bold = false;
+      } else if (code >= 30 && code <= 37) {
+        color = COLORS[code - 30];
+      } else if (code >= 90 && code <= 97) {
+        color = `bright-${COLORS[code - 90]}`;
+      } else if (code === 39) {
+        color = undefined;
+      }
+    }
+  }
+  push(input.substring(lastIndex));
+
+  return segments;
+}
+
+export function parseLogLine(raw: string, previousTimestamp: string): WorkflowLogLine {
+  const cleaned = raw.replace(/^\ufeff/, '').replace(/\r$/, '');
+  const match = cleaned.match(TIMESTAMP_PATTERN);
+  const timestamp = match ? match[1] : previousTimestamp;
+  let content = match ? match[2] : cleaned;
+
+  let level: WorkflowLogLine['level'];
+  const command = content.match(COMMAND_PATTERN);
+  if (command) {
+    level = command[1] as WorkflowLogLine['level'];
+    content = content.substring(command[0].length);
+  }
+
+  const segments = parseAnsi(content);
+  const line: WorkflowLogLine = {
+    timestamp,
+    text: segments.map((segment) => segment.text).join(''),
+    segments,
+  };
+  if (level) line.level = level;
+  return line;
+}
+
+// Step timestamps only have second precision, so compare on whole seconds
+function toSeconds(timestamp: string) {
+  return Math.floor(new Date(timestamp).getTime() / 1000);
+}
+
+function findStep(steps: JobStep[], timestamp: string): JobStep | undefined {
+  const seconds = toSeconds(timestamp);
+  let covering: JobStep | undefined;
+  let previous: JobStep | undefined;
+  for (const step of steps) {
+    if (!step.started_at || toSeconds(step.started_at) > seconds) continue;
+    if (!step.completed_at || toSeconds(step.completed_at) >= seconds) {
+      covering = step;
+    } else {
+      // Closest earlier step, for lines written between steps
+      previous = step;
+    }
+  }
+  return covering ?? previous;
+}
+
+export function parseJobLog(jobId: number, raw: string, steps: JobStep[]): WorkflowStepLog[] {
+  const ordered = [...steps].sort((a, b) => a.number - b.number);
+  const byStep = new Map<number, WorkflowStepLog>();
+  let previousTimestamp = '';
+
+  for (const rawLine of raw.split('\n')) {
+    if (!rawLine.trim()) continue;
+
+    const line = parseLogLine(rawLine, previousTimestamp);
+    previousTimestamp = line.timestamp;
+
+    const step = (line.timestamp && findStep(ordered, line.timestamp)) || ordered[0];
+    const stepNumber = step?.number ?? 0;
+    if (!byStep.has(stepNumber)) {
+      byStep.set(stepNumber, {
+        jobId,
+        stepNumber,
+        stepName: step?.name ?? 'Job output',
+        lines: [],
+      });
+    }
+    byStep.get(stepNumber)!.lines.push(line);
+  }
+
+  return Array.from(byStep.values()).sort((a, b) => a.stepNumber - b.stepNumber);
+}
@@ -0,0 +1,104 @@
+import type { Deployment, InsertDeployment } from "@shared/schema";
+import { storage } from "./storage";
+import { type GitHubClient, type WorkflowRun, ifExists } from "./github";
+import { WORKFLOW_FILE } from "./config";
+
+// Every dispatch passes the deployment id as the `correlation_id` input, which
+// the workflow puts in its run-name. That lets us tell apart runs of different
+// deployments, and the self re-triggered runs of one deployment share it.
+export async function listDeploymentRuns(github: GitHubClient, owner: string, repo: string, branch: string, correlationId: string): Promise<WorkflowRun[]> {
+  // 404 until the workflow file has been committed
+  const runs = await ifExists(github.listWorkflowRuns(owner, repo, WORKFLOW_FILE, { branch, event: 'workflow_dispatch', per_page: 20 }));
+  if (!runs) return [];
+
+  // Runs are returned newest first
+  return runs.workflow_runs.filter((run) => (run.display_title || '').includes(correlationId));
+}
+
+export async function findDeploymentRun(github: GitHubClient, owner: string, repo: string, branch: string, correlationId: string) {
+  const runs = await listDeploymentRuns(github, owner, repo, branch, correlationId);
+  return runs[0] ?? null;
+}
+
+// GitHub takes a few seconds after a dispatch before the run shows up. Runs up
+// to `afterRunId` are ignored, so a restart waits for its own run.
+export async function waitForDeploymentRun(github: GitHubClient, owner: string, repo: string, branch: string, correlationId: string, afterRunId = 0, attempts = 10) {
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    const run = await findDeploymentRun(github, owner, repo, branch, correlationId);
+    if (run && run.id > afterRunId) return run;
+    await new Promise(resolve => setTimeout(resolve, 3000));
+  }
+  return null;
+}
+
+// Cancels every unfinished run of the deployment. Cancelled runs skip the
+// workflow's re-trigger step, so this also ends the auto-restart chain.
+export async function cancelDeploymentRuns(github: GitHubClient, deployment: Deployment) {
+  if (!deployment.branchName) return 0;
+
+  const owner = deployment.githubUsername;
+  const repo = deployment.repositoryName;
+  const runs = await listDeploymentRuns(github, owner, repo, deployment.branchName, deployment.id);
+
+  let cancelled = 0;
+  for (const run of runs) {
+    if (run.status === 'completed') continue;
+    await github.cancelWorkflowRun(owner, repo, run.id);
+    cancelled++;
+  }
+  return cancelled;
+}
+
+// Refreshes the deployment's tracked run, following re-triggered runs, and
+// records the outcome on the deployment once a run completes.
+export async function syncDeploymentRun(github: GitHubClient, deployment: Deployment) {
+  if (!deployment.branchName) return null;
+
+  const owner = deployment.githubUsername;
+  const repo = deployment.repositoryName;
+
+  let run = deployment.workflowRunId
+    ? await ifExists(github.getWorkflowRun(owner, repo, deployment.workflowRunId))
+    : null;
+
+  // A finished run has usually dispatched its successor; look for it
+  if (!run || run.status === 'completed') {
+    const latest = await findDeploymentRun(github, owner, repo, deployment.branchName, deployment.id);
+    if (latest && (!run || latest.id > run.id)) {
+      run = latest;
+    }
+  }
+  if (!run) return null;
+
+  // A stopped deployment keeps its status, and while a job is working on the
+  // deployment the pipeline decides it
+  if (deployment.status === 'stopped') return run;
+  const jobs = await storage.getUnfinishedDeploymentJobs();
+  if (jobs.some((job) => job.deploymentId === deployment.id)) return run;
+
+  const updates: Partial<InsertDeployment> = {};
+  if (run.id !== deployment.workflowRunId) {
+    updates.workflowRunId = run.id;
+    updates.workflowUrl = run.html_url;
+  }
+
+  if (run.status === 'completed') {
+    const status = run.conclusion === 'success' ? 'success' : 'failed';
+    if (deployment.status !== status) {
+      updates.status = status;
+      updates.message = status === 'success'
+        ? 'Workflow run completed successfully'
+        : `Workflow run finished with conclusion: ${run.conclusion}`;
+    }
+  } else if (deployment.status === 'success' || deployment.status === 'failed') {
+    // A re-triggered run picked the bot back up
+    updates.status = 'running';
+    updates.message = 'Bot deployment workflow is now running';
+  }
+
+  if (Object.keys(updates).length > 0) {
+    await storage.updateDeployment(deployment.id, updates);
+  }
+
+  return run;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { parse } from "yaml";
+import { WorkflowTemplateError, listWorkflowTemplates, renderTemplate, renderWorkflow, validateWorkflow } from "./workflow-template";
+
+const SECRET = 'XYLO_SESSION_1234';
+
+// Each shipped template with its optional sections on and off
+const variants = ['default', 'minimal'].flatMap((template) => [
+  { template, retrigger: true, secret: true },
+  { template, retrigger: true, secret: false },
+  { template, retrigger: false, secret: true },
+  { template, retrigger: false, secret: false },
+]);
+
+function stepNamed(workflow: any, name: string) {
+  return workflow.jobs.deploy.steps.find((step: any) => step.name === name);
+}
+
+describe('renderWorkflow', () => {
+  it('lists the shipped templates', async () => {
+    expect(await listWorkflowTemplates()).toEqual(['default', 'minimal']);
+  });
+
+  describe.each(variants)('$template with retrigger $retrigger and session secret $secret', ({ template, retrigger, secret }) => {
+    it('renders', async () => {
+      const content = await renderWorkflow({ template, retrigger }, { sessionSecretName: secret ? SECRET : null });
+
+      expect(content).toMatchSnapshot();
+
+      const workflow = parse(content);
+      const runBot = workflow.jobs.deploy.steps.find((step: any) => String(step.run).includes('npm start'));
+      expect(runBot.env).toEqual(secret ? { SESSION_ID: `\${{ secrets.${SECRET} }}` } : undefined);
+      expect(stepNamed(workflow, 'Re-Trigger Workflow') !== undefined).toBe(retrigger);
+      expect(content).not.toMatch(/(?<!\$)\{\{/);
+    });
+  });
+
+  it('fills in the workflow options', async () => {
+    const content = await renderWorkflow({ nodeVersion: '22.4', startCommand: 'node index.js', maxRuntimeMinutes: 120 });
+    const workflow = parse(content);
+
+    expect(stepNamed(workflow, 'Setup Node.js').with['node-version']).toBe('22.4');
+    expect(stepNamed(workflow, 'Run Bot')).toMatchObject({ 'timeout-minutes': 120 });
+    expect(stepNamed(workflow, 'Run Bot').run).toContain('if node index.js; then');
+  });
+
+  it('rejects a template that does not exist', async () => {
+    await expect(renderWorkflow({ template: 'missing' })).rejects.toThrow("Workflow template 'missing': template not found");
+  });
+});
+
+describe('renderTemplate', () => {
+  const variables = { nodeVersion: '20', startCommand: 'npm start', maxRuntimeMinutes: 300, retrigger: true, workflowFile: 'deploy.yml', useSessionSecret: false, sessionSecretName: '' };
+
+  it('leaves GitHub expressions alone', () => {
+    expect(renderTemplate('test', 'node: {{ nodeVersion }} ref: ${{ github.ref }}', variables)).toBe('node: 20 ref: ${{ github.ref }}');
+  });
+
+  it('rejects unknown variables and sections without a boolean', () => {
+    expect(() => renderTemplate('test', '{{ nope }}', variables)).toThrow(new WorkflowTemplateError('test', 'unknown variable {{ nope }}'));
+    expect(() => renderTemplate('test', '{{#nodeVersion}}x{{/nodeVersion}}', variables)).toThrow('section {{#nodeVersion}} needs a boolean variable');
+  });
+});
+
+describe('validateWorkflow', () => {
+  it('rejects YAML that is broken or not a workflow', () => {
+    expect(() => validateWorkflow('test', 'on: [push\njobs: {}')).toThrow(/rendered YAML is invalid/);
+    expect(() => validateWorkflow('test', 'name: nothing else')).toThrow('rendered YAML is not a workflow with `on` and `jobs`');
+    expect(() => validateWorkflow('test', 'on: push\njobs:\n  build:\n    runs-on: ubuntu-latest')).not.toThrow();
+  });
+});
@@ -0,0 +1,92 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { parseDocument } from "yaml";
+import { workflowOptionsSchema, type WorkflowOptions } from "@shared/schema";
+import { WORKFLOW_FILE } from "./config";
+
+// Shipped next to the server bundle, see the build scripts
+const TEMPLATES_DIR = process.env.WORKFLOW_TEMPLATES_DIR || path.resolve(import.meta.dirname, "workflow-templates");
+
+// `{{ name }}` placeholders; `${{ ... }}` is a GitHub expression and left alone
+const PLACEHOLDER = /(?<!\$)\{\{\s*(\w+)\s*\}\}/g;
+const SECTION = /\{\{#(\w+)\}\}\n?([\s\S]*?)\{\{\/\1\}\}\n?/g;
+
+export class WorkflowTemplateError extends Error {
+  constructor(public template: string, message: string) {
+    super(`Workflow template '${template}': ${message}`);
+    this.name = 'WorkflowTemplateError';
+  }
+}
+
+// Everything a template can refer to
+export interface WorkflowVariables extends Omit<WorkflowOptions, 'template'> {
+  workflowFile: string;
+  // Hand SESSION_ID to the bot from the named Actions secret
+  useSessionSecret: boolean;
+  sessionSecretName: string;
+}
+
+export async function listWorkflowTemplates() {
+  const files = await fs.readdir(TEMPLATES_DIR);
+  return files.filter((file) => file.endsWith('.yml')).map((file) => file.slice(0, -'.yml'.length)).sort();
+}
+
+// Fills a template's placeholders and sections from the variables. Unknown
+// names are an error rather than rendering as empty text.
+export function renderTemplate(name: string, source: string, variables: WorkflowVariables) {
+  const values = variables as unknown as Record<string, unknown>;
+
+  const withSections = source.replace(SECTION, (_match, flag: string, body: string) => {
+    if (typeof values[flag] !== 'boolean') {
+      throw new WorkflowTemplateError(name, `section {{#${flag}}} needs a boolean variable`);
+    }
+    return values[flag] ? body : '';
+  });
+
+  return withSections.replace(PLACEHOLDER, (_match, key: string) => {
+    const value = values[key];
+    if (value === undefined || typeof value === 'object') {
+      throw new WorkflowTemplateError(name, `unknown variable {{ ${key} }}`);
+    }
+    return String(value);
+  });
+}
+
+// Parses the rendered workflow so a broken template fails here, not as an
+// unreadable workflow file on the user's fork
+export function validateWorkflow(name: string, content: string) {
+  const document = parseDocument(content);
+  if (document.errors.length > 0) {
+    throw new WorkflowTemplateError(name, `rendered YAML is invalid: ${document.errors[0].message}`);
+  }
+
+  const workflow = document.toJS();
+  if (!workflow || typeof workflow !== 'object' || !workflow.on || !workflow.jobs || typeof workflow.jobs !== 'object') {
+    throw new WorkflowTemplateError(name, 'rendered YAML is not a workflow with `on` and `jobs`');
+  }
+}
+
+// Renders the deployment's workflow from its stored options, falling back to
+// the defaults for anything unset
+export async function renderWorkflow(
+  options: Partial<WorkflowOptions> | null = {},
+  session: { sessionSecretName?: string | null } = {},
+) {
+  const { template, ...variables } = workflowOptionsSchema.parse(options ?? {});
+
+  let source: string;
+  try {
+    source = await fs.readFile(path.join(TEMPLATES_DIR, `${template}.yml`), 'utf8');
+  } catch {
+    throw new WorkflowTemplateError(template, 'template not found');
+  }
+
+  const content = renderTemplate(template, source, {
+    ...variables,
+    workflowFile: WORKFLOW_FILE,
+    useSessionSecret: !!session.sessionSecretName,
+    sessionSecretName: session.sessionSecretName ?? '',
+  });
+  validateWorkflow(template, content);
+  return content;
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, boolean, integer, bigint, jsonb, serial, unique, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,16 +9,58 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
 });
 
+// An upstream bot repository users may deploy, managed by admins. Forks are
+// made from `owner/repo` and branches cut from `defaultBranch`.
+export const botTemplates = pgTable("bot_templates", {
+  id: varchar("id").primaryKey(), // Slug, e.g. xylo-md
+  name: text("name").notNull(),
+  description: text("description"),
+  owner: text("owner").notNull(),
+  repo: text("repo").notNull(),
+  defaultBranch: text("default_branch").notNull().default("main"),
+  configPath: text("config_path").notNull().default("config.js"), // File holding SESSION_ID and the bot settings
+  workflowTemplate: text("workflow_template").notNull().default("default"), // File in server/workflow-templates/
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// A named bot a user runs, such as one per WhatsApp number. Each deploy of an
+// instance is a deployment, so its deployments are the bot's history.
+export const botInstances = pgTable("bot_instances", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  githubUsername: text("github_username").notNull(),
+  name: text("name").notNull(),
+  templateId: varchar("template_id").notNull().default("default"),
+  sessionId: text("session_id").notNull(),
+  sessionMode: text("session_mode").notNull().default("secret"),
+  target: text("target").notNull().default("github-actions"),
+  branchName: text("branch_name"), // Set once the first deploy has created it; later deploys reuse it
+  workflowOptions: jsonb("workflow_options").$type<WorkflowOptions>(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => [
+  unique("bot_instances_user_name").on(table.githubUsername, table.name),
+]);
+
 export const deployments = pgTable("deployments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  instanceId: varchar("instance_id"), // Bot instance this deploys; null for deployments made before instances
+  templateId: varchar("template_id").notNull().default("default"), // Bot template the fork is made from
   sessionId: text("session_id").notNull(),
+  sessionMode: text("session_mode").notNull().default("committed"), // Where the bot gets SESSION_ID from, see SESSION_MODES
   branchName: text("branch_name"),
+  sourceRef: text("source_ref"), // Upstream tag or commit the user asked for; null deploys the default branch's head
+  commitSha: text("commit_sha"), // Upstream commit the branch was cut from, resolved from sourceRef
   githubUsername: text("github_username").notNull(),
   repositoryName: text("repository_name").notNull(),
-  githubToken: text("github_token"), // Store user's GitHub token for log access
-  status: text("status").notNull().default("pending"), // pending, running, success, failed
+  target: text("target").notNull().default("github-actions"), // Where the bot runs, see DEPLOYMENT_TARGETS
+  githubToken: text("github_token"), // User's GitHub token for log access, envelope-encrypted (see server/token-crypto.ts)
+  status: text("status").notNull().default("pending"), // pending, running, success, failed, stopped, stale
   message: text("message"),
   workflowUrl: text("workflow_url"),
+  workflowRunId: bigint("workflow_run_id", { mode: "number" }), // GitHub Actions run dispatched for this deployment
+  workflowOptions: jsonb("workflow_options").$type<WorkflowOptions>(), // Variables the workflow template is rendered with
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
@@ -29,23 +71,98 @@ export const deploymentLogs = pgTable("deployment_logs", {
   step: text("step").notNull(), // fork, branch, config, workflow, deploy
   status: text("status").notNull(), // pending, running, success, failed
   message: text("message").notNull(),
+  sequence: serial("sequence"), // Monotonic cursor for WebSocket replay
   timestamp: timestamp("timestamp").notNull().default(sql`now()`),
 });
 
+export const deploymentSteps = pgTable("deployment_steps", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  deploymentId: varchar("deployment_id").notNull(),
+  name: text("name").notNull(), // init, fork, actions-check, branch, config, workflow, deploy; `<scope>/<step>` for scoped pipelines
+  position: integer("position").notNull(),
+  status: text("status").notNull(), // running, success, failed
+  input: jsonb("input"),
+  output: jsonb("output"),
+  error: text("error"),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => [
+  unique("deployment_steps_deployment_name").on(table.deploymentId, table.name),
+]);
+
+export const deploymentJobs = pgTable("deployment_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  deploymentId: varchar("deployment_id").notNull(),
+  githubUsername: text("github_username").notNull(),
+  kind: text("kind").notNull(), // deploy, restart, redeploy, reconfigure
+  status: text("status").notNull().default("queued"), // queued, running, completed, failed
+  attempts: integer("attempts").notNull().default(0),
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// Who did what, on whose behalf, and which GitHub API requests it made. Written
+// by server/audit.ts for audited routes and background deployment jobs.
+export const auditEvents = pgTable("audit_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  githubUsername: text("github_username"), // User the event concerns; null when unknown, e.g. a failed login
+  actor: text("actor").notNull(), // GitHub login that acted, or "system" for background work
+  action: text("action").notNull(), // e.g. auth.login, setup, deploy, deployment.stop, job.deploy
+  targetRepo: text("target_repo"), // owner/repo acted on
+  deploymentId: varchar("deployment_id"),
+  result: text("result").notNull(), // success or failure
+  message: text("message"),
+  githubCalls: jsonb("github_calls").$type<AuditGitHubCall[]>().notNull().default([]), // Mutating GitHub API requests made
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("audit_events_user_created").on(table.githubUsername, table.createdAt),
+]);
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
 });
 
+export const insertBotTemplateSchema = createInsertSchema(botTemplates).pick({
+  id: true,
+  name: true,
+  description: true,
+  owner: true,
+  repo: true,
+  defaultBranch: true,
+  configPath: true,
+  workflowTemplate: true,
+  enabled: true,
+});
+
+export const insertBotInstanceSchema = createInsertSchema(botInstances).pick({
+  githubUsername: true,
+  name: true,
+  templateId: true,
+  sessionId: true,
+  sessionMode: true,
+  target: true,
+  branchName: true,
+  workflowOptions: true,
+});
+
 export const insertDeploymentSchema = createInsertSchema(deployments).pick({
+  instanceId: true,
+  templateId: true,
   sessionId: true,
+  sessionMode: true,
   branchName: true,
+  sourceRef: true,
+  commitSha: true,
   githubUsername: true,
   repositoryName: true,
+  target: true,
   githubToken: true,
   status: true,
   message: true,
   workflowUrl: true,
+  workflowRunId: true,
+  workflowOptions: true,
 });
 
 export const insertDeploymentLogSchema = createInsertSchema(deploymentLogs).pick({
@@ -55,15 +172,246 @@ export const insertDeploymentLogSchema = createInsertSchema(deploymentLogs).pick
   message: true,
 });
 
+export const insertDeploymentStepSchema = createInsertSchema(deploymentSteps).pick({
+  deploymentId: true,
+  name: true,
+  position: true,
+  status: true,
+  input: true,
+  output: true,
+  error: true,
+});
+
+export const insertDeploymentJobSchema = createInsertSchema(deploymentJobs).pick({
+  deploymentId: true,
+  githubUsername: true,
+  kind: true,
+  status: true,
+  attempts: true,
+  error: true,
+});
+
+// A GitHub API request that changed something, as recorded on audit events
+export const auditGitHubCallSchema = z.object({
+  method: z.string(),
+  path: z.string(), // e.g. repos/alice/XYLO-MD/contents/config.js
+  status: z.number().int(),
+});
+
+export const insertAuditEventSchema = createInsertSchema(auditEvents, {
+  githubCalls: z.array(auditGitHubCallSchema),
+}).pick({
+  githubUsername: true,
+  actor: true,
+  action: true,
+  targetRepo: true,
+  deploymentId: true,
+  result: true,
+  message: true,
+  githubCalls: true,
+});
+
+// Variables for the GitHub Actions workflow templates in server/workflow-templates/.
+// Values end up inside YAML and shell, hence the strict formats.
+export const workflowOptionsSchema = z.object({
+  template: z.string().regex(/^[a-z0-9-]+$/, "Invalid template name").default("default"),
+  nodeVersion: z.string().regex(/^\d+(\.\d+){0,2}$/, "Node version must look like 20 or 20.11").default("20"),
+  startCommand: z.string().min(1).max(200).regex(/^[\w ./:=@-]+$/, "Start command contains unsupported characters").default("npm start"),
+  // Steps are capped at 360 minutes; leave room for setup and the re-trigger
+  maxRuntimeMinutes: z.number().int().min(5).max(340).default(300),
+  retrigger: z.boolean().default(true),
+});
+
+// Runtimes a bot can be deployed to. The server only offers the ones enabled in ENABLED_TARGETS.
+export const DEPLOYMENT_TARGETS = ["github-actions", "local", "docker"] as const;
+
+// How the session ID reaches the bot. `committed` writes it into config.js and
+// .env on the fork; `secret` keeps it out of the repository and hands it over
+// as an Actions secret or environment variable instead.
+export const SESSION_MODES = ["committed", "secret"] as const;
+
+// GitHub owner/repo names and branch names as they may appear in API paths
+const githubNameSchema = z.string().trim().regex(/^[\w.-]+$/, "Not a valid GitHub name").max(100);
+
+export const botTemplateRequestSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "Template ID may only contain lowercase letters, digits and dashes").max(40),
+  name: z.string().trim().min(1, "Name is required").max(60),
+  description: z.string().trim().max(300).nullish(),
+  owner: githubNameSchema,
+  repo: githubNameSchema,
+  defaultBranch: z.string().trim().regex(/^[\w./-]+$/, "Not a valid branch name").max(100).default("main"),
+  configPath: z.string().trim().regex(/^[\w./-]+\.js$/, "Config path must be a .js file in the repository").default("config.js"),
+  workflowTemplate: workflowOptionsSchema.shape.template,
+  enabled: z.boolean().default(true),
+});
+
+export const botTemplateUpdateSchema = botTemplateRequestSchema.omit({ id: true }).partial();
+
+const gitRefSchema = z.string().trim()
+  .min(1, "Version is required")
+  .max(100, "Version must be at most 100 characters")
+  .regex(/^[\w.\-\/]+$/, "Version must be a tag name or commit SHA")
+  .refine((ref) => !ref.includes('..') && !ref.startsWith('/') && !ref.endsWith('/'), "Version must be a tag name or commit SHA");
+
+const instanceNameSchema = z.string().trim().min(1, "Name is required").max(60, "Name must be at most 60 characters");
+
 export const deploymentRequestSchema = z.object({
-  sessionId: z.string().min(1, "Session ID is required"),
+  // Name of the bot instance created for this deploy; generated when left out
+  name: instanceNameSchema.optional(),
+  // Bot template to deploy; the default template when left out
+  templateId: z.string().optional(),
+  sessionId: z.string().trim().min(1, "Session ID is required"),
+  sessionMode: z.enum(SESSION_MODES).default("secret"),
   branchName: z.string().optional(),
+  // Upstream release tag or commit SHA to deploy; the default branch's head when left out
+  ref: gitRefSchema.optional(),
+  target: z.enum(DEPLOYMENT_TARGETS).default("github-actions"),
+  workflow: workflowOptionsSchema.optional(),
+});
+
+export const botInstanceRequestSchema = deploymentRequestSchema
+  .omit({ name: true, ref: true })
+  .extend({ name: instanceNameSchema });
+
+// Body of POST /api/instances/:id/deploy
+export const instanceDeployRequestSchema = z.object({
+  // Upstream release tag or commit SHA to deploy on a new branch; the
+  // instance's current branch when left out
+  ref: gitRefSchema.optional(),
+});
+
+// Every field is optional; changes apply from the instance's next deploy
+export const botInstanceUpdateSchema = z.object({
+  name: instanceNameSchema.optional(),
+  sessionId: z.string().trim().min(1, "Session ID is required").optional(),
+  sessionMode: z.enum(SESSION_MODES).optional(),
+  target: z.enum(DEPLOYMENT_TARGETS).optional(),
+  workflow: workflowOptionsSchema.optional(),
+});
+
+// Query of GET /api/audit
+export const auditQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+// Changes to the bot's config.js/.env settings from the config editor
+export const botConfigUpdateSchema = z.object({
+  values: z.record(z.string(), z.union([z.string().max(500), z.number().finite(), z.boolean()])),
+  // Restart the bot once the changes are committed
+  restart: z.boolean().default(false),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type InsertBotTemplate = z.infer<typeof insertBotTemplateSchema>;
+export type BotTemplate = typeof botTemplates.$inferSelect;
+export type BotTemplateRequest = z.infer<typeof botTemplateRequestSchema>;
+export type InsertBotInstance = z.infer<typeof insertBotInstanceSchema>;
+export type BotInstance = typeof botInstances.$inferSelect;
 export type InsertDeployment = z.infer<typeof insertDeploymentSchema>;
 export type Deployment = typeof deployments.$inferSelect;
+// Shape returned by the API - stored credentials never leave the server
+export type PublicDeployment = Omit<Deployment, "githubToken">;
 export type InsertDeploymentLog = z.infer<typeof insertDeploymentLogSchema>;
 export type DeploymentLog = typeof deploymentLogs.$inferSelect;
+export type InsertDeploymentStep = z.infer<typeof insertDeploymentStepSchema>;
+export type DeploymentStep = typeof deploymentSteps.$inferSelect;
+export type InsertDeploymentJob = z.infer<typeof insertDeploymentJobSchema>;
+export type DeploymentJob = typeof deploymentJobs.$inferSelect;
+export type AuditGitHubCall = z.infer<typeof auditGitHubCallSchema>;
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+export type AuditEvent = typeof auditEvents.$inferSelect;
 export type DeploymentRequest = z.infer<typeof deploymentRequestSchema>;
+export type BotInstanceRequest = z.infer<typeof botInstanceRequestSchema>;
+export type BotInstanceUpdate = z.infer<typeof botInstanceUpdateSchema>;
+export type InstanceDeployRequest = z.infer<typeof instanceDeployRequestSchema>;
+export type DeploymentTargetId = typeof DEPLOYMENT_TARGETS[number];
+export type SessionMode = typeof SESSION_MODES[number];
+export type WorkflowOptions = z.infer<typeof workflowOptionsSchema>;
+export type BotConfigUpdate = z.infer<typeof botConfigUpdateSchema>;
+
+// A bot instance as listed by GET /api/instances
+export interface BotInstanceSummary extends BotInstance {
+  latestDeployment: PublicDeployment | null;
+  deploymentCount: number;
+}
+
+// Upstream versions of a bot template a deployment can be pinned to, as
+// served by GET /api/templates/:id/refs
+export interface TemplateRefs {
+  defaultBranch: string;
+  releases: { tag: string; name: string; prerelease: boolean; publishedAt: string | null }[];
+  tags: { name: string; sha: string }[];
+}
+
+// A page of the user's audit events, as served by GET /api/audit
+export interface AuditPage {
+  events: AuditEvent[];
+  page: number;
+  pageSize: number;
+  total: number;
+}
+
+// GitHub Actions job output, parsed server-side and streamed over /api/logs-ws
+export interface AnsiSegment {
+  text: string;
+  color?: string; // red, green, ..., bright-red, ...
+  bold?: boolean;
+}
+
+export interface WorkflowLogLine {
+  timestamp: string;
+  text: string; // Plain text with ANSI codes removed
+  segments: AnsiSegment[];
+  level?: "error" | "warning" | "notice" | "debug" | "group" | "endgroup" | "command";
+}
+
+export interface WorkflowStepLog {
+  jobId: number;
+  stepNumber: number;
+  stepName: string;
+  lines: WorkflowLogLine[];
+}
+
+// A deployment target as offered by GET /api/targets
+export interface DeploymentTargetInfo {
+  id: DeploymentTargetId;
+  label: string;
+  description: string;
+}
+
+// Outcome of each cleanup step when a deployment is deleted
+export interface CleanupStepResult {
+  step: "stop" | "release" | "delete-branch" | "remove-records";
+  status: "success" | "failed" | "skipped";
+  message: string;
+}
+
+// A setting read from the bot's config.js or .env, as served by
+// GET /api/deployments/:id/config
+export interface BotConfigEntry {
+  key: string;
+  type: "string" | "number" | "boolean";
+  value: string | number | boolean;
+  source: string; // ".env" or the bot template's config file, e.g. config.js
+  label: string;
+  description?: string;
+  options?: string[]; // Allowed values, for settings like MODE
+}
+
+export interface BotConfig {
+  branchName: string;
+  entries: BotConfigEntry[];
+}
+
+// Result of POST /api/session/validate
+export interface SessionValidation {
+  valid: boolean;
+  format?: "creds" | "paste" | "mega";
+  prefix?: string;
+  // Masked phone number of the linked account, when the creds include it
+  account?: string;
+  error?: string;
+  warnings: string[];
+}